@@ -7,6 +7,7 @@ import {
 	generateProof,
 	verify,
 	verifyWithChallenge,
+	hashToGroup,
 	RSA_2048,
 } from "../src/index.ts";
 
@@ -17,8 +18,7 @@ async function main() {
 
 	// Derive input x from a seed (in practice, this could come from any source)
 	const seed = new TextEncoder().encode("example-seed");
-	const hash = await crypto.subtle.digest("SHA-256", seed);
-	const x = (BigInt(`0x${Buffer.from(hash).toString("hex")}`) % (n - 2n)) + 2n;
+	const x = await hashToGroup(seed, n, { domain: "example" });
 
 	console.log("VDF Parameters:");
 	console.log(`  t = ${t.toLocaleString()} sequential squarings`);
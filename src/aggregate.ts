@@ -0,0 +1,221 @@
+import {
+	gcd,
+	modpow,
+	bigintByteLength,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	u32be,
+	u64be,
+} from "./utils.ts";
+import { sha512 } from "./digest.ts";
+import { expandSha512 } from "./hash.ts";
+import { RSAGroup } from "./group.ts";
+import { sameChallengeConfig, type ChallengeConfig } from "./challenge.ts";
+import {
+	generateProof,
+	outputWithParams,
+	verifyWithChallenge,
+	type VDFOutput,
+	type VDFParams,
+} from "./vdf.ts";
+import { InvalidInputError } from "./errors.ts";
+
+const AGGREGATE_TAG = new TextEncoder().encode("wesolowski-agg-v1");
+
+/** Byte length of each aggregation coefficient α_i */
+const AGGREGATE_COEFFICIENT_BYTES = 16;
+
+/**
+ * A single Wesolowski proof for several outputs h_i = x_i^(2^t) mod n.
+ */
+export interface AggregateProof {
+	/** Inputs x_i */
+	x: bigint[];
+	/** Outputs h_i, in the same order as x */
+	h: bigint[];
+	/** Number of sequential squarings shared by all outputs */
+	t: number;
+	/** RSA modulus shared by all outputs */
+	n: bigint;
+	/** Proof for the combined output */
+	pi: bigint;
+	/** Challenge prime for the combined output */
+	l: bigint;
+	/** 32-byte nonce used in challenge derivation */
+	nonce: Uint8Array;
+	/** true for outputs in the signed group QR⁺_n, absent otherwise */
+	signed?: boolean;
+	/** Registry identifier of n shared by all outputs */
+	modulusId?: string;
+	/** Challenge configuration shared by all outputs */
+	challenge?: ChallengeConfig;
+}
+
+/**
+ * Derive the aggregation coefficients α_i using Fiat-Shamir.
+ *
+ * α_i are consecutive 128-bit blocks of SHA-512 in counter mode over a
+ * SHA-512 digest of (t, n, x_1..x_N, h_1..h_N), so each coefficient
+ * depends on every input and output.
+ */
+async function deriveCoefficients(
+	x: bigint[],
+	h: bigint[],
+	t: number,
+	n: bigint,
+): Promise<bigint[]> {
+	const nLen = bigintByteLength(n);
+
+	const payload = concatBytes(
+		AGGREGATE_TAG,
+		u64be(BigInt(t)),
+		bigintToFixedBytes(n, nLen),
+		u32be(x.length),
+		...x.map((v) => bigintToFixedBytes(v, nLen)),
+		...h.map((v) => bigintToFixedBytes(v, nLen)),
+	);
+	const stream = await expandSha512(
+		sha512(payload),
+		x.length * AGGREGATE_COEFFICIENT_BYTES,
+	);
+
+	const alpha: bigint[] = [];
+	for (let i = 0; i < x.length; i++) {
+		const start = i * AGGREGATE_COEFFICIENT_BYTES;
+		alpha.push(
+			bytesToBigint(
+				stream.subarray(start, start + AGGREGATE_COEFFICIENT_BYTES),
+			),
+		);
+	}
+	return alpha;
+}
+
+/**
+ * Combine the inputs and outputs into X = ∏ x_i^α_i and H = ∏ h_i^α_i.
+ * In the signed group, X and H are replaced by their canonical forms. The
+ * combined output carries the modulus id and challenge configuration of
+ * the parameters.
+ */
+async function combine(
+	x: bigint[],
+	h: bigint[],
+	params: VDFParams,
+): Promise<VDFOutput> {
+	const { t, n, signed } = params;
+	const alpha = await deriveCoefficients(x, h, t, n);
+
+	let X = 1n;
+	let H = 1n;
+	for (let i = 0; i < alpha.length; i++) {
+		X = (X * modpow(x[i]!, alpha[i]!, n)) % n;
+		H = (H * modpow(h[i]!, alpha[i]!, n)) % n;
+	}
+	const group = new RSAGroup(n, { signed });
+	return outputWithParams(params, group.canonical(X), group.canonical(H));
+}
+
+/**
+ * Prove several VDF outputs with a single proof.
+ *
+ * All outputs must share n, t and the group (signed or not). The inputs
+ * and outputs are combined into X = ∏ x_i^α_i and H = ∏ h_i^α_i with
+ * Fiat-Shamir coefficients α_i, and a regular Wesolowski proof is
+ * produced for H = X^(2^t). The proof carries one π regardless of the
+ * number of outputs. The outputs must also share their modulus id and
+ * challenge configuration, which the proof carries and its challenge
+ * uses.
+ *
+ * @param outputs - VDF outputs to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @returns Aggregate proof
+ */
+export async function aggregateProve(
+	outputs: VDFOutput[],
+	nonce?: Uint8Array,
+): Promise<AggregateProof> {
+	if (outputs.length === 0) {
+		throw new InvalidInputError("at least one output is required");
+	}
+	const { t, n, modulusId, challenge } = outputs[0]!;
+	const signed = outputs[0]!.signed ?? false;
+	for (const output of outputs) {
+		if (output.t !== t || output.n !== n) {
+			throw new InvalidInputError("all outputs must share n and t");
+		}
+		if ((output.signed ?? false) !== signed) {
+			throw new InvalidInputError(
+				"outputs must be either all signed or all unsigned",
+			);
+		}
+		if (
+			output.modulusId !== modulusId ||
+			!sameChallengeConfig(output.challenge, challenge)
+		) {
+			throw new InvalidInputError(
+				"all outputs must share the modulus id and challenge configuration",
+			);
+		}
+	}
+
+	const x = outputs.map((o) => o.x);
+	const h = outputs.map((o) => o.h);
+	const params: VDFParams = { n, t, modulusId, challenge, signed };
+	const combined = await combine(x, h, params);
+	const { pi, l, nonce: usedNonce } = await generateProof(combined, nonce);
+
+	const proof: AggregateProof = { x, h, t, n, pi, l, nonce: usedNonce };
+	if (signed) {
+		proof.signed = true;
+	}
+	if (modulusId !== undefined) {
+		proof.modulusId = modulusId;
+	}
+	if (challenge !== undefined) {
+		proof.challenge = challenge;
+	}
+	return proof;
+}
+
+/**
+ * Verify an aggregate proof.
+ *
+ * Re-derives the coefficients α_i and the challenge, then checks the
+ * Wesolowski equation for the combined output. If any h_i is not
+ * x_i^(2^t), H differs from X^(2^t) except with negligible probability
+ * over the choice of α_i. Outputs are only determined up to sign, as with
+ * single proofs in Z*_n, where (n - h, n - π) verifies whenever (h, π)
+ * does. Signed proofs require every x_i and h_i in canonical form, which
+ * removes that ambiguity. A modulus id must be registered for n.
+ *
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid for every output
+ */
+export async function aggregateVerify(proof: AggregateProof): Promise<boolean> {
+	const { x, h, t, n, pi, l, nonce, modulusId, challenge } = proof;
+	const signed = proof.signed ?? false;
+
+	// Validate inputs
+	if (n <= 1n || !Number.isSafeInteger(t) || t <= 0) {
+		return false;
+	}
+	if (x.length === 0 || x.length !== h.length) {
+		return false;
+	}
+	for (let i = 0; i < x.length; i++) {
+		if (x[i]! <= 0n || x[i]! >= n || h[i]! <= 0n || h[i]! >= n) {
+			return false;
+		}
+		if (gcd(x[i]!, n) !== 1n) {
+			return false;
+		}
+		if (signed && (x[i]! > n >> 1n || h[i]! > n >> 1n)) {
+			return false;
+		}
+	}
+
+	const params: VDFParams = { n, t, modulusId, challenge, signed };
+	const combined = await combine(x, h, params);
+	return verifyWithChallenge({ ...combined, pi, l, nonce });
+}
@@ -0,0 +1,252 @@
+import { gcd } from "./utils.ts";
+import { rsaGroupFor, type Group } from "./group.ts";
+import {
+	checkOptionalParams,
+	deriveChallenge,
+	outputWithParams,
+	type GroupOutput,
+	type VDFOutput,
+	type VDFParams,
+	type VDFProof,
+} from "./vdf.ts";
+import { InvalidInputError, InvalidParamsError } from "./errors.ts";
+
+/** Default number of squarings between yields to the event loop */
+const DEFAULT_YIELD_EVERY = 10000;
+
+/**
+ * Progress of a long-running evaluation or proof.
+ */
+export interface VDFProgress {
+	/** Squarings completed so far */
+	completed: number;
+	/** Total squarings (t) */
+	total: number;
+	/** Milliseconds since the operation started */
+	elapsedMs: number;
+	/** Estimated milliseconds until completion, from the average rate so far */
+	etaMs: number;
+}
+
+export interface AsyncOptions {
+	/** Abort the operation; the promise then rejects with `signal.reason` */
+	signal?: AbortSignal;
+	/** Called after each batch of squarings, and once on completion */
+	onProgress?: (progress: VDFProgress) => void;
+	/** Number of squarings between yields to the event loop (default: 10000) */
+	yieldEvery?: number;
+}
+
+/**
+ * Runs a chunked computation, yielding to the event loop between chunks.
+ */
+class AsyncRunner {
+	private readonly signal: AbortSignal | undefined;
+	private readonly onProgress: ((progress: VDFProgress) => void) | undefined;
+	private readonly start: number;
+	public readonly total: number;
+	public readonly chunkSize: number;
+
+	constructor(total: number, options: AsyncOptions) {
+		const yieldEvery = options.yieldEvery ?? DEFAULT_YIELD_EVERY;
+		if (!Number.isSafeInteger(yieldEvery) || yieldEvery <= 0) {
+			throw new InvalidParamsError("yieldEvery must be a positive integer");
+		}
+		this.signal = options.signal;
+		this.onProgress = options.onProgress;
+		this.start = performance.now();
+		this.total = total;
+		this.chunkSize = yieldEvery;
+		this.signal?.throwIfAborted();
+	}
+
+	/** Report progress, yield to the event loop, then check for abort */
+	async step(completed: number): Promise<void> {
+		if (this.onProgress) {
+			const elapsedMs = performance.now() - this.start;
+			const etaMs =
+				completed > 0 ? (elapsedMs * (this.total - completed)) / completed : 0;
+			this.onProgress({ completed, total: this.total, elapsedMs, etaMs });
+		}
+		if (completed < this.total) {
+			await new Promise((resolve) => setTimeout(resolve, 0));
+			this.signal?.throwIfAborted();
+		}
+	}
+}
+
+/**
+ * Evaluate the VDF in a group without blocking the event loop.
+ *
+ * @param group - Group to evaluate in
+ * @param x - Input element
+ * @param t - Number of sequential squarings
+ * @param options - Cancellation, progress and yield interval
+ * @returns VDF output
+ */
+export async function evaluateInGroupAsync<E>(
+	group: Group<E>,
+	x: E,
+	t: number,
+	options: AsyncOptions = {},
+): Promise<GroupOutput<E>> {
+	if (!group.isElement(x)) {
+		throw new InvalidInputError("x must be a valid group element");
+	}
+	if (t <= 0) {
+		throw new InvalidParamsError("t must be positive");
+	}
+
+	const runner = new AsyncRunner(t, options);
+	let h = x;
+	let done = 0;
+	while (done < t) {
+		const steps = Math.min(runner.chunkSize, t - done);
+		h = group.repeatedSquare(h, steps);
+		done += steps;
+		await runner.step(done);
+	}
+
+	return { x, h, t };
+}
+
+/**
+ * Compute the Wesolowski proof π = x^⌊2^t / l⌋ in a group without blocking
+ * the event loop. The result is identical to `proveInGroup`.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output to prove
+ * @param l - Challenge prime
+ * @param options - Cancellation, progress and yield interval
+ * @returns Proof element π
+ */
+export async function proveInGroupAsync<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	l: bigint,
+	options: AsyncOptions = {},
+): Promise<E> {
+	const { x, t } = output;
+
+	const runner = new AsyncRunner(t, options);
+	let pi = group.identity();
+	let r = 1n;
+	let done = 0;
+
+	while (done < t) {
+		const end = Math.min(done + runner.chunkSize, t);
+		for (; done < end; done++) {
+			pi = group.square(pi);
+
+			const r2 = r << 1n;
+			if (r2 >= l) {
+				r = r2 - l;
+				pi = group.multiply(pi, x);
+			} else {
+				r = r2;
+			}
+		}
+		await runner.step(done);
+	}
+
+	return pi;
+}
+
+/**
+ * Evaluate the VDF without blocking the event loop.
+ *
+ * Same result as `evaluate`, computed in batches of `yieldEvery` squarings
+ * with a yield to the event loop between batches. Progress is reported
+ * after each batch. If `signal` is aborted, the promise rejects with the
+ * signal's reason (an `AbortError` DOMException unless another reason was
+ * given) at the next batch boundary.
+ *
+ * @param x - Input value (must be coprime to n)
+ * @param params - VDF parameters (n, t, optional signed group)
+ * @param options - Cancellation, progress and yield interval
+ * @returns VDF output
+ */
+export async function evaluateAsync(
+	x: bigint,
+	params: VDFParams,
+	options: AsyncOptions = {},
+): Promise<VDFOutput> {
+	const { n, t } = params;
+
+	if (x <= 0n || x >= n) {
+		throw new InvalidInputError("x must be in range (0, n)");
+	}
+	if (gcd(x, n) !== 1n) {
+		throw new InvalidInputError("x must be coprime to n");
+	}
+	if (t <= 0) {
+		throw new InvalidParamsError("t must be positive");
+	}
+	checkOptionalParams(params);
+
+	const group = rsaGroupFor(n, t, { signed: params.signed });
+	const input = group.canonical(x);
+	const { h } = await evaluateInGroupAsync(
+		group,
+		group.fromBigint(input),
+		t,
+		options,
+	);
+	return outputWithParams(params, input, group.toBigint(h));
+}
+
+/**
+ * Compute the proof π = x^⌊2^t / l⌋ mod n without blocking the event loop.
+ * The result is identical to `prove`; cancellation and progress work as in
+ * `evaluateAsync`.
+ *
+ * @param output - VDF output to prove
+ * @param l - Challenge prime
+ * @param options - Cancellation, progress and yield interval
+ * @returns Proof value π
+ */
+export async function proveAsync(
+	output: VDFOutput,
+	l: bigint,
+	options: AsyncOptions = {},
+): Promise<bigint> {
+	const { x, h, t, n, signed } = output;
+
+	const group = rsaGroupFor(n, t, { signed });
+	const pi = await proveInGroupAsync(
+		group,
+		{ x: group.fromBigint(x), h: group.fromBigint(h), t },
+		l,
+		options,
+	);
+	return group.toBigint(pi);
+}
+
+/**
+ * Generate a complete VDF proof without blocking the event loop.
+ *
+ * @param output - VDF output to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @param options - Cancellation, progress and yield interval
+ * @returns Complete VDF proof
+ */
+export async function generateProofAsync(
+	output: VDFOutput,
+	nonce?: Uint8Array,
+	options: AsyncOptions = {},
+): Promise<VDFProof> {
+	if (!nonce) {
+		nonce = new Uint8Array(32);
+		crypto.getRandomValues(nonce);
+	}
+
+	const l = await deriveChallenge(output, nonce);
+	const pi = await proveAsync(output, l, options);
+
+	return {
+		...output,
+		pi,
+		l,
+		nonce,
+	};
+}
@@ -0,0 +1,222 @@
+import { modpow, bigintBitLength, bytesToBigint } from "./utils.ts";
+import { isPrime } from "./prime.ts";
+import { RSAGroup } from "./group.ts";
+import { isRegisteredAs } from "./registry.ts";
+import { isValidChallengeConfig } from "./challenge.ts";
+import { deriveChallenge, verify, type VDFProof } from "./vdf.ts";
+import { InvalidParamsError } from "./errors.ts";
+
+/** Default bit length of the random batching exponents */
+const DEFAULT_BATCH_SECURITY_BITS = 128;
+
+/** Window size of the simultaneous multi-exponentiation */
+const MULTIEXP_WINDOW_BITS = 4;
+
+export interface BatchVerifyOptions {
+	/** Re-derive each challenge from its transcript, like `verifyWithChallenge` */
+	checkChallenges?: boolean;
+	/** Bit length of the random exponents ρ_i (default: 128) */
+	securityBits?: number;
+	/** Source of randomness for ρ_i (default: `crypto.getRandomValues`) */
+	randomBytes?: (length: number) => Uint8Array;
+}
+
+export interface BatchVerifyResult {
+	/** true if every proof in the batch is valid */
+	valid: boolean;
+	/** Indices of the invalid proofs, in increasing order */
+	invalid: number[];
+}
+
+/** A proof that passed the per-proof checks, with its batching exponents */
+interface BatchEntry {
+	index: number;
+	proof: VDFProof;
+	r: bigint;
+	rho: bigint;
+}
+
+function defaultRandomBytes(length: number): Uint8Array {
+	const bytes = new Uint8Array(length);
+	crypto.getRandomValues(bytes);
+	return bytes;
+}
+
+/**
+ * Compute ∏ base_i^exp_i with one shared chain of squarings.
+ */
+function multiExp(group: RSAGroup, terms: [bigint, bigint][]): bigint {
+	const w = MULTIEXP_WINDOW_BITS;
+	const size = 1 << w;
+
+	let maxBits = 0;
+	for (const [, e] of terms) {
+		maxBits = Math.max(maxBits, bigintBitLength(e));
+	}
+	const digits = Math.ceil(maxBits / w);
+
+	const tables = terms.map(([base]) => {
+		const table = [group.identity(), base];
+		for (let i = 2; i < size; i++) {
+			table.push(group.multiply(table[i - 1]!, base));
+		}
+		return table;
+	});
+	// Each hex character of the exponent is one 4-bit window
+	const hex = terms.map(([, e]) => e.toString(16).padStart(digits, "0"));
+
+	let acc = group.identity();
+	for (let d = 0; d < digits; d++) {
+		if (d > 0) {
+			acc = group.repeatedSquare(acc, w);
+		}
+		for (let i = 0; i < terms.length; i++) {
+			const digit = parseInt(hex[i]![d]!, 16);
+			if (digit !== 0) {
+				acc = group.multiply(acc, tables[i]![digit]!);
+			}
+		}
+	}
+	return acc;
+}
+
+/**
+ * Check ∏ (π_i^l_i · x_i^r_i)^ρ_i = ∏ h_i^ρ_i for a set of proofs.
+ */
+function combinedCheck(group: RSAGroup, entries: BatchEntry[]): boolean {
+	const lhs: [bigint, bigint][] = [];
+	const rhs: [bigint, bigint][] = [];
+	for (const { proof, r, rho } of entries) {
+		lhs.push([group.fromBigint(proof.pi), rho * proof.l]);
+		lhs.push([group.fromBigint(proof.x), rho * r]);
+		rhs.push([group.fromBigint(proof.h), rho]);
+	}
+	return group.equals(multiExp(group, lhs), multiExp(group, rhs));
+}
+
+/**
+ * Find the invalid entries of a set of proofs.
+ *
+ * A set that fails the combined check is halved until each failing half is
+ * down to a single proof, which is then verified on its own.
+ */
+function bisect(
+	group: RSAGroup,
+	entries: BatchEntry[],
+	invalid: number[],
+): void {
+	if (entries.length === 1) {
+		const { index, proof } = entries[0]!;
+		if (!verify(proof)) {
+			invalid.push(index);
+		}
+		return;
+	}
+	if (combinedCheck(group, entries)) {
+		return;
+	}
+	const mid = entries.length >> 1;
+	bisect(group, entries.slice(0, mid), invalid);
+	bisect(group, entries.slice(mid), invalid);
+}
+
+/**
+ * Verify many Wesolowski proofs at once.
+ *
+ * Proofs are grouped by modulus and by signed group mode. Within a group,
+ * each proof gets a fresh random odd exponent ρ_i of `securityBits` bits,
+ * and the equations π_i^l_i · x_i^r_i = h_i are combined into a
+ * single check
+ *
+ *   ∏ π_i^(ρ_i·l_i) · x_i^(ρ_i·r_i) = ∏ h_i^(ρ_i)
+ *
+ * evaluated with two multi-exponentiations that share their squarings.
+ * If the combined check fails, the group is bisected until the invalid
+ * proofs are isolated; isolated proofs are checked individually with
+ * `verify`, so a valid proof is never reported as invalid.
+ *
+ * Soundness: the ρ_i are drawn from `randomBytes` after the proofs are
+ * fixed, so a batch containing an invalid proof passes with probability
+ * about 2^-securityBits, except for errors of order 2. Z*_n contains -1;
+ * since every ρ_i is odd, a proof whose claimed h is off by a factor of
+ * -1 (h replaced by n - h) always fails the combined check. Two such
+ * proofs in the same group still cancel out, so use `verify` on each
+ * proof when that matters, or signed proofs: in QR⁺_n the sign is not
+ * part of the element and non-canonical values are rejected up front.
+ *
+ * Without `checkChallenges`, each l_i is tested for primality as in
+ * `verify`. With it, each l_i must equal the challenge re-derived from the
+ * proof's transcript, which is prime by construction.
+ *
+ * @param proofs - Proofs to verify
+ * @param options - Challenge re-derivation and randomness
+ * @returns Overall validity and the indices of invalid proofs
+ */
+export async function verifyBatch(
+	proofs: VDFProof[],
+	options: BatchVerifyOptions = {},
+): Promise<BatchVerifyResult> {
+	const securityBits = options.securityBits ?? DEFAULT_BATCH_SECURITY_BITS;
+	const randomBytes = options.randomBytes ?? defaultRandomBytes;
+	if (!Number.isSafeInteger(securityBits) || securityBits <= 0) {
+		throw new InvalidParamsError("securityBits must be a positive integer");
+	}
+	const rhoBytes = Math.ceil(securityBits / 8);
+	const rhoMask = (1n << BigInt(securityBits)) - 1n;
+
+	const invalid: number[] = [];
+	// Keyed by modulus and group mode
+	const byGroup = new Map<string, BatchEntry[]>();
+
+	for (let index = 0; index < proofs.length; index++) {
+		const proof = proofs[index]!;
+		const { n, x, h, t, pi, l, modulusId, signed } = proof;
+
+		if (n <= 1n || !Number.isSafeInteger(t) || t <= 0) {
+			invalid.push(index);
+			continue;
+		}
+		if (modulusId !== undefined && !isRegisteredAs(modulusId, n)) {
+			invalid.push(index);
+			continue;
+		}
+		const group = new RSAGroup(n, { signed });
+		if (!group.isElement(x) || !group.isElement(h) || !group.isElement(pi)) {
+			invalid.push(index);
+			continue;
+		}
+		if (options.checkChallenges) {
+			if (
+				!isValidChallengeConfig(proof.challenge) ||
+				proof.nonce.length !== 32 ||
+				(await deriveChallenge(proof, proof.nonce)) !== l
+			) {
+				invalid.push(index);
+				continue;
+			}
+		} else if (l <= 2n || !isPrime(l, { method: "bpsw" })) {
+			invalid.push(index);
+			continue;
+		}
+
+		// Odd, so that a factor of -1 cannot vanish from the combined check
+		const rho = (bytesToBigint(randomBytes(rhoBytes)) & rhoMask) | 1n;
+
+		const key = signed ? `${n}/signed` : `${n}`;
+		const entries = byGroup.get(key) ?? [];
+		entries.push({ index, proof, r: modpow(2n, BigInt(t), l), rho });
+		byGroup.set(key, entries);
+	}
+
+	for (const entries of byGroup.values()) {
+		const { n, signed } = entries[0]!.proof;
+		const group = new RSAGroup(n, {
+			montgomery: (n & 1n) === 1n,
+			signed,
+		});
+		bisect(group, entries, invalid);
+	}
+
+	invalid.sort((a, b) => a - b);
+	return { valid: invalid.length === 0, invalid };
+}
@@ -0,0 +1,312 @@
+import {
+	bigintByteLength,
+	bigintToFixedBytes,
+	concatBytes,
+	u32be,
+	u64be,
+} from "./utils.ts";
+import { sha256 } from "./digest.ts";
+import { hashToGroup } from "./hash.ts";
+import { sameChallengeConfig } from "./challenge.ts";
+import {
+	evaluate,
+	generateProof,
+	verifyWithChallenge,
+	type VDFParams,
+	type VDFProof,
+} from "./vdf.ts";
+import { InvalidInputError, InvalidParamsError } from "./errors.ts";
+
+const BEACON_INPUT_TAG = new TextEncoder().encode("wesolowski-beacon-v1");
+
+const BEACON_INPUT_DOMAIN = "wesolowski-beacon-input";
+
+const BEACON_RANDOMNESS_TAG = new TextEncoder().encode(
+	"wesolowski-beacon-randomness-v1",
+);
+
+const BEACON_COMMITMENT_TAG = new TextEncoder().encode(
+	"wesolowski-beacon-commitment-v1",
+);
+
+/**
+ * Parameters of a randomness beacon.
+ */
+export interface BeaconParams extends VDFParams {
+	/** Genesis seed from which the input of round 0 is derived */
+	seed: Uint8Array;
+}
+
+/**
+ * One round of a randomness beacon.
+ */
+export interface BeaconRound {
+	/** Round number, starting at 0 */
+	round: number;
+	/** VDF input, derived from the previous round and the contributions */
+	x: bigint;
+	/** VDF output h = x^(2^t) mod n */
+	h: bigint;
+	/** Wesolowski proof of h */
+	proof: VDFProof;
+	/** 32 bytes of randomness extracted from h */
+	randomness: Uint8Array;
+	/** External entropy mixed into x, in order */
+	contributions: Uint8Array[];
+}
+
+export interface BeaconNextOptions {
+	/** External entropy to mix into this round's input */
+	contributions?: Uint8Array[];
+	/**
+	 * Commitments published before the contributions were revealed;
+	 * contributions[i] must open commitments[i]
+	 */
+	commitments?: Uint8Array[];
+	/** Nonce for the proof (generated randomly if not provided) */
+	nonce?: Uint8Array;
+}
+
+/**
+ * Check whether a proof uses the challenge configuration of the beacon.
+ */
+function sameChallenge(params: BeaconParams, proof: VDFProof): boolean {
+	return sameChallengeConfig(proof.challenge, params.challenge);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	for (let i = 0; i < a.length; i++) {
+		if (a[i] !== b[i]) {
+			return false;
+		}
+	}
+	return true;
+}
+
+/**
+ * Canonical representative min(v, n - v) of ±v.
+ *
+ * Since the challenge prime is odd, a valid proof of h for x turns into
+ * one of n - h by negating π. Everything derived from h goes through
+ * this, so that whoever produces a round cannot pick between the two.
+ */
+function canonical(v: bigint, n: bigint): bigint {
+	return v > n >> 1n ? n - v : v;
+}
+
+/**
+ * Derive the input of a round from the genesis seed (round 0) or the
+ * canonical previous output, and the contributions. In a signed group
+ * this is the canonical representative.
+ */
+async function deriveRoundInput(
+	params: BeaconParams,
+	round: number,
+	previousH: bigint | null,
+	contributions: Uint8Array[],
+): Promise<bigint> {
+	const { n, seed } = params;
+	const previous =
+		previousH === null
+			? seed
+			: bigintToFixedBytes(canonical(previousH, n), bigintByteLength(n));
+
+	const message = concatBytes(
+		BEACON_INPUT_TAG,
+		u64be(BigInt(round)),
+		u32be(previous.length),
+		previous,
+		u32be(contributions.length),
+		...contributions.flatMap((c) => [u32be(c.length), c]),
+	);
+	const x = await hashToGroup(message, n, { domain: BEACON_INPUT_DOMAIN });
+	// Canonical, so that evaluate keeps it as the round input
+	return params.signed ? canonical(x, n) : x;
+}
+
+/**
+ * Extract the randomness of a round: SHA-256(tag || round || h'), where
+ * h' = min(h, n - h).
+ */
+function extractRandomness(round: number, h: bigint, n: bigint): Uint8Array {
+	return sha256(
+		concatBytes(
+			BEACON_RANDOMNESS_TAG,
+			u64be(BigInt(round)),
+			bigintToFixedBytes(canonical(h, n), bigintByteLength(n)),
+		),
+	);
+}
+
+/**
+ * Commit to a beacon contribution before revealing it.
+ *
+ * The commitment is SHA-256(tag || contribution). Contributions should
+ * contain at least 128 bits of fresh randomness, so that the commitment
+ * does not reveal them.
+ *
+ * @param contribution - Contribution to commit to
+ * @returns 32-byte commitment
+ */
+export function commitContribution(contribution: Uint8Array): Uint8Array {
+	return sha256(concatBytes(BEACON_COMMITMENT_TAG, contribution));
+}
+
+/**
+ * A chained VDF randomness beacon.
+ *
+ * The input of each round is hashed from the previous round's output (or
+ * the genesis seed for round 0) together with optional external
+ * contributions. Because the output takes t sequential squarings to
+ * compute, the last contributor cannot predict the effect of their
+ * contribution in time. Each round's randomness is extracted from h by
+ * hashing; h itself is only published for verification.
+ */
+export class Beacon {
+	public readonly params: BeaconParams;
+	private last: BeaconRound | null;
+
+	/**
+	 * @param params - VDF parameters and genesis seed
+	 * @param last - Last produced round, to resume an existing chain
+	 */
+	constructor(params: BeaconParams, last?: BeaconRound) {
+		if (
+			last &&
+			(last.proof.n !== params.n ||
+				last.proof.t !== params.t ||
+				(last.proof.signed ?? false) !== (params.signed ?? false) ||
+				!sameChallenge(params, last.proof))
+		) {
+			throw new InvalidParamsError(
+				"last round does not match the beacon parameters",
+			);
+		}
+		this.params = params;
+		this.last = last ?? null;
+	}
+
+	/** Number of the next round */
+	get round(): number {
+		return this.last === null ? 0 : this.last.round + 1;
+	}
+
+	/**
+	 * Produce the next round: derive x, evaluate h = x^(2^t) mod n, prove
+	 * it and extract the randomness.
+	 *
+	 * @param options - Contributions, their commitments and the proof nonce
+	 * @returns The new round
+	 */
+	async next(options: BeaconNextOptions = {}): Promise<BeaconRound> {
+		const contributions = options.contributions ?? [];
+		const { commitments } = options;
+		if (commitments !== undefined) {
+			if (commitments.length !== contributions.length) {
+				throw new InvalidInputError("every contribution needs a commitment");
+			}
+			for (let i = 0; i < contributions.length; i++) {
+				const expected = commitContribution(contributions[i]!);
+				if (!bytesEqual(expected, commitments[i]!)) {
+					throw new InvalidInputError(
+						`contribution ${i} does not match its commitment`,
+					);
+				}
+			}
+		}
+
+		const { n, t, modulusId, challenge, signed } = this.params;
+		const round = this.round;
+		const x = await deriveRoundInput(
+			this.params,
+			round,
+			this.last?.h ?? null,
+			contributions,
+		);
+		const output = evaluate(x, { n, t, modulusId, challenge, signed });
+		const proof = await generateProof(output, options.nonce);
+		const randomness = extractRandomness(round, output.h, n);
+
+		const result: BeaconRound = {
+			round,
+			x,
+			h: output.h,
+			proof,
+			randomness,
+			contributions: contributions.map((c) => c.slice()),
+		};
+		this.last = result;
+		return result;
+	}
+}
+
+/**
+ * Verify a sequence of consecutive beacon rounds.
+ *
+ * Checks that the rounds are numbered consecutively, that each input is
+ * derived from the previous output and the round's contributions (from
+ * the genesis seed for round 0), that every proof is valid for the beacon
+ * parameters including challenge re-derivation, and that the randomness
+ * is extracted from the output. If the first round is not round 0, its
+ * input cannot be linked and only its proof is checked.
+ *
+ * @param rounds - Consecutive rounds, in order
+ * @param params - VDF parameters and genesis seed of the beacon
+ * @returns true if the chain is valid
+ */
+export async function verifyBeaconChain(
+	rounds: BeaconRound[],
+	params: BeaconParams,
+): Promise<boolean> {
+	const { n, t, modulusId } = params;
+	if (rounds.length === 0) {
+		return false;
+	}
+	const first = rounds[0]!.round;
+	if (!Number.isSafeInteger(first) || first < 0) {
+		return false;
+	}
+
+	for (let i = 0; i < rounds.length; i++) {
+		const { round, x, h, proof, randomness, contributions } = rounds[i]!;
+
+		if (round !== first + i) {
+			return false;
+		}
+		if (proof.n !== n || proof.t !== t || proof.modulusId !== modulusId) {
+			return false;
+		}
+		if ((proof.signed ?? false) !== (params.signed ?? false)) {
+			return false;
+		}
+		if (proof.x !== x || proof.h !== h) {
+			return false;
+		}
+		if (!sameChallenge(params, proof)) {
+			return false;
+		}
+
+		if (round === 0 || i > 0) {
+			const expectedX = await deriveRoundInput(
+				params,
+				round,
+				round === 0 ? null : rounds[i - 1]!.h,
+				contributions,
+			);
+			if (x !== expectedX) {
+				return false;
+			}
+		}
+
+		if (!(await verifyWithChallenge(proof))) {
+			return false;
+		}
+		if (!bytesEqual(randomness, extractRandomness(round, h, n))) {
+			return false;
+		}
+	}
+	return true;
+}
@@ -0,0 +1,201 @@
+import { rsaGroupFor } from "./group.ts";
+import type { VDFParams } from "./vdf.ts";
+import { InvalidParamsError } from "./errors.ts";
+
+/** Default measurement time of `calibrate` */
+const DEFAULT_CALIBRATION_MS = 1000;
+
+/** Default assumed speed-up of the fastest evaluator over this machine */
+const DEFAULT_SAFETY_FACTOR = 2;
+
+/** Squarings in the first measured batch; later batches double */
+const INITIAL_BATCH = 256;
+
+/** Chain length passed to `rsaGroupFor`, so the group matches a long evaluation */
+const CALIBRATION_T = Number.MAX_SAFE_INTEGER;
+
+export interface CalibrateOptions {
+	/** Measurement time in milliseconds (default: 1000) */
+	durationMs?: number;
+}
+
+/**
+ * Squaring speed for a modulus on the current machine.
+ */
+export interface Calibration {
+	/** RSA modulus */
+	n: bigint;
+	/** Sequential squarings per second, from the fastest measured batch */
+	squaringsPerSecond: number;
+	/** Total number of squarings performed */
+	squarings: number;
+	/** Total measurement time in milliseconds */
+	elapsedMs: number;
+}
+
+export interface DurationOptions {
+	/**
+	 * Assumed speed-up of the fastest evaluator over this machine
+	 * (default: 2)
+	 */
+	safetyFactor?: number;
+	/** Calibration to use (default: the cached calibration for n) */
+	calibration?: Calibration;
+}
+
+/**
+ * Duration estimate for a VDF evaluation.
+ */
+export interface DurationEstimate {
+	/** Expected time on this machine in milliseconds */
+	expectedMs: number;
+	/** Time for an evaluator safetyFactor times faster, in milliseconds */
+	minimumMs: number;
+}
+
+const calibrationCache = new Map<bigint, Calibration>();
+
+/**
+ * Measure the sequential squaring speed for a modulus on this machine.
+ *
+ * Squarings run in the same group representation `evaluate` selects for
+ * long chains (Montgomery form for large moduli), in batches of doubling
+ * size until `durationMs` has elapsed. The rate of the fastest batch is
+ * reported, so interruptions by other processes lead to a higher t in
+ * `tForDuration` rather than a lower one.
+ *
+ * The result is cached and used by `tForDuration` and `estimateDuration`.
+ *
+ * @param n - RSA modulus
+ * @param options - Measurement time
+ * @returns Measured squaring speed
+ */
+export function calibrate(
+	n: bigint,
+	options: CalibrateOptions = {},
+): Calibration {
+	const durationMs = options.durationMs ?? DEFAULT_CALIBRATION_MS;
+	if (n <= 3n) {
+		throw new InvalidParamsError("n must be greater than 3");
+	}
+	if (!Number.isFinite(durationMs) || durationMs <= 0) {
+		throw new InvalidParamsError("durationMs must be positive");
+	}
+
+	const group = rsaGroupFor(n, CALIBRATION_T);
+	// A full-size element, so the timing reflects the size of n
+	let a = group.fromBigint(n - 2n);
+
+	// Warm up the JIT before measuring
+	a = group.repeatedSquare(a, INITIAL_BATCH);
+
+	let batch = INITIAL_BATCH;
+	let squarings = 0;
+	let best = 0;
+	const start = performance.now();
+	let elapsedMs = 0;
+	while (elapsedMs < durationMs) {
+		const batchStart = performance.now();
+		a = group.repeatedSquare(a, batch);
+		const now = performance.now();
+		squarings += batch;
+		elapsedMs = now - start;
+		const batchMs = now - batchStart;
+		if (batchMs > 0) {
+			best = Math.max(best, (batch * 1000) / batchMs);
+		}
+		// Keep batches well below the remaining time
+		if (batchMs * 4 < durationMs - elapsedMs) {
+			batch *= 2;
+		}
+	}
+	if (best === 0) {
+		best = (squarings * 1000) / elapsedMs;
+	}
+
+	const calibration: Calibration = {
+		n,
+		squaringsPerSecond: best,
+		squarings,
+		elapsedMs,
+	};
+	if (calibrationCache.size < 10 || calibrationCache.has(n)) {
+		calibrationCache.set(n, calibration);
+	}
+	return calibration;
+}
+
+function resolveCalibration(n: bigint, options: DurationOptions): Calibration {
+	const calibration =
+		options.calibration ?? calibrationCache.get(n) ?? calibrate(n);
+	if (calibration.n !== n) {
+		throw new InvalidParamsError("calibration is for a different modulus");
+	}
+	return calibration;
+}
+
+function resolveSafetyFactor(options: DurationOptions): number {
+	const safetyFactor = options.safetyFactor ?? DEFAULT_SAFETY_FACTOR;
+	if (!Number.isFinite(safetyFactor) || safetyFactor < 1) {
+		throw new InvalidParamsError("safetyFactor must be at least 1");
+	}
+	return safetyFactor;
+}
+
+/**
+ * Choose t so that evaluation takes at least `ms` milliseconds, even for
+ * an evaluator `safetyFactor` times faster than this machine.
+ *
+ * t = ⌈ms / 1000 · squaringsPerSecond · safetyFactor⌉. Without a
+ * calibration in the options, the cached calibration for n is used, or
+ * `calibrate(n)` is run first.
+ *
+ * @param n - RSA modulus
+ * @param ms - Minimum delay in milliseconds
+ * @param options - Safety factor and calibration
+ * @returns Number of sequential squarings
+ */
+export function tForDuration(
+	n: bigint,
+	ms: number,
+	options: DurationOptions = {},
+): number {
+	if (!Number.isFinite(ms) || ms <= 0) {
+		throw new InvalidParamsError("ms must be positive");
+	}
+	const safetyFactor = resolveSafetyFactor(options);
+	const { squaringsPerSecond } = resolveCalibration(n, options);
+
+	const t = Math.ceil((ms / 1000) * squaringsPerSecond * safetyFactor);
+	if (!Number.isSafeInteger(t)) {
+		throw new InvalidParamsError("duration is too long for a safe integer t");
+	}
+	return t;
+}
+
+/**
+ * Estimate how long evaluating the VDF with the given parameters takes.
+ *
+ * `expectedMs` is the time on this machine; `minimumMs` is the time for an
+ * evaluator `safetyFactor` times faster, a lower bound to quote for the
+ * delay. Without a calibration in the options, the cached calibration for
+ * n is used, or `calibrate(n)` is run first.
+ *
+ * @param params - VDF parameters (n, t)
+ * @param options - Safety factor and calibration
+ * @returns Expected and minimum durations in milliseconds
+ */
+export function estimateDuration(
+	params: VDFParams,
+	options: DurationOptions = {},
+): DurationEstimate {
+	const { n, t } = params;
+	if (!Number.isSafeInteger(t) || t <= 0) {
+		throw new InvalidParamsError("t must be a positive safe integer");
+	}
+	const safetyFactor = resolveSafetyFactor(options);
+	const { squaringsPerSecond } = resolveCalibration(n, options);
+
+	const expectedMs = (t / squaringsPerSecond) * 1000;
+	return { expectedMs, minimumMs: expectedMs / safetyFactor };
+}
@@ -0,0 +1,266 @@
+import { bytesToBigint, concatBytes, u32be } from "./utils.ts";
+import { blake2b, sha256, sha3_256, sha512 } from "./digest.ts";
+import { InvalidParamsError } from "./errors.ts";
+
+/** Hash functions available for challenge derivation */
+export type ChallengeHash = "SHA-256" | "SHA-512" | "SHA3-256" | "BLAKE2b";
+
+/**
+ * How the challenge prime l is derived from the transcript. Prover and
+ * verifier must use the same configuration; it is carried in the output
+ * and proof.
+ */
+export interface ChallengeConfig {
+	/** Hash function (default: "SHA-512") */
+	hash?: ChallengeHash;
+	/** Challenge size: l is the first prime ≥ a hash of this many bits (default: 512) */
+	bits?: number;
+	/** Domain-separation tag prefixed to the transcript (default: "wesolowski-v1") */
+	tag?: string;
+}
+
+/**
+ * A challenge configuration with every field set.
+ */
+export interface ResolvedChallengeConfig {
+	hash: ChallengeHash;
+	bits: number;
+	tag: string;
+}
+
+/** The configuration used when none is given */
+export const DEFAULT_CHALLENGE: Readonly<ResolvedChallengeConfig> =
+	Object.freeze({
+		hash: "SHA-512",
+		bits: 512,
+		tag: "wesolowski-v1",
+	});
+
+/** Identifiers of the hash functions in binary encodings */
+export const CHALLENGE_HASH_IDS: ReadonlyMap<ChallengeHash, number> = new Map<
+	ChallengeHash,
+	number
+>([
+	["SHA-256", 1],
+	["SHA-512", 2],
+	["SHA3-256", 3],
+	["BLAKE2b", 4],
+]);
+
+/** Digest sizes in bytes */
+const DIGEST_BYTES: ReadonlyMap<ChallengeHash, number> = new Map<
+	ChallengeHash,
+	number
+>([
+	["SHA-256", 32],
+	["SHA-512", 64],
+	["SHA3-256", 32],
+	["BLAKE2b", 64],
+]);
+
+const MIN_CHALLENGE_BITS = 128;
+const MAX_CHALLENGE_BITS = 1024;
+const MAX_TAG_BYTES = 255;
+
+/**
+ * Fill in the defaults of a challenge configuration and validate it.
+ *
+ * @param config - Challenge configuration (default: `DEFAULT_CHALLENGE`)
+ * @returns Configuration with every field set
+ */
+export function resolveChallengeConfig(
+	config: ChallengeConfig = {},
+): ResolvedChallengeConfig {
+	const hash = config.hash ?? DEFAULT_CHALLENGE.hash;
+	const bits = config.bits ?? DEFAULT_CHALLENGE.bits;
+	const tag = config.tag ?? DEFAULT_CHALLENGE.tag;
+
+	if (!CHALLENGE_HASH_IDS.has(hash)) {
+		throw new InvalidParamsError(
+			`unsupported challenge hash ${JSON.stringify(hash)}`,
+		);
+	}
+	if (
+		!Number.isSafeInteger(bits) ||
+		bits < MIN_CHALLENGE_BITS ||
+		bits > MAX_CHALLENGE_BITS
+	) {
+		throw new InvalidParamsError(
+			"challenge bits must be an integer from 128 to 1024",
+		);
+	}
+	const tagLength = new TextEncoder().encode(tag).length;
+	if (tagLength === 0 || tagLength > MAX_TAG_BYTES) {
+		throw new InvalidParamsError("challenge tag must be 1 to 255 bytes");
+	}
+	return { hash, bits, tag };
+}
+
+/**
+ * Check a challenge configuration without throwing.
+ *
+ * @param config - Challenge configuration
+ * @returns true if `resolveChallengeConfig` accepts it
+ */
+export function isValidChallengeConfig(config?: ChallengeConfig): boolean {
+	try {
+		resolveChallengeConfig(config);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check whether a configuration is equivalent to the default.
+ *
+ * @param config - Challenge configuration
+ * @returns true if the resolved configuration equals `DEFAULT_CHALLENGE`
+ */
+export function isDefaultChallenge(config: ChallengeConfig = {}): boolean {
+	const { hash, bits, tag } = resolveChallengeConfig(config);
+	return (
+		hash === DEFAULT_CHALLENGE.hash &&
+		bits === DEFAULT_CHALLENGE.bits &&
+		tag === DEFAULT_CHALLENGE.tag
+	);
+}
+
+/**
+ * Check whether two challenge configurations resolve to the same one.
+ *
+ * @param a - Challenge configuration
+ * @param b - Challenge configuration
+ * @returns true if both are valid and resolve to the same configuration
+ */
+export function sameChallengeConfig(
+	a?: ChallengeConfig,
+	b?: ChallengeConfig,
+): boolean {
+	if (!isValidChallengeConfig(a) || !isValidChallengeConfig(b)) {
+		return false;
+	}
+	const ra = resolveChallengeConfig(a);
+	const rb = resolveChallengeConfig(b);
+	return ra.hash === rb.hash && ra.bits === rb.bits && ra.tag === rb.tag;
+}
+
+function digestSync(hash: ChallengeHash, message: Uint8Array): Uint8Array {
+	switch (hash) {
+		case "SHA-256":
+			return sha256(message);
+		case "SHA-512":
+			return sha512(message);
+		case "SHA3-256":
+			return sha3_256(message);
+		case "BLAKE2b":
+			return blake2b(message);
+	}
+}
+
+/**
+ * Hash with WebCrypto where it supports the function and is available,
+ * and with the pure TypeScript implementations otherwise.
+ */
+async function digest(
+	hash: ChallengeHash,
+	message: Uint8Array,
+): Promise<Uint8Array> {
+	const subtle = globalThis.crypto?.subtle;
+	if (subtle && (hash === "SHA-256" || hash === "SHA-512")) {
+		return new Uint8Array(
+			await subtle.digest(hash, message as Uint8Array<ArrayBuffer>),
+		);
+	}
+	return digestSync(hash, message);
+}
+
+/**
+ * Prefix of the challenge transcript. The default configuration keeps the
+ * original bare tag. Any other one is framed as
+ * 0x00 || len (1) || tag || hash id (1) || bits (2): the zero byte sets it
+ * apart from the default tag, the length keeps the tag from running into
+ * the payload, and the hash and size are bound into the challenge.
+ */
+function challengePrefix(config: ResolvedChallengeConfig): Uint8Array {
+	const tag = new TextEncoder().encode(config.tag);
+	if (isDefaultChallenge(config)) {
+		return tag;
+	}
+	const { hash, bits } = config;
+	return concatBytes(
+		new Uint8Array([0, tag.length]),
+		tag,
+		new Uint8Array([CHALLENGE_HASH_IDS.get(hash)!, bits >> 8, bits & 0xff]),
+	);
+}
+
+/**
+ * Messages whose digests make up the challenge hash: H(prefix || payload)
+ * first, then H(prefix || payload || u32be(i)) until there are enough
+ * bytes.
+ */
+function challengeMessages(
+	config: ResolvedChallengeConfig,
+	payload: Uint8Array,
+): Uint8Array[] {
+	const message = concatBytes(challengePrefix(config), payload);
+	const count = Math.ceil(config.bits / 8 / DIGEST_BYTES.get(config.hash)!);
+	const messages = [message];
+	for (let i = 1; i < count; i++) {
+		messages.push(concatBytes(message, u32be(i)));
+	}
+	return messages;
+}
+
+/** Truncate the concatenated digests to `bits` bits */
+function challengeValue(
+	config: ResolvedChallengeConfig,
+	blocks: Uint8Array[],
+): bigint {
+	const length = Math.ceil(config.bits / 8);
+	const bytes = concatBytes(...blocks).subarray(0, length);
+	return bytesToBigint(bytes) >> BigInt(8 * length - config.bits);
+}
+
+/**
+ * Hash a challenge transcript to an integer of at most `bits` bits.
+ *
+ * The first block is H(prefix || payload); if more bytes are needed, block
+ * i is H(prefix || payload || u32be(i)). The prefix is the bare tag for the
+ * default configuration, and 0x00 || len (1) || tag || hash id (1) ||
+ * bits (2) otherwise. The blocks are concatenated, truncated to ⌈bits/8⌉
+ * bytes and shifted right to `bits` bits. With the default configuration
+ * this is the SHA-512 digest of the transcript.
+ *
+ * @param config - Resolved challenge configuration
+ * @param payload - Transcript without the tag
+ * @returns Hash value
+ */
+export async function hashChallenge(
+	config: ResolvedChallengeConfig,
+	payload: Uint8Array,
+): Promise<bigint> {
+	const blocks = await Promise.all(
+		challengeMessages(config, payload).map((m) => digest(config.hash, m)),
+	);
+	return challengeValue(config, blocks);
+}
+
+/**
+ * Synchronous `hashChallenge`, using only the pure TypeScript hash
+ * implementations. The result is identical.
+ *
+ * @param config - Resolved challenge configuration
+ * @param payload - Transcript without the tag
+ * @returns Hash value
+ */
+export function hashChallengeSync(
+	config: ResolvedChallengeConfig,
+	payload: Uint8Array,
+): bigint {
+	const blocks = challengeMessages(config, payload).map((m) =>
+		digestSync(config.hash, m),
+	);
+	return challengeValue(config, blocks);
+}
@@ -0,0 +1,321 @@
+import { gcd, modpow } from "./utils.ts";
+import { rsaGroupFor, type Group } from "./group.ts";
+import {
+	checkOptionalParams,
+	outputWithParams,
+	type GroupOutput,
+	type VDFOutput,
+	type VDFParams,
+} from "./vdf.ts";
+import { InvalidInputError, InvalidParamsError } from "./errors.ts";
+
+/** Default memory budget for stored checkpoints (64 MiB) */
+const DEFAULT_MEMORY_BUDGET = 64 * 1024 * 1024;
+
+/** Largest window size considered; 2^k buckets are allocated per pass */
+const MAX_WINDOW_BITS = 24;
+
+export interface CheckpointOptions {
+	/** Window size in bits of the base-2^k digits of ⌊2^t / l⌋ */
+	k?: number;
+	/** Checkpoints are stored every k·gamma squarings */
+	gamma?: number;
+	/** Approximate memory budget in bytes for stored checkpoints (default: 64 MiB) */
+	memoryBudget?: number;
+}
+
+/**
+ * Intermediate values stored during evaluation.
+ */
+export interface Checkpoints<E> {
+	/** Window size in bits */
+	k: number;
+	/** Spacing factor; values are k·gamma squarings apart */
+	gamma: number;
+	/** values[i] = x^(2^(i·k·gamma)) for i·k·gamma <= t */
+	values: E[];
+}
+
+export interface CheckpointedGroupOutput<E> extends GroupOutput<E> {
+	/** Stored intermediates for fast proving */
+	checkpoints: Checkpoints<E>;
+}
+
+export interface CheckpointedOutput extends VDFOutput {
+	/** Stored intermediates (residues mod n) for fast proving */
+	checkpoints: Checkpoints<bigint>;
+}
+
+function checkPositiveInteger(value: number, name: string): void {
+	if (!Number.isSafeInteger(value) || value <= 0) {
+		throw new InvalidParamsError(`${name} must be a positive integer`);
+	}
+}
+
+/**
+ * Choose the window size k and spacing factor gamma.
+ *
+ * Proving costs about t/k multiplications to fill buckets, plus
+ * gamma·(2^(k+1) + k) to combine them, while storage is t/(k·gamma)
+ * elements. gamma is the smallest value that fits the memory budget
+ * for each k, and the k with the lowest total cost wins.
+ */
+function selectCheckpointParams(
+	t: number,
+	elementBytes: number,
+	options: CheckpointOptions,
+): { k: number; gamma: number } {
+	const budget = options.memoryBudget ?? DEFAULT_MEMORY_BUDGET;
+	checkPositiveInteger(budget, "memoryBudget");
+	if (options.k !== undefined) {
+		checkPositiveInteger(options.k, "k");
+		if (options.k > MAX_WINDOW_BITS) {
+			throw new InvalidParamsError(`k must be at most ${MAX_WINDOW_BITS}`);
+		}
+	}
+	if (options.gamma !== undefined) {
+		checkPositiveInteger(options.gamma, "gamma");
+	}
+
+	const maxStored = Math.max(1, Math.floor(budget / elementBytes) - 1);
+	const gammaFor = (k: number) =>
+		options.gamma ?? Math.max(1, Math.ceil(t / (k * maxStored)));
+
+	if (options.k !== undefined) {
+		return { k: options.k, gamma: gammaFor(options.k) };
+	}
+
+	let best = { k: 1, gamma: gammaFor(1) };
+	let bestCost = Number.POSITIVE_INFINITY;
+	for (let k = 1; k <= MAX_WINDOW_BITS; k++) {
+		const gamma = gammaFor(k);
+		const cost = t / k + gamma * (2 ** (k + 1) + k);
+		if (cost < bestCost) {
+			best = { k, gamma };
+			bestCost = cost;
+		}
+	}
+	return best;
+}
+
+/**
+ * Evaluate the VDF in a group, storing x^(2^(i·k·gamma)) along the way.
+ *
+ * @param group - Group to evaluate in
+ * @param x - Input element
+ * @param t - Number of sequential squarings
+ * @param options - Checkpoint spacing and memory budget
+ * @returns VDF output with stored checkpoints
+ */
+export function evaluateWithCheckpointsInGroup<E>(
+	group: Group<E>,
+	x: E,
+	t: number,
+	options: CheckpointOptions = {},
+): CheckpointedGroupOutput<E> {
+	if (!group.isElement(x)) {
+		throw new InvalidInputError("x must be a valid group element");
+	}
+	if (t <= 0) {
+		throw new InvalidParamsError("t must be positive");
+	}
+
+	const { k, gamma } = selectCheckpointParams(
+		t,
+		group.elementByteLength,
+		options,
+	);
+	const spacing = k * gamma;
+
+	const values: E[] = [x];
+	let h = x;
+	let done = 0;
+	while (done < t) {
+		const steps = Math.min(spacing, t - done);
+		h = group.repeatedSquare(h, steps);
+		done += steps;
+		if (steps === spacing) {
+			values.push(h);
+		}
+	}
+
+	return { x, h, t, checkpoints: { k, gamma, values } };
+}
+
+/**
+ * Base-2^k digits of ⌊2^t / l⌋, least significant first.
+ *
+ * Digit m is ⌊2^k · (2^(t-k(m+1)) mod l) / l⌋; the remainders are produced
+ * from the most significant full digit downwards by repeated multiplication
+ * by 2^k, so only one modular exponentiation is needed.
+ */
+function quotientDigits(t: number, k: number, l: bigint): Uint32Array {
+	const count = Math.ceil(t / k);
+	const digits = new Uint32Array(count);
+	const kBig = BigInt(k);
+	const base = 1n << kBig;
+
+	// Partial top digit when k does not divide t: ⌊2^(t mod k) / l⌋
+	const full = Math.floor(t / k);
+	if (full < count) {
+		digits[full] = Number((1n << BigInt(t - full * k)) / l);
+	}
+
+	let rem = modpow(2n, BigInt(t - full * k), l);
+	for (let m = full - 1; m >= 0; m--) {
+		digits[m] = Number((rem << kBig) / l);
+		rem = (rem * base) % l;
+	}
+	return digits;
+}
+
+/**
+ * Compute the Wesolowski proof π = x^⌊2^t / l⌋ from stored checkpoints.
+ *
+ * Writing ⌊2^t / l⌋ = Σ b_m·2^(k·m), π = ∏ (x^(2^(k·m)))^(b_m). Each of the
+ * gamma passes handles the digits m ≡ j (mod gamma): checkpoints are dropped
+ * into 2^k buckets by digit value, the buckets are combined with running
+ * products, and passes are joined Horner-style with k squarings between
+ * them. This takes about t/k + gamma·2^(k+1) group operations instead of
+ * the t squarings of `proveInGroup`.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output with checkpoints
+ * @param l - Challenge prime
+ * @returns Proof element π
+ */
+export function proveFromCheckpointsInGroup<E>(
+	group: Group<E>,
+	output: CheckpointedGroupOutput<E>,
+	l: bigint,
+): E {
+	const { t } = output;
+	const { k, gamma, values } = output.checkpoints;
+
+	checkPositiveInteger(k, "k");
+	checkPositiveInteger(gamma, "gamma");
+	if (values.length !== Math.floor(t / (k * gamma)) + 1) {
+		throw new InvalidInputError(
+			"checkpoint count does not match t, k and gamma",
+		);
+	}
+
+	const digits = quotientDigits(t, k, l);
+	const buckets = new Array<E | undefined>(1 << k);
+
+	let acc: E | undefined;
+	for (let j = gamma - 1; j >= 0; j--) {
+		buckets.fill(undefined);
+		for (let i = 0; i < values.length; i++) {
+			const m = i * gamma + j;
+			if (m >= digits.length) break;
+			const b = digits[m]!;
+			if (b !== 0) {
+				const cur = buckets[b];
+				buckets[b] =
+					cur === undefined ? values[i]! : group.multiply(cur, values[i]!);
+			}
+		}
+
+		// ∏ y_b^b = ∏ over b of (∏_{b' >= b} y_b')
+		let running: E | undefined;
+		let pass: E | undefined;
+		for (let b = buckets.length - 1; b > 0; b--) {
+			const y = buckets[b];
+			if (y !== undefined) {
+				running = running === undefined ? y : group.multiply(running, y);
+			}
+			if (running !== undefined) {
+				pass = pass === undefined ? running : group.multiply(pass, running);
+			}
+		}
+
+		if (acc !== undefined) {
+			acc = group.repeatedSquare(acc, k);
+		}
+		if (pass !== undefined) {
+			acc = acc === undefined ? pass : group.multiply(acc, pass);
+		}
+	}
+
+	return acc ?? group.identity();
+}
+
+/**
+ * Evaluate the VDF, storing checkpoints for fast proof generation.
+ *
+ * Same result as `evaluate`, plus x^(2^(i·k·gamma)) mod n for each i. Unless
+ * given, k and gamma are chosen to minimize proving time within the memory
+ * budget. In the signed group, x, h and the checkpoints are canonical. The
+ * output carries the modulus identifier and challenge configuration of the
+ * parameters, as with `evaluate`.
+ *
+ * @param x - Input value (must be coprime to n)
+ * @param params - VDF parameters (n, t, optional signed group)
+ * @param options - Checkpoint spacing and memory budget
+ * @returns VDF output with checkpoints
+ */
+export function evaluateWithCheckpoints(
+	x: bigint,
+	params: VDFParams,
+	options: CheckpointOptions = {},
+): CheckpointedOutput {
+	const { n, t } = params;
+
+	if (x <= 0n || x >= n) {
+		throw new InvalidInputError("x must be in range (0, n)");
+	}
+	if (gcd(x, n) !== 1n) {
+		throw new InvalidInputError("x must be coprime to n");
+	}
+
+	checkOptionalParams(params);
+
+	const group = rsaGroupFor(n, t, { signed: params.signed });
+	const input = group.canonical(x);
+	const { h, checkpoints } = evaluateWithCheckpointsInGroup(
+		group,
+		group.fromBigint(input),
+		t,
+		options,
+	);
+
+	return {
+		...outputWithParams(params, input, group.toBigint(h)),
+		checkpoints: {
+			...checkpoints,
+			values: checkpoints.values.map((v) => group.toBigint(v)),
+		},
+	};
+}
+
+/**
+ * Compute the proof π = x^⌊2^t / l⌋ mod n from stored checkpoints in
+ * O(t / log t) multiplications. The result is identical to `prove`.
+ *
+ * @param output - Output of `evaluateWithCheckpoints`
+ * @param l - Challenge prime
+ * @returns Proof value π
+ */
+export function proveFromCheckpoints(
+	output: CheckpointedOutput,
+	l: bigint,
+): bigint {
+	const { x, h, t, n, checkpoints, signed } = output;
+
+	const group = rsaGroupFor(n, t, { signed });
+	const pi = proveFromCheckpointsInGroup(
+		group,
+		{
+			x: group.fromBigint(x),
+			h: group.fromBigint(h),
+			t,
+			checkpoints: {
+				...checkpoints,
+				values: checkpoints.values.map((v) => group.fromBigint(v)),
+			},
+		},
+		l,
+	);
+	return group.toBigint(pi);
+}
@@ -0,0 +1,581 @@
+import {
+	gcd,
+	extendedGcd,
+	isqrt,
+	bigintByteLength,
+	bigintBitLength,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+} from "./utils.ts";
+import { isPrime } from "./prime.ts";
+import { expandSha512 } from "./hash.ts";
+import type { Group } from "./group.ts";
+import {
+	evaluateInGroup,
+	deriveChallengeInGroup,
+	proveInGroup,
+	generateProofInGroup,
+	verifyInGroup,
+	verifyWithChallengeInGroup,
+} from "./vdf.ts";
+import {
+	InvalidInputError,
+	InvalidParamsError,
+	ProofFormatError,
+} from "./errors.ts";
+
+/**
+ * Binary quadratic form a·X² + b·XY + c·Y² with negative discriminant
+ * d = b² - 4ac. Reduced forms represent elements of the class group
+ * of discriminant d, whose order is unknown without heavy computation.
+ */
+export interface QuadraticForm {
+	a: bigint;
+	b: bigint;
+	c: bigint;
+}
+
+export interface ClassGroupParams {
+	/** Negative discriminant d ≡ 1 (mod 8) */
+	d: bigint;
+	/** Time parameter (number of sequential squarings) */
+	t: number;
+}
+
+export interface ClassGroupOutput {
+	/** Input form x */
+	x: QuadraticForm;
+	/** Output form h = x^(2^t) */
+	h: QuadraticForm;
+	/** Time parameter */
+	t: number;
+	/** Discriminant */
+	d: bigint;
+}
+
+export interface ClassGroupProof extends ClassGroupOutput {
+	/** Proof π */
+	pi: QuadraticForm;
+	/** Challenge prime l */
+	l: bigint;
+	/** Nonce used to derive l */
+	nonce: Uint8Array;
+}
+
+const DISCRIMINANT_TAG = new TextEncoder().encode("wesolowski-cg-disc-v1");
+
+const nuduplBoundCache = new Map<bigint, bigint>();
+
+function floorDiv(a: bigint, b: bigint): bigint {
+	const q = a / b;
+	return a % b !== 0n && a < 0n !== b < 0n ? q - 1n : q;
+}
+
+function floorMod(a: bigint, m: bigint): bigint {
+	const r = a % m;
+	return r < 0n ? r + m : r;
+}
+
+/** Partial reduction bound L = ⌊|d/4|^(1/4)⌋ used by NUDUPL */
+function nuduplBound(d: bigint): bigint {
+	let L = nuduplBoundCache.get(d);
+	if (L === undefined) {
+		L = isqrt(isqrt(-d / 4n));
+		if (nuduplBoundCache.size < 10) {
+			nuduplBoundCache.set(d, L);
+		}
+	}
+	return L;
+}
+
+/**
+ * Generate a discriminant deterministically from a seed.
+ *
+ * The seed is expanded with SHA-512 in counter mode to a `bits`-bit odd
+ * integer p with the top bit set and p ≡ 7 (mod 8); the first prime in
+ * that residue class at or above it gives d = -p. Such discriminants are
+ * ≡ 1 (mod 8), so the form (2, 1, (1-d)/8) exists and serves as a generator.
+ * No trusted setup is needed: anyone can recompute d from the seed.
+ *
+ * @param seed - Public seed bytes
+ * @param bits - Bit length of |d| (default: 1024)
+ * @returns Negative prime discriminant d
+ */
+export async function createDiscriminant(
+	seed: Uint8Array,
+	bits = 1024,
+): Promise<bigint> {
+	if (!Number.isInteger(bits) || bits < 16) {
+		throw new InvalidParamsError("bits must be an integer >= 16");
+	}
+
+	const byteLen = Math.ceil(bits / 8);
+	const bytes = await expandSha512(
+		concatBytes(DISCRIMINANT_TAG, seed),
+		byteLen,
+	);
+	let p = bytesToBigint(bytes) >> BigInt(byteLen * 8 - bits);
+	p |= (1n << BigInt(bits - 1)) | 7n;
+
+	while (!isPrime(p)) {
+		p += 8n;
+	}
+	if (bigintBitLength(p) !== bits) {
+		throw new InvalidParamsError("no suitable discriminant found for seed");
+	}
+	return -p;
+}
+
+/**
+ * Compute the discriminant b² - 4ac of a form.
+ */
+export function formDiscriminant(f: QuadraticForm): bigint {
+	return f.b * f.b - 4n * f.a * f.c;
+}
+
+function normalizeForm(f: QuadraticForm): QuadraticForm {
+	const { a, b, c } = f;
+	if (-a < b && b <= a) {
+		return f;
+	}
+	const r = floorDiv(a - b, 2n * a);
+	return { a, b: b + 2n * r * a, c: a * r * r + b * r + c };
+}
+
+/**
+ * Reduce a positive definite form to the unique reduced form in its class:
+ * |b| <= a <= c, with b >= 0 when |b| = a or a = c.
+ */
+export function reduceForm(f: QuadraticForm): QuadraticForm {
+	let { a, b, c } = normalizeForm(f);
+	while (a > c || (a === c && b < 0n)) {
+		const s = floorDiv(c + b, 2n * c);
+		[a, b, c] = [c, -b + 2n * s * c, c * s * s - b * s + a];
+	}
+	return normalizeForm({ a, b, c });
+}
+
+/**
+ * Check whether a form is reduced.
+ */
+export function isReducedForm(f: QuadraticForm): boolean {
+	const { a, b, c } = f;
+	if (a <= 0n || -a >= b || b > a || a > c) {
+		return false;
+	}
+	return !(a === c && b < 0n);
+}
+
+/**
+ * Check whether a form is primitive, i.e. gcd(a, b, c) = 1. Only primitive
+ * forms represent elements of the class group; for a composite
+ * discriminant, reduced forms such as (3, 3, 18) of d = -207 are not.
+ */
+function isPrimitiveForm(f: QuadraticForm): boolean {
+	const { a, b, c } = f;
+	return gcd(gcd(a, b < 0n ? -b : b), c) === 1n;
+}
+
+/**
+ * Check whether a form is a valid reduced element of the class group of
+ * discriminant d: reduced, primitive and of discriminant d.
+ */
+export function isClassGroupElement(f: QuadraticForm, d: bigint): boolean {
+	return isReducedForm(f) && isPrimitiveForm(f) && formDiscriminant(f) === d;
+}
+
+/**
+ * Identity element (1, 1, (1-d)/4) of the class group of discriminant d.
+ */
+export function identityForm(d: bigint): QuadraticForm {
+	return { a: 1n, b: 1n, c: (1n - d) / 4n };
+}
+
+/**
+ * Generator form (2, 1, (1-d)/8) for a discriminant d ≡ 1 (mod 8).
+ */
+export function classGroupGenerator(d: bigint): QuadraticForm {
+	if (d >= 0n || floorMod(d, 8n) !== 1n) {
+		throw new InvalidParamsError("d must be negative and ≡ 1 (mod 8)");
+	}
+	return reduceForm({ a: 2n, b: 1n, c: (1n - d) / 8n });
+}
+
+/**
+ * Compose two forms of the same discriminant (Cohen, Algorithm 5.4.7).
+ *
+ * @returns Reduced form representing the product of the two classes
+ */
+export function composeForms(
+	f1: QuadraticForm,
+	f2: QuadraticForm,
+): QuadraticForm {
+	if (f1.a > f2.a) {
+		[f1, f2] = [f2, f1];
+	}
+	const d = formDiscriminant(f1);
+	const { a: a1, b: b1 } = f1;
+	const { a: a2, b: b2, c: c2 } = f2;
+
+	const s = (b1 + b2) / 2n;
+	const n = b2 - s;
+
+	let y1: bigint;
+	let g: bigint;
+	if (a2 % a1 === 0n) {
+		y1 = 0n;
+		g = a1;
+	} else {
+		[g, y1] = extendedGcd(a2, a1);
+	}
+
+	let x2: bigint;
+	let y2: bigint;
+	let g1: bigint;
+	if (s % g === 0n) {
+		x2 = 0n;
+		y2 = -1n;
+		g1 = g;
+	} else {
+		let v: bigint;
+		[g1, x2, v] = extendedGcd(s, g);
+		y2 = -v;
+	}
+
+	const v1 = a1 / g1;
+	const v2 = a2 / g1;
+	const r = floorMod(y1 * y2 * n - x2 * c2, v1);
+	const a3 = v1 * v2;
+	const b3 = b2 + 2n * v2 * r;
+	const c3 = (b3 * b3 - d) / (4n * a3);
+
+	return reduceForm({ a: a3, b: b3, c: c3 });
+}
+
+/**
+ * Square a reduced form using NUDUPL.
+ *
+ * Computes the duplication (A, B, C) = ((a/g)², b + 2(a/g)k, ...) but
+ * partially reduces it first: a truncated extended Euclid on (a/g, k) stops
+ * once the remainder drops below L = |d/4|^(1/4), and the unimodular
+ * transform it produces is applied directly, so no intermediate exceeds
+ * about √|d| before the final reduction.
+ *
+ * @param f - Reduced form
+ * @param d - Discriminant of f
+ * @returns Reduced form f²
+ */
+export function squareForm(f: QuadraticForm, d: bigint): QuadraticForm {
+	const { a, b, c } = f;
+	const L = nuduplBound(d);
+
+	// g = gcd(a, b), y·b ≡ g (mod a)
+	const [g, , y] = extendedGcd(a, b);
+	const By = a / g;
+	const Dy = b / g;
+	const Bx = floorMod(-y * c, By);
+	const dx = (Dy * Bx + c) / By;
+
+	// Partial Euclid on (By, Bx), tracking (r1, r2) = (By, Bx)·M
+	let r1 = By;
+	let r2 = Bx;
+	let m11 = 1n;
+	let m12 = 0n;
+	let m21 = 0n;
+	let m22 = 1n;
+	let negated = false;
+	while (r2 > L) {
+		const q = r1 / r2;
+		[r1, r2] = [r2, r1 - q * r2];
+		[m11, m12] = [m12, m11 - q * m12];
+		[m21, m22] = [m22, m21 - q * m22];
+		negated = !negated;
+	}
+	// Keep det(M) = 1 so the transform is a proper equivalence
+	if (negated) {
+		r2 = -r2;
+		m12 = -m12;
+		m22 = -m22;
+	}
+
+	const e1 = Dy * m11 + dx * m21;
+	const e2 = Dy * m12 + dx * m22;
+
+	return reduceForm({
+		a: r1 * r1 + g * m21 * e1,
+		b: 2n * r1 * r2 + g * (m21 * e2 + m22 * e1),
+		c: r2 * r2 + g * m22 * e2,
+	});
+}
+
+/**
+ * Raise a form to a non-negative power by left-to-right square-and-multiply.
+ */
+export function powForm(f: QuadraticForm, e: bigint, d: bigint): QuadraticForm {
+	if (e < 0n) {
+		throw new InvalidInputError("exponent must be non-negative");
+	}
+	let result = identityForm(d);
+	const bits = e.toString(2);
+	for (let i = 0; i < bits.length; i++) {
+		result = squareForm(result, d);
+		if (bits.charCodeAt(i) === 49) {
+			result = composeForms(result, f);
+		}
+	}
+	return result;
+}
+
+/**
+ * Byte length of each coefficient in the canonical form encoding.
+ * A reduced form satisfies |b| <= a <= √(|d|/3), so √|d| always fits.
+ */
+function formCoefficientLength(d: bigint): number {
+	return bigintByteLength(isqrt(-d));
+}
+
+/**
+ * Encode a reduced form canonically.
+ *
+ * Layout: a | sign of b (0 or 1) | |b|, with a and |b| fixed-width
+ * big-endian. c is implied by the discriminant.
+ *
+ * @param f - Reduced form of discriminant d
+ * @param d - Discriminant
+ * @returns Encoded bytes
+ */
+export function encodeForm(f: QuadraticForm, d: bigint): Uint8Array {
+	if (!isClassGroupElement(f, d)) {
+		throw new InvalidInputError(
+			"form must be primitive and reduced with discriminant d",
+		);
+	}
+	const len = formCoefficientLength(d);
+	return concatBytes(
+		bigintToFixedBytes(f.a, len),
+		new Uint8Array([f.b < 0n ? 1 : 0]),
+		bigintToFixedBytes(f.b < 0n ? -f.b : f.b, len),
+	);
+}
+
+/**
+ * Decode a canonically encoded form, rejecting anything that is not a
+ * primitive reduced form of discriminant d.
+ *
+ * @param bytes - Encoded form
+ * @param d - Discriminant
+ * @returns Reduced form
+ */
+export function decodeForm(bytes: Uint8Array, d: bigint): QuadraticForm {
+	const len = formCoefficientLength(d);
+	if (bytes.length !== 2 * len + 1) {
+		throw new ProofFormatError("encoded form has wrong length");
+	}
+	const sign = bytes[len]!;
+	if (sign > 1) {
+		throw new ProofFormatError("encoded form has invalid sign byte");
+	}
+	const a = bytesToBigint(bytes.subarray(0, len));
+	const absB = bytesToBigint(bytes.subarray(len + 1));
+	if (sign === 1 && absB === 0n) {
+		throw new ProofFormatError("encoded form has non-canonical sign");
+	}
+	const b = sign === 1 ? -absB : absB;
+
+	const num = b * b - d;
+	if (a <= 0n || num % (4n * a) !== 0n) {
+		throw new ProofFormatError("encoded form does not match discriminant");
+	}
+	const f = { a, b, c: num / (4n * a) };
+	if (!isReducedForm(f)) {
+		throw new ProofFormatError("encoded form is not reduced");
+	}
+	if (!isPrimitiveForm(f)) {
+		throw new ProofFormatError("encoded form is not primitive");
+	}
+	return f;
+}
+
+function isValidDiscriminant(d: bigint): boolean {
+	return d < 0n && floorMod(d, 4n) === 1n;
+}
+
+function checkDiscriminant(d: bigint): void {
+	if (!isValidDiscriminant(d)) {
+		throw new InvalidParamsError("d must be negative and ≡ 1 (mod 4)");
+	}
+}
+
+/**
+ * The class group of discriminant d, as a `Group` of reduced forms.
+ *
+ * Encodings use `encodeForm`; the transcript binds |d|.
+ */
+export class ClassGroup implements Group<QuadraticForm> {
+	public readonly d: bigint;
+	public readonly elementByteLength: number;
+
+	constructor(d: bigint) {
+		checkDiscriminant(d);
+		this.d = d;
+		this.elementByteLength = 2 * formCoefficientLength(d) + 1;
+	}
+
+	identity(): QuadraticForm {
+		return identityForm(this.d);
+	}
+
+	multiply(a: QuadraticForm, b: QuadraticForm): QuadraticForm {
+		return composeForms(a, b);
+	}
+
+	square(a: QuadraticForm): QuadraticForm {
+		return squareForm(a, this.d);
+	}
+
+	repeatedSquare(a: QuadraticForm, k: number): QuadraticForm {
+		let h = a;
+		for (let i = 0; i < k; i++) {
+			h = squareForm(h, this.d);
+		}
+		return h;
+	}
+
+	pow(a: QuadraticForm, e: bigint): QuadraticForm {
+		return powForm(a, e, this.d);
+	}
+
+	powProduct(
+		a: QuadraticForm,
+		e: bigint,
+		b: QuadraticForm,
+		f: bigint,
+	): QuadraticForm {
+		return composeForms(powForm(a, e, this.d), powForm(b, f, this.d));
+	}
+
+	equals(a: QuadraticForm, b: QuadraticForm): boolean {
+		return a.a === b.a && a.b === b.b && a.c === b.c;
+	}
+
+	isElement(a: QuadraticForm): boolean {
+		return isClassGroupElement(a, this.d);
+	}
+
+	encode(a: QuadraticForm): Uint8Array {
+		return encodeForm(a, this.d);
+	}
+
+	decode(bytes: Uint8Array): QuadraticForm {
+		return decodeForm(bytes, this.d);
+	}
+
+	transcript(): Uint8Array {
+		return bigintToFixedBytes(-this.d, bigintByteLength(-this.d));
+	}
+}
+
+/**
+ * Evaluate the VDF in a class group: compute h = x^(2^t).
+ *
+ * @param x - Input form (reduced, discriminant d)
+ * @param params - Class group VDF parameters (d, t)
+ * @returns VDF output containing x, h, t, d
+ */
+export function evaluateClassGroup(
+	x: QuadraticForm,
+	params: ClassGroupParams,
+): ClassGroupOutput {
+	const { d, t } = params;
+
+	const group = new ClassGroup(d);
+	if (!group.isElement(x)) {
+		throw new InvalidInputError("x must be a reduced form of discriminant d");
+	}
+
+	return { ...evaluateInGroup(group, x, t), d };
+}
+
+/**
+ * Derive the challenge prime l for a class group VDF output.
+ *
+ * Uses the same transcript layout as `deriveChallenge`, with canonical form
+ * encodings in place of the group elements and |d| in place of n.
+ *
+ * @param output - Class group VDF output
+ * @param nonce - 32-byte random nonce
+ * @returns Challenge prime l
+ */
+export async function deriveClassGroupChallenge(
+	output: ClassGroupOutput,
+	nonce: Uint8Array,
+): Promise<bigint> {
+	return deriveChallengeInGroup(new ClassGroup(output.d), output, nonce);
+}
+
+/**
+ * Compute the Wesolowski proof π = x^⌊2^t / l⌋ in a class group using
+ * long division in the exponent.
+ *
+ * @param output - Class group VDF output to prove
+ * @param l - Challenge prime
+ * @returns Proof form π
+ */
+export function proveClassGroup(
+	output: ClassGroupOutput,
+	l: bigint,
+): QuadraticForm {
+	return proveInGroup(new ClassGroup(output.d), output, l);
+}
+
+/**
+ * Generate a complete class group VDF proof including challenge derivation.
+ *
+ * @param output - Class group VDF output to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @returns Complete class group VDF proof
+ */
+export async function generateClassGroupProof(
+	output: ClassGroupOutput,
+	nonce?: Uint8Array,
+): Promise<ClassGroupProof> {
+	const group = new ClassGroup(output.d);
+	return { ...(await generateProofInGroup(group, output, nonce)), d: output.d };
+}
+
+/**
+ * Verify a class group Wesolowski proof by checking π^l · x^r = h,
+ * where r = 2^t mod l.
+ *
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export function verifyClassGroup(proof: ClassGroupProof): boolean {
+	if (!isValidDiscriminant(proof.d)) {
+		return false;
+	}
+	return verifyInGroup(new ClassGroup(proof.d), proof);
+}
+
+/**
+ * Full class group verification including challenge re-derivation.
+ *
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export async function verifyClassGroupWithChallenge(
+	proof: ClassGroupProof,
+): Promise<boolean> {
+	const { x, h, d } = proof;
+
+	if (!isValidDiscriminant(d)) {
+		return false;
+	}
+	const group = new ClassGroup(d);
+	if (!group.isElement(x) || !group.isElement(h)) {
+		return false;
+	}
+
+	return verifyWithChallengeInGroup(group, proof);
+}
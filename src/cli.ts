@@ -0,0 +1,969 @@
+#!/usr/bin/env bun
+/**
+ * Command-line interface: `wesolowski <command> [options]`.
+ *
+ * Run `wesolowski --help` for the list of commands and options.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+	RSA_2048,
+	RSA_3072,
+	RSA_4096,
+	verifyDetailed,
+	type VDFOutput,
+	type VDFParams,
+	type VDFProof,
+	type VerifyResult,
+} from "./vdf.ts";
+import {
+	evaluateAsync,
+	generateProofAsync,
+	type VDFProgress,
+} from "./async.ts";
+import { hashToGroup, type HashToGroupOptions } from "./hash.ts";
+import { calibrate, tForDuration } from "./calibrate.ts";
+import { decodeProof, encodeProof } from "./encoding.ts";
+import {
+	outputFromJSON,
+	outputToJSON,
+	proofFromJSON,
+	proofToJSON,
+} from "./json.ts";
+import {
+	CHALLENGE_HASH_IDS,
+	resolveChallengeConfig,
+	type ChallengeConfig,
+	type ChallengeHash,
+} from "./challenge.ts";
+import { bigintBitLength } from "./utils.ts";
+import { InvalidInputError, InvalidParamsError, VDFError } from "./errors.ts";
+
+/**
+ * Exit codes of the `wesolowski` command.
+ */
+export const EXIT_CODES = Object.freeze({
+	/** Success; for `verify`, every proof is valid */
+	OK: 0,
+	/** A proof failed verification */
+	INVALID: 1,
+	/** Unknown command or option, or a missing or malformed argument */
+	USAGE: 2,
+	/** Malformed input data or invalid parameters (a `VDFError`) */
+	INPUT: 3,
+	/** A file could not be read or written */
+	IO: 4,
+	/** Unexpected internal error */
+	INTERNAL: 5,
+});
+
+/**
+ * Streams used by `main`, replaceable to run the CLI in-process.
+ */
+export interface CLIStreams {
+	/** Write command output */
+	stdout: (data: string | Uint8Array) => void;
+	/** Write diagnostics and progress */
+	stderr: (text: string) => void;
+	/** Read all of standard input */
+	stdin: () => Promise<Uint8Array>;
+	/** Whether stderr is a terminal; progress is shown by default only then */
+	isTTY: boolean;
+}
+
+const PROCESS_STREAMS: CLIStreams = {
+	stdout: (data) => {
+		process.stdout.write(data);
+	},
+	stderr: (text) => {
+		process.stderr.write(text);
+	},
+	stdin: async () => {
+		const chunks: Uint8Array[] = [];
+		for await (const chunk of process.stdin) {
+			chunks.push(chunk as Uint8Array);
+		}
+		return new Uint8Array(Buffer.concat(chunks));
+	},
+	isTTY: process.stderr.isTTY ?? false,
+};
+
+const USAGE = `Usage: wesolowski <command> [options]
+
+Commands:
+  eval       Evaluate h = x^(2^t) mod n and print the output as JSON
+  prove      Evaluate (or read an output) and write a proof
+  verify     Verify a proof read from a file or stdin
+  calibrate  Measure the squaring speed and suggest t for a delay
+  inspect    Describe a proof and check it
+
+Input and parameters (eval, prove):
+  -m, --modulus <m>        RSA_2048 (default), RSA_3072, RSA_4096, or a file
+                           holding n in decimal or 0x-prefixed hex
+  -t, --t <t>              Number of sequential squarings
+  --x <x>                  Input in decimal or 0x-prefixed hex
+  --seed <text>            Derive the input from a UTF-8 seed
+  --seed-hex <hex>         Derive the input from seed bytes in hex
+  --domain <tag>           Hash-to-group domain-separation tag
+  --signed                 Use the signed group QR+_n
+  --challenge-hash <h>     SHA-256, SHA-512, SHA3-256 or BLAKE2b
+  --challenge-bits <b>     Challenge size in bits
+  --challenge-tag <tag>    Challenge domain-separation tag
+
+Proving (prove):
+  --input <file>           Prove an output written by eval instead
+  --nonce <hex>            32-byte nonce (default: random)
+  --format <json|binary>   Proof format (default: json)
+
+Verifying (verify, inspect):
+  --format <auto|json|binary>  Proof format (default: auto)
+  -m, --modulus <m>        Require this modulus, as above (verify)
+  -t, --t <t>              Require this number of squarings (verify)
+  --skip-challenge         Do not re-derive the challenge
+  --require-registered     Reject proofs whose modulus is not registered
+  --seed, --seed-hex, --domain  Require x to be derived from the seed
+
+Calibration (calibrate):
+  -m, --modulus <m>        Modulus, as above
+  --duration <ms>          Measurement time (default: 1000)
+  --target <ms>            Print the t giving at least this delay
+  --safety-factor <f>      Assumed speed-up of the fastest evaluator
+
+Common:
+  -o, --out <file>         Write output to a file instead of stdout
+  --batch <file>           Process an NDJSON file, one request per line
+  --progress               Show progress even when stderr is not a terminal
+  -q, --quiet              Never show progress
+  -h, --help               Show this help
+
+Exit codes: 0 success, 1 invalid proof, 2 usage error, 3 invalid input,
+4 I/O error, 5 internal error.
+`;
+
+/**
+ * A command-line argument is missing, unknown or malformed.
+ */
+class UsageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UsageError";
+	}
+}
+
+const HELP_OPTION = { help: { type: "boolean", short: "h" } } as const;
+
+const MODULUS_OPTION = { modulus: { type: "string", short: "m" } } as const;
+
+const SEED_OPTIONS = {
+	seed: { type: "string" },
+	"seed-hex": { type: "string" },
+	domain: { type: "string" },
+} as const;
+
+const EVAL_OPTIONS = {
+	...HELP_OPTION,
+	...MODULUS_OPTION,
+	...SEED_OPTIONS,
+	t: { type: "string", short: "t" },
+	x: { type: "string" },
+	signed: { type: "boolean" },
+	"challenge-hash": { type: "string" },
+	"challenge-bits": { type: "string" },
+	"challenge-tag": { type: "string" },
+	out: { type: "string", short: "o" },
+	batch: { type: "string" },
+	progress: { type: "boolean" },
+	quiet: { type: "boolean", short: "q" },
+} as const;
+
+const PROVE_OPTIONS = {
+	...EVAL_OPTIONS,
+	input: { type: "string" },
+	nonce: { type: "string" },
+	format: { type: "string" },
+} as const;
+
+const VERIFY_OPTIONS = {
+	...HELP_OPTION,
+	...MODULUS_OPTION,
+	...SEED_OPTIONS,
+	t: { type: "string", short: "t" },
+	format: { type: "string" },
+	"skip-challenge": { type: "boolean" },
+	"require-registered": { type: "boolean" },
+	out: { type: "string", short: "o" },
+	batch: { type: "string" },
+} as const;
+
+const CALIBRATE_OPTIONS = {
+	...HELP_OPTION,
+	...MODULUS_OPTION,
+	duration: { type: "string" },
+	target: { type: "string" },
+	"safety-factor": { type: "string" },
+	out: { type: "string", short: "o" },
+} as const;
+
+const INSPECT_OPTIONS = {
+	...HELP_OPTION,
+	format: { type: "string" },
+	out: { type: "string", short: "o" },
+} as const;
+
+type EvalValues = ReturnType<
+	typeof parseArgs<{ options: typeof EVAL_OPTIONS }>
+>["values"];
+type ProveValues = ReturnType<
+	typeof parseArgs<{ options: typeof PROVE_OPTIONS }>
+>["values"];
+type VerifyValues = ReturnType<
+	typeof parseArgs<{ options: typeof VERIFY_OPTIONS }>
+>["values"];
+
+const NAMED_MODULI: ReadonlyMap<string, bigint> = new Map([
+	["RSA_2048", RSA_2048],
+	["RSA_3072", RSA_3072],
+	["RSA_4096", RSA_4096],
+]);
+
+/** Minimum interval between progress updates */
+const PROGRESS_INTERVAL_MS = 200;
+
+/**
+ * Fields an NDJSON line may set for `eval` and `prove` in batch mode.
+ * Missing fields fall back to the command-line options.
+ */
+interface BatchRequest {
+	x?: string;
+	seed?: string;
+	seedHex?: string;
+	t?: number | string;
+	nonce?: string;
+}
+
+const INTEGER = /^([0-9]+|0x[0-9a-fA-F]+)$/;
+
+function parseInteger(text: string, what: string): bigint {
+	if (INTEGER.test(text)) {
+		return BigInt(text);
+	}
+	throw new UsageError(
+		`${what} must be a decimal or 0x-prefixed hexadecimal integer`,
+	);
+}
+
+function parseT(text: string): number {
+	if (!/^[0-9][0-9_]*$/.test(text)) {
+		throw new UsageError("t must be a positive integer");
+	}
+	const t = Number(text.replaceAll("_", ""));
+	if (!Number.isSafeInteger(t) || t <= 0) {
+		throw new UsageError("t must be a positive safe integer");
+	}
+	return t;
+}
+
+function parsePositive(text: string, what: string): number {
+	const value = Number(text);
+	if (text.trim() === "" || !Number.isFinite(value) || value <= 0) {
+		throw new UsageError(`${what} must be a positive number`);
+	}
+	return value;
+}
+
+function parseHexBytes(text: string, what: string): Uint8Array {
+	if (!/^([0-9a-fA-F]{2})*$/.test(text)) {
+		throw new UsageError(`${what} must be an even number of hex digits`);
+	}
+	return new Uint8Array(Buffer.from(text, "hex"));
+}
+
+function parseFormat<F extends string>(
+	text: string | undefined,
+	formats: readonly F[],
+	fallback: F,
+): F {
+	if (text === undefined) {
+		return fallback;
+	}
+	if (!(formats as readonly string[]).includes(text)) {
+		throw new UsageError(`--format must be one of ${formats.join(", ")}`);
+	}
+	return text as F;
+}
+
+async function readSource(path: string, io: CLIStreams): Promise<Uint8Array> {
+	return path === "-" ? io.stdin() : new Uint8Array(await readFile(path));
+}
+
+async function writeResult(
+	data: string | Uint8Array,
+	out: string | undefined,
+	io: CLIStreams,
+): Promise<void> {
+	if (out === undefined) {
+		io.stdout(data);
+	} else {
+		await writeFile(out, data);
+	}
+}
+
+/**
+ * Resolve `--modulus`: one of the named moduli, or a file holding n.
+ */
+async function resolveModulusOption(value = "RSA_2048"): Promise<bigint> {
+	const named = NAMED_MODULI.get(value);
+	if (named !== undefined) {
+		return named;
+	}
+	const text = new TextDecoder().decode(await readFile(value)).trim();
+	if (!INTEGER.test(text)) {
+		throw new InvalidParamsError(
+			`${value} must hold n as a decimal or 0x-prefixed hexadecimal integer`,
+		);
+	}
+	return BigInt(text);
+}
+
+function modulusName(n: bigint): string | undefined {
+	for (const [name, value] of NAMED_MODULI) {
+		if (value === n) {
+			return name;
+		}
+	}
+	return undefined;
+}
+
+function challengeOption(values: EvalValues): ChallengeConfig | undefined {
+	const hash = values["challenge-hash"];
+	const bits = values["challenge-bits"];
+	const tag = values["challenge-tag"];
+	if (hash === undefined && bits === undefined && tag === undefined) {
+		return undefined;
+	}
+	const challenge: ChallengeConfig = {};
+	if (hash !== undefined) {
+		if (!CHALLENGE_HASH_IDS.has(hash as ChallengeHash)) {
+			throw new UsageError(
+				`--challenge-hash must be one of ${[...CHALLENGE_HASH_IDS.keys()].join(", ")}`,
+			);
+		}
+		challenge.hash = hash as ChallengeHash;
+	}
+	if (bits !== undefined) {
+		challenge.bits = Number(parseInteger(bits, "--challenge-bits"));
+	}
+	if (tag !== undefined) {
+		challenge.tag = tag;
+	}
+	return resolveChallengeConfig(challenge);
+}
+
+function hashOptions(values: { domain?: string }): HashToGroupOptions {
+	return values.domain === undefined ? {} : { domain: values.domain };
+}
+
+/**
+ * The seed given with `--seed` or `--seed-hex`, if any.
+ */
+function seedOption(values: {
+	seed?: string;
+	"seed-hex"?: string;
+}): Uint8Array | undefined {
+	if (values.seed !== undefined && values["seed-hex"] !== undefined) {
+		throw new UsageError("--seed and --seed-hex are mutually exclusive");
+	}
+	if (values.seed !== undefined) {
+		return new TextEncoder().encode(values.seed);
+	}
+	if (values["seed-hex"] !== undefined) {
+		return parseHexBytes(values["seed-hex"], "--seed-hex");
+	}
+	return undefined;
+}
+
+/**
+ * Resolve the input x from `--x`, `--seed` or `--seed-hex`, exactly one
+ * of which must be given.
+ */
+async function resolveInput(values: EvalValues, n: bigint): Promise<bigint> {
+	const seed = seedOption(values);
+	if (values.x !== undefined) {
+		if (seed !== undefined) {
+			throw new UsageError("--x and --seed are mutually exclusive");
+		}
+		return parseInteger(values.x, "--x");
+	}
+	if (seed === undefined) {
+		throw new UsageError("one of --x, --seed or --seed-hex is required");
+	}
+	return hashToGroup(seed, n, hashOptions(values));
+}
+
+async function resolveParams(values: EvalValues): Promise<VDFParams> {
+	if (values.t === undefined) {
+		throw new UsageError("--t is required");
+	}
+	const params: VDFParams = {
+		n: await resolveModulusOption(values.modulus),
+		t: parseT(values.t),
+	};
+	const challenge = challengeOption(values);
+	if (challenge !== undefined) {
+		params.challenge = challenge;
+	}
+	if (values.signed) {
+		params.signed = true;
+	}
+	return params;
+}
+
+function formatMs(ms: number): string {
+	if (!Number.isFinite(ms)) {
+		return "?";
+	}
+	const seconds = ms / 1000;
+	if (seconds < 60) {
+		return `${seconds.toFixed(1)}s`;
+	}
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m${Math.floor(seconds % 60)}s`;
+	}
+	return `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+/**
+ * Progress callback writing to stderr, or undefined when progress is off.
+ * On a terminal the line is rewritten in place.
+ */
+function progressReporter(
+	values: { progress?: boolean; quiet?: boolean },
+	io: CLIStreams,
+	label: string,
+): ((progress: VDFProgress) => void) | undefined {
+	if (values.quiet || !(values.progress || io.isTTY)) {
+		return undefined;
+	}
+	let last = -Infinity;
+	return ({ completed, total, elapsedMs, etaMs }) => {
+		const done = completed === total;
+		if (!done && elapsedMs - last < PROGRESS_INTERVAL_MS) {
+			return;
+		}
+		last = elapsedMs;
+		const percent = ((100 * completed) / total).toFixed(1);
+		const line = `${label}: ${percent}% (${formatMs(elapsedMs)} elapsed, ${formatMs(etaMs)} remaining)`;
+		io.stderr(io.isTTY ? `\r${line}${done ? "\n" : ""}` : `${line}\n`);
+	};
+}
+
+function evaluateOptions(
+	values: EvalValues,
+	io: CLIStreams,
+	label: string,
+): { onProgress?: (progress: VDFProgress) => void } {
+	const onProgress = progressReporter(values, io, label);
+	return onProgress ? { onProgress } : {};
+}
+
+/**
+ * Command-line options with the fields of a batch line applied on top.
+ */
+function applyRequest<V extends EvalValues & { nonce?: string }>(
+	values: V,
+	line: unknown,
+): V {
+	if (typeof line !== "object" || line === null || Array.isArray(line)) {
+		throw new InvalidInputError("batch lines must be JSON objects");
+	}
+	const request = line as BatchRequest;
+	const merged: V = { ...values };
+	if (
+		request.x !== undefined ||
+		request.seed !== undefined ||
+		request.seedHex !== undefined
+	) {
+		delete merged.x;
+		delete merged.seed;
+		delete merged["seed-hex"];
+	}
+	for (const [key, option] of [
+		["x", "x"],
+		["seed", "seed"],
+		["seedHex", "seed-hex"],
+		["nonce", "nonce"],
+	] as const) {
+		const value = request[key];
+		if (value !== undefined) {
+			if (typeof value !== "string") {
+				throw new InvalidInputError(`batch field "${key}" must be a string`);
+			}
+			merged[option] = value;
+		}
+	}
+	if (request.t !== undefined) {
+		merged.t = String(request.t);
+	}
+	return merged;
+}
+
+/**
+ * Run `handle` on each non-empty line of an NDJSON file and write one
+ * NDJSON line per result. A line that fails becomes an error object and
+ * the others are still processed. Returns the highest exit code.
+ */
+async function runBatch(
+	path: string,
+	out: string | undefined,
+	io: CLIStreams,
+	handle: (
+		value: unknown,
+		label: string,
+		line: number,
+	) => Promise<[unknown, number]>,
+): Promise<number> {
+	const lines = new TextDecoder()
+		.decode(await readSource(path, io))
+		.split("\n")
+		.map((text, i) => ({ text: text.trim(), number: i + 1 }))
+		.filter(({ text }) => text !== "");
+
+	const results: string[] = [];
+	let status: number = EXIT_CODES.OK;
+	for (const [i, { text, number }] of lines.entries()) {
+		let result: unknown;
+		let code: number;
+		try {
+			[result, code] = await handle(
+				JSON.parse(text),
+				`[${i + 1}/${lines.length}]`,
+				number,
+			);
+		} catch (e) {
+			code = exitCodeOf(e);
+			result = {
+				line: number,
+				error: { code: errorCode(e), message: errorMessage(e) },
+			};
+		}
+		results.push(JSON.stringify(result));
+		status = Math.max(status, code);
+	}
+	await writeResult(results.map((line) => `${line}\n`).join(""), out, io);
+	return status;
+}
+
+async function evalOne(
+	values: EvalValues,
+	io: CLIStreams,
+	label: string,
+): Promise<VDFOutput> {
+	const params = await resolveParams(values);
+	const x = await resolveInput(values, params.n);
+	return evaluateAsync(x, params, evaluateOptions(values, io, label));
+}
+
+async function proveOne(
+	values: ProveValues,
+	io: CLIStreams,
+	label: string,
+): Promise<VDFProof> {
+	const nonce =
+		values.nonce === undefined
+			? undefined
+			: parseHexBytes(values.nonce, "--nonce");
+	if (nonce !== undefined && nonce.length !== 32) {
+		throw new UsageError("--nonce must be 32 bytes (64 hex digits)");
+	}
+
+	let output: VDFOutput;
+	if (values.input !== undefined) {
+		if (
+			values.x !== undefined ||
+			values.seed !== undefined ||
+			values["seed-hex"] !== undefined ||
+			values.t !== undefined
+		) {
+			throw new UsageError(
+				"--input cannot be combined with --x, --seed, --seed-hex or --t",
+			);
+		}
+		const text = new TextDecoder().decode(await readSource(values.input, io));
+		output = outputFromJSON(JSON.parse(text));
+	} else {
+		output = await evalOne(values, io, `${label}evaluating`);
+	}
+	const onProgress = progressReporter(values, io, `${label}proving`);
+	return generateProofAsync(output, nonce, onProgress ? { onProgress } : {});
+}
+
+async function commandEval(args: string[], io: CLIStreams): Promise<number> {
+	const { values } = parseArgs({ args, options: EVAL_OPTIONS, strict: true });
+	if (values.help) {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	if (values.batch !== undefined) {
+		return runBatch(values.batch, values.out, io, async (value, label) => {
+			const output = await evalOne(
+				applyRequest(values, value),
+				io,
+				`${label} evaluating`,
+			);
+			return [outputToJSON(output), EXIT_CODES.OK];
+		});
+	}
+	const output = await evalOne(values, io, "evaluating");
+	await writeResult(
+		`${JSON.stringify(outputToJSON(output))}\n`,
+		values.out,
+		io,
+	);
+	return EXIT_CODES.OK;
+}
+
+async function commandProve(args: string[], io: CLIStreams): Promise<number> {
+	const { values } = parseArgs({ args, options: PROVE_OPTIONS, strict: true });
+	if (values.help) {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	const format = parseFormat(values.format, ["json", "binary"], "json");
+	if (values.batch !== undefined) {
+		if (format !== "json" || values.input !== undefined) {
+			throw new UsageError("--batch writes JSON and cannot use --input");
+		}
+		return runBatch(values.batch, values.out, io, async (value, label) => {
+			const proof = await proveOne(
+				applyRequest(values, value),
+				io,
+				`${label} `,
+			);
+			return [proofToJSON(proof), EXIT_CODES.OK];
+		});
+	}
+	const proof = await proveOne(values, io, "");
+	await writeResult(
+		format === "binary"
+			? encodeProof(proof)
+			: `${JSON.stringify(proofToJSON(proof))}\n`,
+		values.out,
+		io,
+	);
+	return EXIT_CODES.OK;
+}
+
+/**
+ * Parse a proof in JSON or binary form. With "auto", input whose first
+ * non-whitespace byte is '{' is JSON.
+ */
+function readProof(
+	bytes: Uint8Array,
+	format: "auto" | "json" | "binary",
+): [VDFProof, "json" | "binary"] {
+	if (format === "auto") {
+		const first = bytes.find((b) => b > 0x20);
+		format = first === 0x7b ? "json" : "binary";
+	}
+	if (format === "json") {
+		return [proofFromJSON(JSON.parse(new TextDecoder().decode(bytes))), format];
+	}
+	return [decodeProof(bytes), format];
+}
+
+/**
+ * Parameters a proof must match, from `--modulus` and `--t`. Without them
+ * `verify` accepts whatever n and t the proof states.
+ */
+interface ExpectedParams {
+	n?: bigint;
+	t?: number;
+}
+
+async function expectedParams(values: VerifyValues): Promise<ExpectedParams> {
+	const expected: ExpectedParams = {};
+	if (values.modulus !== undefined) {
+		expected.n = await resolveModulusOption(values.modulus);
+	}
+	if (values.t !== undefined) {
+		expected.t = parseT(values.t);
+	}
+	return expected;
+}
+
+async function checkProof(
+	proof: VDFProof,
+	values: VerifyValues,
+	expected: ExpectedParams,
+): Promise<VerifyResult> {
+	if (expected.n !== undefined && proof.n !== expected.n) {
+		return {
+			ok: false,
+			code: "INVALID_MODULUS",
+			reason: "n is not the modulus given with --modulus",
+		};
+	}
+	if (expected.t !== undefined && proof.t !== expected.t) {
+		return {
+			ok: false,
+			code: "INVALID_T",
+			reason: "t is not the value given with --t",
+		};
+	}
+	const seed = seedOption(values);
+	if (seed !== undefined) {
+		const mapped = await hashToGroup(seed, proof.n, hashOptions(values));
+		// Signed outputs carry the canonical form of the mapped input
+		const expected =
+			proof.signed && mapped > proof.n >> 1n ? proof.n - mapped : mapped;
+		if (proof.x !== expected) {
+			return {
+				ok: false,
+				code: "INVALID_X",
+				reason: "x is not the input derived from the seed",
+			};
+		}
+	}
+	return verifyDetailed(proof, {
+		checkChallenge: !values["skip-challenge"],
+		requireRegistered: values["require-registered"] ?? false,
+	});
+}
+
+function resultCode(result: VerifyResult): number {
+	return result.ok ? EXIT_CODES.OK : EXIT_CODES.INVALID;
+}
+
+async function commandVerify(args: string[], io: CLIStreams): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		options: VERIFY_OPTIONS,
+		allowPositionals: true,
+		strict: true,
+	});
+	if (values.help) {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	if (positionals.length > 1) {
+		throw new UsageError("verify takes at most one proof file");
+	}
+	const format = parseFormat(values.format, ["auto", "json", "binary"], "auto");
+	const expected = await expectedParams(values);
+	if (values.batch !== undefined) {
+		if (positionals.length > 0 || format === "binary") {
+			throw new UsageError("--batch reads JSON proofs from the batch file");
+		}
+		return runBatch(values.batch, values.out, io, async (value, _, line) => {
+			const result = await checkProof(proofFromJSON(value), values, expected);
+			return [{ line, ...result }, resultCode(result)];
+		});
+	}
+	const [proof] = readProof(
+		await readSource(positionals[0] ?? "-", io),
+		format,
+	);
+	const result = await checkProof(proof, values, expected);
+	await writeResult(`${JSON.stringify(result)}\n`, values.out, io);
+	return resultCode(result);
+}
+
+async function commandCalibrate(
+	args: string[],
+	io: CLIStreams,
+): Promise<number> {
+	const { values } = parseArgs({
+		args,
+		options: CALIBRATE_OPTIONS,
+		strict: true,
+	});
+	if (values.help) {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	const n = await resolveModulusOption(values.modulus);
+	const durationMs =
+		values.duration === undefined
+			? undefined
+			: parsePositive(values.duration, "--duration");
+	const calibration = calibrate(
+		n,
+		durationMs === undefined ? {} : { durationMs },
+	);
+
+	const report: Record<string, unknown> = {
+		modulusBits: bigintBitLength(n),
+		squaringsPerSecond: Math.round(calibration.squaringsPerSecond),
+		squarings: calibration.squarings,
+		elapsedMs: Math.round(calibration.elapsedMs),
+	};
+	if (values.target !== undefined) {
+		const targetMs = parsePositive(values.target, "--target");
+		const safetyFactor =
+			values["safety-factor"] === undefined
+				? undefined
+				: parsePositive(values["safety-factor"], "--safety-factor");
+		report.targetMs = targetMs;
+		report.t = tForDuration(n, targetMs, {
+			calibration,
+			...(safetyFactor === undefined ? {} : { safetyFactor }),
+		});
+	} else if (values["safety-factor"] !== undefined) {
+		throw new UsageError("--safety-factor requires --target");
+	}
+	await writeResult(`${JSON.stringify(report, null, 2)}\n`, values.out, io);
+	return EXIT_CODES.OK;
+}
+
+async function commandInspect(args: string[], io: CLIStreams): Promise<number> {
+	const { values, positionals } = parseArgs({
+		args,
+		options: INSPECT_OPTIONS,
+		allowPositionals: true,
+		strict: true,
+	});
+	if (values.help) {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	if (positionals.length > 1) {
+		throw new UsageError("inspect takes at most one proof file");
+	}
+	const format = parseFormat(values.format, ["auto", "json", "binary"], "auto");
+	const bytes = await readSource(positionals[0] ?? "-", io);
+	const [proof, detected] = readProof(bytes, format);
+
+	const modulus: Record<string, unknown> = { bits: bigintBitLength(proof.n) };
+	const name = modulusName(proof.n);
+	if (name !== undefined) {
+		modulus.name = name;
+	}
+	if (proof.modulusId !== undefined) {
+		modulus.id = proof.modulusId;
+	}
+	const report = {
+		format: detected,
+		...(detected === "binary" ? { encodingVersion: bytes[0] } : {}),
+		bytes: bytes.length,
+		modulus,
+		t: proof.t,
+		signed: proof.signed ?? false,
+		challenge: resolveChallengeConfig(proof.challenge),
+		lBits: bigintBitLength(proof.l),
+		nonce: Buffer.from(proof.nonce).toString("hex"),
+		verification: await verifyDetailed(proof),
+	};
+	await writeResult(`${JSON.stringify(report, null, 2)}\n`, values.out, io);
+	return report.verification.ok ? EXIT_CODES.OK : EXIT_CODES.INVALID;
+}
+
+const COMMANDS: ReadonlyMap<
+	string,
+	(args: string[], io: CLIStreams) => Promise<number>
+> = new Map([
+	["eval", commandEval],
+	["prove", commandProve],
+	["verify", commandVerify],
+	["calibrate", commandCalibrate],
+	["inspect", commandInspect],
+]);
+
+function errorMessage(e: unknown): string {
+	if (e instanceof SyntaxError) {
+		return `invalid JSON: ${e.message}`;
+	}
+	return e instanceof Error ? e.message : String(e);
+}
+
+function errorCode(e: unknown): string {
+	if (e instanceof VDFError) {
+		return e.code;
+	}
+	if (e instanceof UsageError) {
+		return "USAGE";
+	}
+	if (e instanceof SyntaxError) {
+		return "INVALID_JSON";
+	}
+	if (isSystemError(e)) {
+		return e.code;
+	}
+	return "INTERNAL";
+}
+
+function isSystemError(e: unknown): e is NodeJS.ErrnoException & {
+	code: string;
+} {
+	return (
+		e instanceof Error &&
+		typeof (e as NodeJS.ErrnoException).code === "string" &&
+		typeof (e as NodeJS.ErrnoException).syscall === "string"
+	);
+}
+
+function isParseArgsError(e: unknown): boolean {
+	const code = (e as { code?: unknown } | null)?.code;
+	return typeof code === "string" && code.startsWith("ERR_PARSE_ARGS_");
+}
+
+function exitCodeOf(e: unknown): number {
+	if (e instanceof UsageError || isParseArgsError(e)) {
+		return EXIT_CODES.USAGE;
+	}
+	if (e instanceof VDFError || e instanceof SyntaxError) {
+		return EXIT_CODES.INPUT;
+	}
+	if (isSystemError(e)) {
+		return EXIT_CODES.IO;
+	}
+	return EXIT_CODES.INTERNAL;
+}
+
+/**
+ * Run the command line `args` (without the executable and script paths).
+ *
+ * Errors are reported on stderr and mapped to `EXIT_CODES` rather than
+ * thrown.
+ *
+ * @param args - Command-line arguments
+ * @param io - Output and input streams (default: the process's)
+ * @returns Exit code
+ */
+export async function main(
+	args: string[],
+	io: CLIStreams = PROCESS_STREAMS,
+): Promise<number> {
+	const [command, ...rest] = args;
+	if (command === undefined || command === "--help" || command === "-h") {
+		(command === undefined ? io.stderr : io.stdout)(USAGE);
+		return command === undefined ? EXIT_CODES.USAGE : EXIT_CODES.OK;
+	}
+	if (command === "help") {
+		io.stdout(USAGE);
+		return EXIT_CODES.OK;
+	}
+	const run = COMMANDS.get(command);
+	if (!run) {
+		io.stderr(
+			`wesolowski: unknown command "${command}"\nRun "wesolowski --help" for usage.\n`,
+		);
+		return EXIT_CODES.USAGE;
+	}
+
+	try {
+		return await run(rest, io);
+	} catch (e) {
+		const code = exitCodeOf(e);
+		io.stderr(`wesolowski ${command}: ${errorMessage(e)}\n`);
+		if (code === EXIT_CODES.USAGE) {
+			io.stderr(`Run "wesolowski --help" for usage.\n`);
+		}
+		return code;
+	}
+}
+
+if (import.meta.main) {
+	process.exitCode = await main(process.argv.slice(2));
+}
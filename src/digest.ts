@@ -0,0 +1,585 @@
+/**
+ * Pure TypeScript hash functions: SHA3-256 and BLAKE2b, which WebCrypto
+ * does not provide, and SHA-256 and SHA-512 for synchronous hashing and
+ * runtimes without `crypto.subtle`.
+ *
+ * 64-bit words are held as pairs of 32-bit halves in Uint32Arrays, low
+ * half first, so no BigInt arithmetic is needed.
+ */
+
+/** Keccak-f[1600] round constants, as (low, high) 32-bit halves */
+const KECCAK_RC = [
+	0x0000000000000001n,
+	0x0000000000008082n,
+	0x800000000000808an,
+	0x8000000080008000n,
+	0x000000000000808bn,
+	0x0000000080000001n,
+	0x8000000080008081n,
+	0x8000000000008009n,
+	0x000000000000008an,
+	0x0000000000000088n,
+	0x0000000080008009n,
+	0x000000008000000an,
+	0x000000008000808bn,
+	0x800000000000008bn,
+	0x8000000000008089n,
+	0x8000000000008003n,
+	0x8000000000008002n,
+	0x8000000000000080n,
+	0x000000000000800an,
+	0x800000008000000an,
+	0x8000000080008081n,
+	0x8000000000008080n,
+	0x0000000080000001n,
+	0x8000000080008008n,
+].flatMap((rc) => [Number(rc & 0xffffffffn), Number(rc >> 32n)]);
+
+/** Rotation offsets of the ρ step, indexed by lane x + 5y */
+const KECCAK_ROTATIONS = [
+	0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18,
+	2, 61, 56, 14,
+];
+
+/** SHA3-256 rate in bytes */
+const SHA3_256_RATE = 136;
+
+/**
+ * Rotate the 64-bit word (lo, hi) left by n bits and store it at index i
+ * of out.
+ */
+function rotl64(
+	out: Uint32Array,
+	i: number,
+	lo: number,
+	hi: number,
+	n: number,
+): void {
+	if (n >= 32) {
+		[lo, hi] = [hi, lo];
+		n -= 32;
+	}
+	if (n === 0) {
+		out[2 * i] = lo;
+		out[2 * i + 1] = hi;
+		return;
+	}
+	out[2 * i] = (lo << n) | (hi >>> (32 - n));
+	out[2 * i + 1] = (hi << n) | (lo >>> (32 - n));
+}
+
+/**
+ * Apply Keccak-f[1600] to a state of 25 lanes (50 words).
+ */
+function keccakF(state: Uint32Array): void {
+	const c = new Uint32Array(10);
+	const d = new Uint32Array(10);
+	const b = new Uint32Array(50);
+
+	for (let round = 0; round < 24; round++) {
+		// θ
+		for (let x = 0; x < 5; x++) {
+			c[2 * x] =
+				state[2 * x]! ^
+				state[2 * (x + 5)]! ^
+				state[2 * (x + 10)]! ^
+				state[2 * (x + 15)]! ^
+				state[2 * (x + 20)]!;
+			c[2 * x + 1] =
+				state[2 * x + 1]! ^
+				state[2 * (x + 5) + 1]! ^
+				state[2 * (x + 10) + 1]! ^
+				state[2 * (x + 15) + 1]! ^
+				state[2 * (x + 20) + 1]!;
+		}
+		for (let x = 0; x < 5; x++) {
+			const next = (x + 1) % 5;
+			rotl64(d, x, c[2 * next]!, c[2 * next + 1]!, 1);
+			const prev = (x + 4) % 5;
+			d[2 * x] = d[2 * x]! ^ c[2 * prev]!;
+			d[2 * x + 1] = d[2 * x + 1]! ^ c[2 * prev + 1]!;
+		}
+		for (let i = 0; i < 25; i++) {
+			const x = i % 5;
+			state[2 * i] = state[2 * i]! ^ d[2 * x]!;
+			state[2 * i + 1] = state[2 * i + 1]! ^ d[2 * x + 1]!;
+		}
+
+		// ρ and π: B[y, 2x + 3y] = rot(A[x, y], r[x, y])
+		for (let x = 0; x < 5; x++) {
+			for (let y = 0; y < 5; y++) {
+				const i = x + 5 * y;
+				const j = y + 5 * ((2 * x + 3 * y) % 5);
+				rotl64(b, j, state[2 * i]!, state[2 * i + 1]!, KECCAK_ROTATIONS[i]!);
+			}
+		}
+
+		// χ
+		for (let y = 0; y < 5; y++) {
+			for (let x = 0; x < 5; x++) {
+				const i = x + 5 * y;
+				const i1 = ((x + 1) % 5) + 5 * y;
+				const i2 = ((x + 2) % 5) + 5 * y;
+				state[2 * i] = b[2 * i]! ^ (~b[2 * i1]! & b[2 * i2]!);
+				state[2 * i + 1] = b[2 * i + 1]! ^ (~b[2 * i1 + 1]! & b[2 * i2 + 1]!);
+			}
+		}
+
+		// ι
+		state[0] = state[0]! ^ KECCAK_RC[2 * round]!;
+		state[1] = state[1]! ^ KECCAK_RC[2 * round + 1]!;
+	}
+}
+
+/**
+ * XOR a block of little-endian 64-bit lanes into the state.
+ */
+function absorbBlock(state: Uint32Array, block: Uint8Array): void {
+	for (let i = 0; i < block.length; i += 4) {
+		const word =
+			block[i]! |
+			(block[i + 1]! << 8) |
+			(block[i + 2]! << 16) |
+			(block[i + 3]! << 24);
+		state[i >> 2] = state[i >> 2]! ^ word;
+	}
+}
+
+/**
+ * Compute the SHA3-256 digest of a message (FIPS 202).
+ *
+ * @param message - Input bytes
+ * @returns 32-byte digest
+ */
+export function sha3_256(message: Uint8Array): Uint8Array {
+	const rate = SHA3_256_RATE;
+	const state = new Uint32Array(50);
+
+	const fullBlocks = Math.floor(message.length / rate);
+	for (let i = 0; i < fullBlocks; i++) {
+		absorbBlock(state, message.subarray(i * rate, (i + 1) * rate));
+		keccakF(state);
+	}
+
+	// Pad the final block with the SHA-3 domain bits 01, then 10*1
+	const last = new Uint8Array(rate);
+	last.set(message.subarray(fullBlocks * rate));
+	last[message.length - fullBlocks * rate] = 0x06;
+	last[rate - 1] = last[rate - 1]! | 0x80;
+	absorbBlock(state, last);
+	keccakF(state);
+
+	const out = new Uint8Array(32);
+	for (let i = 0; i < 32; i++) {
+		out[i] = (state[i >> 2]! >>> (8 * (i & 3))) & 0xff;
+	}
+	return out;
+}
+
+/** BLAKE2b initialization vector (the SHA-512 IV), as (low, high) halves */
+const BLAKE2B_IV = new Uint32Array([
+	0xf3bcc908, 0x6a09e667, 0x84caa73b, 0xbb67ae85, 0xfe94f82b, 0x3c6ef372,
+	0x5f1d36f1, 0xa54ff53a, 0xade682d1, 0x510e527f, 0x2b3e6c1f, 0x9b05688c,
+	0xfb41bd6b, 0x1f83d9ab, 0x137e2179, 0x5be0cd19,
+]);
+
+/** Message word permutations of the BLAKE2b rounds */
+const BLAKE2B_SIGMA = [
+	[0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+	[14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+	[11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+	[7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+	[9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+	[2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+	[12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+	[13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+	[6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+	[10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+const BLAKE2B_BLOCK_BYTES = 128;
+
+/** v[a] += v[b] + m[i], on 64-bit words */
+function add64(
+	v: Uint32Array,
+	a: number,
+	b: number,
+	m: Uint32Array,
+	i: number,
+): void {
+	const lo = v[2 * a]! + v[2 * b]! + m[2 * i]!;
+	const hi = v[2 * a + 1]! + v[2 * b + 1]! + m[2 * i + 1]!;
+	v[2 * a] = lo;
+	v[2 * a + 1] = hi + Math.floor(lo / 0x100000000);
+}
+
+/** v[a] += v[b], on 64-bit words */
+function addWords(v: Uint32Array, a: number, b: number): void {
+	const lo = v[2 * a]! + v[2 * b]!;
+	v[2 * a] = lo;
+	v[2 * a + 1] = v[2 * a + 1]! + v[2 * b + 1]! + (lo > 0xffffffff ? 1 : 0);
+}
+
+/** v[a] = (v[a] ^ v[b]) rotated right by n bits */
+function xorRotr(v: Uint32Array, a: number, b: number, n: number): void {
+	const lo = v[2 * a]! ^ v[2 * b]!;
+	const hi = v[2 * a + 1]! ^ v[2 * b + 1]!;
+	rotl64(v, a, lo, hi, 64 - n);
+}
+
+function blake2bG(
+	v: Uint32Array,
+	m: Uint32Array,
+	a: number,
+	b: number,
+	c: number,
+	d: number,
+	x: number,
+	y: number,
+): void {
+	add64(v, a, b, m, x);
+	xorRotr(v, d, a, 32);
+	addWords(v, c, d);
+	xorRotr(v, b, c, 24);
+	add64(v, a, b, m, y);
+	xorRotr(v, d, a, 16);
+	addWords(v, c, d);
+	xorRotr(v, b, c, 63);
+}
+
+function blake2bCompress(
+	h: Uint32Array,
+	block: Uint8Array,
+	counter: number,
+	last: boolean,
+): void {
+	const v = new Uint32Array(32);
+	v.set(h);
+	v.set(BLAKE2B_IV, 16);
+	v[24] = v[24]! ^ counter;
+	v[25] = v[25]! ^ Math.floor(counter / 0x100000000);
+	if (last) {
+		v[28] = ~v[28]!;
+		v[29] = ~v[29]!;
+	}
+
+	const m = new Uint32Array(32);
+	for (let i = 0; i < 32; i++) {
+		m[i] =
+			block[4 * i]! |
+			(block[4 * i + 1]! << 8) |
+			(block[4 * i + 2]! << 16) |
+			(block[4 * i + 3]! << 24);
+	}
+
+	for (let round = 0; round < 12; round++) {
+		const s = BLAKE2B_SIGMA[round % 10]!;
+		blake2bG(v, m, 0, 4, 8, 12, s[0]!, s[1]!);
+		blake2bG(v, m, 1, 5, 9, 13, s[2]!, s[3]!);
+		blake2bG(v, m, 2, 6, 10, 14, s[4]!, s[5]!);
+		blake2bG(v, m, 3, 7, 11, 15, s[6]!, s[7]!);
+		blake2bG(v, m, 0, 5, 10, 15, s[8]!, s[9]!);
+		blake2bG(v, m, 1, 6, 11, 12, s[10]!, s[11]!);
+		blake2bG(v, m, 2, 7, 8, 13, s[12]!, s[13]!);
+		blake2bG(v, m, 3, 4, 9, 14, s[14]!, s[15]!);
+	}
+
+	for (let i = 0; i < 16; i++) {
+		h[i] = h[i]! ^ v[i]! ^ v[i + 16]!;
+	}
+}
+
+/**
+ * Compute the unkeyed BLAKE2b-512 digest of a message (RFC 7693).
+ *
+ * @param message - Input bytes
+ * @returns 64-byte digest
+ */
+export function blake2b(message: Uint8Array): Uint8Array {
+	const h = BLAKE2B_IV.slice();
+	// Parameter block: digest length 64, no key, fanout 1, depth 1
+	h[0] = h[0]! ^ 0x01010040;
+
+	const blockBytes = BLAKE2B_BLOCK_BYTES;
+	let offset = 0;
+	while (message.length - offset > blockBytes) {
+		offset += blockBytes;
+		blake2bCompress(
+			h,
+			message.subarray(offset - blockBytes, offset),
+			offset,
+			false,
+		);
+	}
+	const last = new Uint8Array(blockBytes);
+	last.set(message.subarray(offset));
+	blake2bCompress(h, last, message.length, true);
+
+	const out = new Uint8Array(64);
+	for (let i = 0; i < 64; i++) {
+		out[i] = (h[i >> 2]! >>> (8 * (i & 3))) & 0xff;
+	}
+	return out;
+}
+
+/**
+ * Pad a message for SHA-2: append 0x80, zeros, and the bit length as a
+ * big-endian integer of lengthBytes bytes, up to a multiple of blockBytes.
+ */
+function sha2Pad(
+	message: Uint8Array,
+	blockBytes: number,
+	lengthBytes: number,
+): Uint8Array {
+	const length =
+		Math.ceil((message.length + 1 + lengthBytes) / blockBytes) * blockBytes;
+	const padded = new Uint8Array(length);
+	padded.set(message);
+	padded[message.length] = 0x80;
+	const bits = message.length * 8;
+	const view = new DataView(padded.buffer);
+	view.setUint32(length - 8, Math.floor(bits / 0x100000000));
+	view.setUint32(length - 4, bits >>> 0);
+	return padded;
+}
+
+/** SHA-256 round constants */
+const SHA256_K = new Uint32Array([
+	0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+	0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+	0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+	0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+	0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+	0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+	0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+	0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+	0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+	0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+	0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+/** SHA-256 initial hash value */
+const SHA256_IV = new Uint32Array([
+	0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+	0x1f83d9ab, 0x5be0cd19,
+]);
+
+function rotr32(x: number, n: number): number {
+	return (x >>> n) | (x << (32 - n));
+}
+
+/**
+ * Compute the SHA-256 digest of a message (FIPS 180-4).
+ *
+ * @param message - Input bytes
+ * @returns 32-byte digest
+ */
+export function sha256(message: Uint8Array): Uint8Array {
+	const padded = sha2Pad(message, 64, 8);
+	const view = new DataView(padded.buffer);
+	const h = SHA256_IV.slice();
+	const w = new Uint32Array(64);
+
+	for (let offset = 0; offset < padded.length; offset += 64) {
+		for (let i = 0; i < 16; i++) {
+			w[i] = view.getUint32(offset + 4 * i);
+		}
+		for (let i = 16; i < 64; i++) {
+			const w15 = w[i - 15]!;
+			const w2 = w[i - 2]!;
+			const s0 = rotr32(w15, 7) ^ rotr32(w15, 18) ^ (w15 >>> 3);
+			const s1 = rotr32(w2, 17) ^ rotr32(w2, 19) ^ (w2 >>> 10);
+			w[i] = w[i - 16]! + s0 + w[i - 7]! + s1;
+		}
+
+		let a = h[0]!;
+		let b = h[1]!;
+		let c = h[2]!;
+		let d = h[3]!;
+		let e = h[4]!;
+		let f = h[5]!;
+		let g = h[6]!;
+		let hh = h[7]!;
+		for (let i = 0; i < 64; i++) {
+			const s1 = rotr32(e, 6) ^ rotr32(e, 11) ^ rotr32(e, 25);
+			const ch = (e & f) ^ (~e & g);
+			const t1 = (hh + s1 + ch + SHA256_K[i]! + w[i]!) >>> 0;
+			const s0 = rotr32(a, 2) ^ rotr32(a, 13) ^ rotr32(a, 22);
+			const maj = (a & b) ^ (a & c) ^ (b & c);
+			const t2 = (s0 + maj) >>> 0;
+			hh = g;
+			g = f;
+			f = e;
+			e = (d + t1) >>> 0;
+			d = c;
+			c = b;
+			b = a;
+			a = (t1 + t2) >>> 0;
+		}
+		h[0] = h[0]! + a;
+		h[1] = h[1]! + b;
+		h[2] = h[2]! + c;
+		h[3] = h[3]! + d;
+		h[4] = h[4]! + e;
+		h[5] = h[5]! + f;
+		h[6] = h[6]! + g;
+		h[7] = h[7]! + hh;
+	}
+
+	const out = new Uint8Array(32);
+	const outView = new DataView(out.buffer);
+	for (let i = 0; i < 8; i++) {
+		outView.setUint32(4 * i, h[i]!);
+	}
+	return out;
+}
+
+/** SHA-512 round constants, as (low, high) 32-bit halves */
+const SHA512_K = new Uint32Array([
+	0xd728ae22, 0x428a2f98, 0x23ef65cd, 0x71374491, 0xec4d3b2f, 0xb5c0fbcf,
+	0x8189dbbc, 0xe9b5dba5, 0xf348b538, 0x3956c25b, 0xb605d019, 0x59f111f1,
+	0xaf194f9b, 0x923f82a4, 0xda6d8118, 0xab1c5ed5, 0xa3030242, 0xd807aa98,
+	0x45706fbe, 0x12835b01, 0x4ee4b28c, 0x243185be, 0xd5ffb4e2, 0x550c7dc3,
+	0xf27b896f, 0x72be5d74, 0x3b1696b1, 0x80deb1fe, 0x25c71235, 0x9bdc06a7,
+	0xcf692694, 0xc19bf174, 0x9ef14ad2, 0xe49b69c1, 0x384f25e3, 0xefbe4786,
+	0x8b8cd5b5, 0x0fc19dc6, 0x77ac9c65, 0x240ca1cc, 0x592b0275, 0x2de92c6f,
+	0x6ea6e483, 0x4a7484aa, 0xbd41fbd4, 0x5cb0a9dc, 0x831153b5, 0x76f988da,
+	0xee66dfab, 0x983e5152, 0x2db43210, 0xa831c66d, 0x98fb213f, 0xb00327c8,
+	0xbeef0ee4, 0xbf597fc7, 0x3da88fc2, 0xc6e00bf3, 0x930aa725, 0xd5a79147,
+	0xe003826f, 0x06ca6351, 0x0a0e6e70, 0x14292967, 0x46d22ffc, 0x27b70a85,
+	0x5c26c926, 0x2e1b2138, 0x5ac42aed, 0x4d2c6dfc, 0x9d95b3df, 0x53380d13,
+	0x8baf63de, 0x650a7354, 0x3c77b2a8, 0x766a0abb, 0x47edaee6, 0x81c2c92e,
+	0x1482353b, 0x92722c85, 0x4cf10364, 0xa2bfe8a1, 0xbc423001, 0xa81a664b,
+	0xd0f89791, 0xc24b8b70, 0x0654be30, 0xc76c51a3, 0xd6ef5218, 0xd192e819,
+	0x5565a910, 0xd6990624, 0x5771202a, 0xf40e3585, 0x32bbd1b8, 0x106aa070,
+	0xb8d2d0c8, 0x19a4c116, 0x5141ab53, 0x1e376c08, 0xdf8eeb99, 0x2748774c,
+	0xe19b48a8, 0x34b0bcb5, 0xc5c95a63, 0x391c0cb3, 0xe3418acb, 0x4ed8aa4a,
+	0x7763e373, 0x5b9cca4f, 0xd6b2b8a3, 0x682e6ff3, 0x5defb2fc, 0x748f82ee,
+	0x43172f60, 0x78a5636f, 0xa1f0ab72, 0x84c87814, 0x1a6439ec, 0x8cc70208,
+	0x23631e28, 0x90befffa, 0xde82bde9, 0xa4506ceb, 0xb2c67915, 0xbef9a3f7,
+	0xe372532b, 0xc67178f2, 0xea26619c, 0xca273ece, 0x21c0c207, 0xd186b8c7,
+	0xcde0eb1e, 0xeada7dd6, 0xee6ed178, 0xf57d4f7f, 0x72176fba, 0x06f067aa,
+	0xa2c898a6, 0x0a637dc5, 0xbef90dae, 0x113f9804, 0x131c471b, 0x1b710b35,
+	0x23047d84, 0x28db77f5, 0x40c72493, 0x32caab7b, 0x15c9bebc, 0x3c9ebe0a,
+	0x9c100d4c, 0x431d67c4, 0xcb3e42b6, 0x4cc5d4be, 0xfc657e2a, 0x597f299c,
+	0x3ad6faec, 0x5fcb6fab, 0x4a475817, 0x6c44198c,
+]);
+
+/** SHA-512 initial hash value, shared with BLAKE2b */
+const SHA512_IV = BLAKE2B_IV;
+
+/** High half of the 64-bit word (lo, hi) rotated right by n bits, 0 < n < 64 */
+function rotrHi(lo: number, hi: number, n: number): number {
+	return n < 32
+		? (hi >>> n) | (lo << (32 - n))
+		: (lo >>> (n - 32)) | (hi << (64 - n));
+}
+
+/** Low half of the 64-bit word (lo, hi) rotated right by n bits, 0 < n < 64 */
+function rotrLo(lo: number, hi: number, n: number): number {
+	return n < 32
+		? (lo >>> n) | (hi << (32 - n))
+		: (hi >>> (n - 32)) | (lo << (64 - n));
+}
+
+/**
+ * Compute the SHA-512 digest of a message (FIPS 180-4).
+ *
+ * @param message - Input bytes
+ * @returns 64-byte digest
+ */
+export function sha512(message: Uint8Array): Uint8Array {
+	const padded = sha2Pad(message, 128, 16);
+	const view = new DataView(padded.buffer);
+	const h = SHA512_IV.slice();
+	const w = new Uint32Array(160);
+	const v = new Uint32Array(16);
+
+	for (let offset = 0; offset < padded.length; offset += 128) {
+		for (let i = 0; i < 16; i++) {
+			w[2 * i + 1] = view.getUint32(offset + 8 * i);
+			w[2 * i] = view.getUint32(offset + 8 * i + 4);
+		}
+		for (let i = 16; i < 80; i++) {
+			const lo15 = w[2 * (i - 15)]!;
+			const hi15 = w[2 * (i - 15) + 1]!;
+			const lo2 = w[2 * (i - 2)]!;
+			const hi2 = w[2 * (i - 2) + 1]!;
+			// σ0 = rotr 1 ^ rotr 8 ^ shr 7, σ1 = rotr 19 ^ rotr 61 ^ shr 6
+			const s0lo =
+				rotrLo(lo15, hi15, 1) ^
+				rotrLo(lo15, hi15, 8) ^
+				((lo15 >>> 7) | (hi15 << 25));
+			const s0hi = rotrHi(lo15, hi15, 1) ^ rotrHi(lo15, hi15, 8) ^ (hi15 >>> 7);
+			const s1lo =
+				rotrLo(lo2, hi2, 19) ^
+				rotrLo(lo2, hi2, 61) ^
+				((lo2 >>> 6) | (hi2 << 26));
+			const s1hi = rotrHi(lo2, hi2, 19) ^ rotrHi(lo2, hi2, 61) ^ (hi2 >>> 6);
+			const lo =
+				w[2 * (i - 16)]! + (s0lo >>> 0) + w[2 * (i - 7)]! + (s1lo >>> 0);
+			w[2 * i] = lo;
+			w[2 * i + 1] =
+				w[2 * (i - 16) + 1]! +
+				s0hi +
+				w[2 * (i - 7) + 1]! +
+				s1hi +
+				Math.floor(lo / 0x100000000);
+		}
+
+		// Working variables a..h as (low, high) pairs at v[0..15]
+		v.set(h);
+		for (let i = 0; i < 80; i++) {
+			const elo = v[8]!;
+			const ehi = v[9]!;
+			const alo = v[0]!;
+			const ahi = v[1]!;
+			// Σ1 = rotr 14 ^ rotr 18 ^ rotr 41, Σ0 = rotr 28 ^ rotr 34 ^ rotr 39
+			const S1lo =
+				rotrLo(elo, ehi, 14) ^ rotrLo(elo, ehi, 18) ^ rotrLo(elo, ehi, 41);
+			const S1hi =
+				rotrHi(elo, ehi, 14) ^ rotrHi(elo, ehi, 18) ^ rotrHi(elo, ehi, 41);
+			const chlo = (elo & v[10]!) ^ (~elo & v[12]!);
+			const chhi = (ehi & v[11]!) ^ (~ehi & v[13]!);
+			const t1lo =
+				v[14]! + (S1lo >>> 0) + (chlo >>> 0) + SHA512_K[2 * i]! + w[2 * i]!;
+			const t1hi =
+				v[15]! +
+				S1hi +
+				chhi +
+				SHA512_K[2 * i + 1]! +
+				w[2 * i + 1]! +
+				Math.floor(t1lo / 0x100000000);
+			const S0lo =
+				rotrLo(alo, ahi, 28) ^ rotrLo(alo, ahi, 34) ^ rotrLo(alo, ahi, 39);
+			const S0hi =
+				rotrHi(alo, ahi, 28) ^ rotrHi(alo, ahi, 34) ^ rotrHi(alo, ahi, 39);
+			const majlo = (alo & v[2]!) ^ (alo & v[4]!) ^ (v[2]! & v[4]!);
+			const majhi = (ahi & v[3]!) ^ (ahi & v[5]!) ^ (v[3]! & v[5]!);
+			const t2lo = (S0lo >>> 0) + (majlo >>> 0);
+			const t2hi = S0hi + majhi + Math.floor(t2lo / 0x100000000);
+
+			v.copyWithin(2, 0, 14);
+			const elo2 = v[8]! + (t1lo >>> 0);
+			v[8] = elo2;
+			v[9] = v[9]! + t1hi + Math.floor(elo2 / 0x100000000);
+			const alo2 = (t1lo >>> 0) + (t2lo >>> 0);
+			v[0] = alo2;
+			v[1] = t1hi + t2hi + Math.floor(alo2 / 0x100000000);
+		}
+		for (let i = 0; i < 8; i++) {
+			const lo = h[2 * i]! + v[2 * i]!;
+			h[2 * i] = lo;
+			h[2 * i + 1] =
+				h[2 * i + 1]! + v[2 * i + 1]! + Math.floor(lo / 0x100000000);
+		}
+	}
+
+	const out = new Uint8Array(64);
+	const outView = new DataView(out.buffer);
+	for (let i = 0; i < 8; i++) {
+		outView.setUint32(8 * i, h[2 * i + 1]!);
+		outView.setUint32(8 * i + 4, h[2 * i]!);
+	}
+	return out;
+}
@@ -0,0 +1,367 @@
+import {
+	bigintByteLength,
+	bigintToBytes,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	u32be,
+	u64be,
+} from "./utils.ts";
+import { RSA_2048, RSA_3072, RSA_4096, type VDFProof } from "./vdf.ts";
+import { isRegisteredAs, lookupModulus } from "./registry.ts";
+import {
+	CHALLENGE_HASH_IDS,
+	isDefaultChallenge,
+	resolveChallengeConfig,
+	type ChallengeHash,
+	type ResolvedChallengeConfig,
+} from "./challenge.ts";
+import { ModulusRegistryError, ProofFormatError } from "./errors.ts";
+
+/**
+ * Version of the base binary proof encoding, written for unsigned proofs
+ * with the default challenge. Proofs with another challenge configuration
+ * are written as version 2 and signed proofs as version 3; `decodeProof`
+ * accepts all three.
+ */
+export const PROOF_ENCODING_VERSION = 1;
+
+/**
+ * Version of the encoding that adds a challenge configuration. Proofs
+ * with the default challenge are always encoded as version 1.
+ */
+const CHALLENGE_ENCODING_VERSION = 2;
+
+/**
+ * Version of the encoding for proofs in the signed group QR⁺_n. A flags
+ * byte follows the modulus; the challenge configuration is present when
+ * its flag is set. Unsigned proofs never use this version.
+ */
+const SIGNED_ENCODING_VERSION = 3;
+const FLAG_SIGNED = 0x01;
+const FLAG_CHALLENGE = 0x02;
+
+const HASHES_BY_ID = new Map<number, ChallengeHash>(
+	[...CHALLENGE_HASH_IDS].map(([hash, id]) => [id, hash]),
+);
+
+const NONCE_BYTES = 32;
+
+/**
+ * Modulus identifiers used in the encoding. Identifier 0 means the
+ * modulus follows explicitly as a length-prefixed big-endian integer.
+ */
+const MODULUS_EXPLICIT = 0;
+const MODULUS_IDS = new Map<bigint, number>([
+	[RSA_2048, 1],
+	[RSA_3072, 2],
+	[RSA_4096, 3],
+]);
+const MODULI_BY_ID = new Map<number, bigint>(
+	[...MODULUS_IDS].map(([n, id]) => [id, n]),
+);
+/**
+ * Identifier 0xff means the proof carries a registry identifier, which
+ * follows as a length-prefixed string; n is looked up in the registry.
+ */
+const MODULUS_REGISTERED = 0xff;
+
+/**
+ * Sequential reader over an encoded proof or other binary structure.
+ */
+export class ByteReader {
+	private readonly bytes: Uint8Array;
+	private readonly what: string;
+	private offset = 0;
+
+	constructor(bytes: Uint8Array, what = "proof encoding") {
+		this.bytes = bytes;
+		this.what = what;
+	}
+
+	get remaining(): number {
+		return this.bytes.length - this.offset;
+	}
+
+	take(len: number): Uint8Array {
+		if (len > this.remaining) {
+			throw new ProofFormatError(`${this.what} is truncated`);
+		}
+		const out = this.bytes.subarray(this.offset, this.offset + len);
+		this.offset += len;
+		return out;
+	}
+
+	u8(): number {
+		return this.take(1)[0]!;
+	}
+
+	u16(): number {
+		const b = this.take(2);
+		return (b[0]! << 8) | b[1]!;
+	}
+
+	u32(): number {
+		const b = this.take(4);
+		return ((b[0]! << 24) | (b[1]! << 16) | (b[2]! << 8) | b[3]!) >>> 0;
+	}
+
+	u64(): bigint {
+		return bytesToBigint(this.take(8));
+	}
+
+	/** Read a length-prefixed integer, rejecting leading zero bytes */
+	varBigint(what: string): bigint {
+		const len = this.u32();
+		if (len === 0) {
+			throw new ProofFormatError(`${what} has zero length`);
+		}
+		const bytes = this.take(len);
+		if (bytes[0] === 0) {
+			throw new ProofFormatError(`${what} has non-canonical padding`);
+		}
+		return bytesToBigint(bytes);
+	}
+}
+
+function checkProofRanges(proof: VDFProof): void {
+	const { x, h, t, n, pi, l, nonce, modulusId } = proof;
+
+	if (n <= 1n) {
+		throw new ProofFormatError("n must be greater than 1");
+	}
+	if (modulusId !== undefined && !isRegisteredAs(modulusId, n)) {
+		throw new ModulusRegistryError(
+			`modulus id "${modulusId}" is not registered for n`,
+		);
+	}
+	if (!Number.isSafeInteger(t) || t <= 0) {
+		throw new ProofFormatError("t must be a positive safe integer");
+	}
+	if (x <= 0n || x >= n) {
+		throw new ProofFormatError("x must be in range (0, n)");
+	}
+	if (h <= 0n || h >= n) {
+		throw new ProofFormatError("h must be in range (0, n)");
+	}
+	if (pi <= 0n || pi >= n) {
+		throw new ProofFormatError("pi must be in range (0, n)");
+	}
+	if (proof.signed && (x > n >> 1n || h > n >> 1n || pi > n >> 1n)) {
+		throw new ProofFormatError(
+			"x, h and pi must be at most (n - 1) / 2 in a signed group",
+		);
+	}
+	if (l <= 2n) {
+		throw new ProofFormatError("l must be greater than 2");
+	}
+	if (nonce.length !== NONCE_BYTES) {
+		throw new ProofFormatError("nonce must be 32 bytes");
+	}
+	resolveChallengeConfig(proof.challenge);
+}
+
+/**
+ * Encode a non-default challenge configuration:
+ * hash id (1) | bits (2) | len (1) | tag.
+ */
+function encodeChallenge(config: ResolvedChallengeConfig): Uint8Array {
+	const tag = new TextEncoder().encode(config.tag);
+	return concatBytes(
+		new Uint8Array([
+			CHALLENGE_HASH_IDS.get(config.hash)!,
+			config.bits >> 8,
+			config.bits & 0xff,
+			tag.length,
+		]),
+		tag,
+	);
+}
+
+function decodeChallenge(reader: ByteReader): ResolvedChallengeConfig {
+	const id = reader.u8();
+	const hash = HASHES_BY_ID.get(id);
+	if (hash === undefined) {
+		throw new ProofFormatError(`unknown challenge hash id ${id}`);
+	}
+	const bits = reader.u16();
+	const tagBytes = reader.take(reader.u8());
+	let tag: string;
+	try {
+		tag = new TextDecoder("utf-8", { fatal: true }).decode(tagBytes);
+	} catch {
+		throw new ProofFormatError("challenge tag is not valid UTF-8");
+	}
+	const config = resolveChallengeConfig({ hash, bits, tag });
+	if (isDefaultChallenge(config)) {
+		throw new ProofFormatError(
+			"default challenge must be encoded as version 1",
+		);
+	}
+	return config;
+}
+
+/**
+ * Encode a proof into its canonical binary form.
+ *
+ * Layout (all integers big-endian):
+ *
+ *   version (1) | modulus id (1) | [len (4) | n] | [len (1) | name] |
+ *   [flags (1)] | [hash id (1) | bits (2) | len (1) | tag] | t (8) |
+ *   x | h | pi (each bigintByteLength(n) bytes) | len (4) | l | nonce (32)
+ *
+ * The challenge configuration is only present in version 2, which is used
+ * for proofs with a non-default challenge. Signed proofs use version 3,
+ * whose flags byte marks the signed group (bit 0, always set) and the
+ * presence of a challenge configuration (bit 1).
+ *
+ * A proof carrying a modulusId is encoded with that registry identifier
+ * in place of n. Otherwise, well-known moduli are referenced by a numeric
+ * id and any other modulus is included explicitly. Every proof has exactly
+ * one valid encoding.
+ *
+ * @param proof - The proof to encode
+ * @returns Encoded bytes
+ */
+export function encodeProof(proof: VDFProof): Uint8Array {
+	checkProofRanges(proof);
+
+	const { x, h, t, n, pi, l, nonce, modulusId, challenge, signed } = proof;
+	const nLen = bigintByteLength(n);
+	const custom =
+		challenge !== undefined && !isDefaultChallenge(challenge)
+			? resolveChallengeConfig(challenge)
+			: null;
+	const lBytes = bigintToBytes(l);
+
+	let modulus: Uint8Array;
+	if (modulusId !== undefined) {
+		const name = new TextEncoder().encode(modulusId);
+		modulus = concatBytes(
+			new Uint8Array([MODULUS_REGISTERED, name.length]),
+			name,
+		);
+	} else {
+		const id = MODULUS_IDS.get(n);
+		modulus =
+			id === undefined
+				? concatBytes(
+						new Uint8Array([MODULUS_EXPLICIT]),
+						u32be(nLen),
+						bigintToBytes(n),
+					)
+				: new Uint8Array([id]);
+	}
+
+	let version = custom ? CHALLENGE_ENCODING_VERSION : PROOF_ENCODING_VERSION;
+	let flags = new Uint8Array(0);
+	if (signed) {
+		version = SIGNED_ENCODING_VERSION;
+		flags = new Uint8Array([FLAG_SIGNED | (custom ? FLAG_CHALLENGE : 0)]);
+	}
+
+	return concatBytes(
+		new Uint8Array([version]),
+		modulus,
+		flags,
+		custom ? encodeChallenge(custom) : new Uint8Array(0),
+		u64be(BigInt(t)),
+		bigintToFixedBytes(x, nLen),
+		bigintToFixedBytes(h, nLen),
+		bigintToFixedBytes(pi, nLen),
+		u32be(lBytes.length),
+		lBytes,
+		nonce,
+	);
+}
+
+/**
+ * Decode a proof from its canonical binary form.
+ *
+ * Rejects unknown versions and modulus ids, truncated input, trailing
+ * bytes, non-canonical integer padding and out-of-range values. Decoding
+ * only checks the format; use `verify` to check the proof itself.
+ *
+ * @param bytes - Encoded proof
+ * @returns Decoded proof
+ */
+export function decodeProof(bytes: Uint8Array): VDFProof {
+	const reader = new ByteReader(bytes);
+
+	const version = reader.u8();
+	if (
+		version !== PROOF_ENCODING_VERSION &&
+		version !== CHALLENGE_ENCODING_VERSION &&
+		version !== SIGNED_ENCODING_VERSION
+	) {
+		throw new ProofFormatError(`unsupported proof encoding version ${version}`);
+	}
+
+	const id = reader.u8();
+	let n: bigint;
+	let modulusId: string | undefined;
+	if (id === MODULUS_REGISTERED) {
+		// Registered identifiers are ASCII, so any other bytes fail the lookup
+		modulusId = new TextDecoder().decode(reader.take(reader.u8()));
+		const entry = lookupModulus(modulusId);
+		if (entry === undefined) {
+			throw new ModulusRegistryError(`unknown modulus id "${modulusId}"`);
+		}
+		n = entry.n;
+	} else if (id === MODULUS_EXPLICIT) {
+		n = reader.varBigint("modulus");
+		if (MODULUS_IDS.has(n)) {
+			throw new ProofFormatError("well-known modulus must be encoded by id");
+		}
+	} else {
+		const known = MODULI_BY_ID.get(id);
+		if (known === undefined) {
+			throw new ProofFormatError(`unknown modulus id ${id}`);
+		}
+		n = known;
+	}
+
+	let flags = version === CHALLENGE_ENCODING_VERSION ? FLAG_CHALLENGE : 0;
+	if (version === SIGNED_ENCODING_VERSION) {
+		flags = reader.u8();
+		if ((flags & ~(FLAG_SIGNED | FLAG_CHALLENGE)) !== 0) {
+			throw new ProofFormatError(`unknown proof encoding flags ${flags}`);
+		}
+		if ((flags & FLAG_SIGNED) === 0) {
+			throw new ProofFormatError(
+				"unsigned proof must be encoded as version 1 or 2",
+			);
+		}
+	}
+	const challenge =
+		(flags & FLAG_CHALLENGE) !== 0 ? decodeChallenge(reader) : null;
+
+	const t = reader.u64();
+	if (t > BigInt(Number.MAX_SAFE_INTEGER)) {
+		throw new ProofFormatError("t must be a positive safe integer");
+	}
+
+	const nLen = bigintByteLength(n);
+	const x = bytesToBigint(reader.take(nLen));
+	const h = bytesToBigint(reader.take(nLen));
+	const pi = bytesToBigint(reader.take(nLen));
+	const l = reader.varBigint("challenge");
+	const nonce = reader.take(NONCE_BYTES).slice();
+
+	if (reader.remaining !== 0) {
+		throw new ProofFormatError("proof encoding has trailing bytes");
+	}
+
+	const proof: VDFProof = { x, h, t: Number(t), n, pi, l, nonce };
+	if (modulusId !== undefined) {
+		proof.modulusId = modulusId;
+	}
+	if (challenge) {
+		proof.challenge = challenge;
+	}
+	if ((flags & FLAG_SIGNED) !== 0) {
+		proof.signed = true;
+	}
+	checkProofRanges(proof);
+	return proof;
+}
@@ -0,0 +1,89 @@
+/**
+ * Machine-readable codes of the errors thrown by this library. Each code
+ * belongs to one `VDFError` subclass and is stable across versions.
+ */
+export type VDFErrorCode =
+	| "INVALID_INPUT"
+	| "INVALID_PARAMS"
+	| "PROOF_FORMAT"
+	| "MODULUS_REGISTRY"
+	| "INVALID_STATE"
+	| "DECRYPTION_FAILED";
+
+/**
+ * Base class of every error thrown by this library. Catch it to handle
+ * library errors, and switch on `code` rather than on the message, which
+ * may change.
+ */
+export class VDFError extends Error {
+	public readonly code: VDFErrorCode;
+
+	constructor(code: VDFErrorCode, message: string, options?: ErrorOptions) {
+		super(message, options);
+		this.name = new.target.name;
+		this.code = code;
+	}
+}
+
+/**
+ * A value passed to a function is unusable: an input outside (0, n) or
+ * not coprime to n, an element outside its group, an integer that does
+ * not fit its encoding, or an output missing the data a function needs.
+ */
+export class InvalidInputError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("INVALID_INPUT", message, options);
+	}
+}
+
+/**
+ * Parameters or options are invalid: a modulus, t, nonce, challenge
+ * configuration or tuning option out of range, or parameters that do not
+ * match the data they are used with.
+ */
+export class InvalidParamsError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("INVALID_PARAMS", message, options);
+	}
+}
+
+/**
+ * Encoded or serialized data is malformed: a binary proof, JSON object,
+ * evaluation state or class group form that is truncated, non-canonical,
+ * of an unknown version or holding out-of-range values.
+ */
+export class ProofFormatError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("PROOF_FORMAT", message, options);
+	}
+}
+
+/**
+ * A modulus identifier is unknown, not registered for the given modulus,
+ * or conflicts with an existing registration.
+ */
+export class ModulusRegistryError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("MODULUS_REGISTRY", message, options);
+	}
+}
+
+/**
+ * A saved evaluation or proof state does not belong to the computation it
+ * is resumed with, or fails its integrity check.
+ */
+export class InvalidStateError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("INVALID_STATE", message, options);
+	}
+}
+
+/**
+ * A time-lock puzzle could not be opened: the ciphertext was tampered
+ * with or the puzzle parameters are wrong.
+ */
+export class DecryptionError extends VDFError {
+	constructor(message: string, options?: ErrorOptions) {
+		super("DECRYPTION_FAILED", message, options);
+	}
+}
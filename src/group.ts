@@ -0,0 +1,267 @@
+import {
+	gcd,
+	modpow,
+	modpowProduct,
+	bigintByteLength,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	MontgomeryReducer,
+	PRECOMPUTED_MONTGOMERY,
+} from "./utils.ts";
+import { registeredReducer } from "./registry.ts";
+import { InvalidParamsError, ProofFormatError } from "./errors.ts";
+
+/**
+ * A group of unknown order in which the VDF is evaluated.
+ *
+ * Elements are opaque values of type E; implementations may use any
+ * internal representation as long as equal elements compare equal with
+ * `equals` and encode to the same bytes.
+ */
+export interface Group<E> {
+	/** Byte length of an encoded element */
+	readonly elementByteLength: number;
+	/** Identity element */
+	identity(): E;
+	/** Group operation a · b */
+	multiply(a: E, b: E): E;
+	/** a² */
+	square(a: E): E;
+	/** a^(2^k), by k sequential squarings */
+	repeatedSquare(a: E, k: number): E;
+	/** a^e for a non-negative exponent e */
+	pow(a: E, e: bigint): E;
+	/** a^e · b^f for non-negative exponents e and f */
+	powProduct(a: E, e: bigint, b: E, f: bigint): E;
+	/** Element equality */
+	equals(a: E, b: E): boolean;
+	/** Check that a value is a valid, canonical element of the group */
+	isElement(a: E): boolean;
+	/** Canonical fixed-width encoding of an element */
+	encode(a: E): Uint8Array;
+	/** Decode an element, throwing if the bytes are not a canonical encoding */
+	decode(bytes: Uint8Array): E;
+	/** Canonical description of the group, bound into challenge transcripts */
+	transcript(): Uint8Array;
+}
+
+const MONTGOMERY_THRESHOLD_T = 1000;
+const MONTGOMERY_THRESHOLD_N_BITS = 1024;
+
+const montgomeryCache = new Map<bigint, MontgomeryReducer>();
+
+/** Reducer precomputed for n, either built in or by `registerModulus` */
+function precomputedReducer(n: bigint): MontgomeryReducer | undefined {
+	return PRECOMPUTED_MONTGOMERY.get(n) ?? registeredReducer(n);
+}
+
+function getMontgomeryReducer(n: bigint): MontgomeryReducer {
+	let reducer = precomputedReducer(n);
+	if (reducer) return reducer;
+
+	reducer = montgomeryCache.get(n);
+	if (!reducer) {
+		reducer = new MontgomeryReducer(n);
+		if (montgomeryCache.size < 10) {
+			montgomeryCache.set(n, reducer);
+		}
+	}
+	return reducer;
+}
+
+function shouldUseMontgomery(n: bigint, t: number): boolean {
+	if (precomputedReducer(n)) {
+		return t >= 100;
+	}
+	if (t < MONTGOMERY_THRESHOLD_T) {
+		return false;
+	}
+	if ((n & 1n) === 0n) {
+		return false;
+	}
+	const nBits = bigintByteLength(n) * 8;
+	return nBits >= MONTGOMERY_THRESHOLD_N_BITS;
+}
+
+export interface RSAGroupOptions {
+	/** Keep elements in Montgomery form internally (requires odd n) */
+	montgomery?: boolean;
+	/** Group description for challenge transcripts (default: n) */
+	transcript?: Uint8Array;
+	/**
+	 * Work in the signed quotient group QR⁺_n = Z*_n / {±1}, where v and
+	 * n - v are the same element, represented by min(v, n - v)
+	 */
+	signed?: boolean;
+}
+
+/** Appended to the transcript of a signed group */
+const SIGNED_TRANSCRIPT_TAG = new TextEncoder().encode("signed-v1");
+
+/**
+ * The multiplicative group Z*_n of an RSA modulus n.
+ *
+ * With `montgomery: true`, elements are held in Montgomery form so that
+ * long chains of squarings and multiplications avoid a division per step;
+ * use `fromBigint` / `toBigint` to convert at the boundary. Encodings are
+ * always of the normal-form residue, so both variants agree on the bytes.
+ *
+ * With `signed: true`, the group is Z*_n / {±1}, in which -1 no longer
+ * has order 2. Intermediate values may be either representative of ±v;
+ * `toBigint`, `encode` and `equals` use the canonical one, min(v, n - v),
+ * and `isElement` and `decode` accept only canonical values.
+ */
+export class RSAGroup implements Group<bigint> {
+	public readonly n: bigint;
+	public readonly elementByteLength: number;
+	private readonly mont: MontgomeryReducer | null;
+	private readonly description: Uint8Array | null;
+	public readonly signed: boolean;
+
+	constructor(n: bigint, options: RSAGroupOptions = {}) {
+		if (n <= 1n) {
+			throw new InvalidParamsError("n must be greater than 1");
+		}
+		if (options.montgomery && (n & 1n) === 0n) {
+			throw new InvalidParamsError("Montgomery form requires an odd modulus");
+		}
+		this.n = n;
+		this.elementByteLength = bigintByteLength(n);
+		this.mont = options.montgomery ? getMontgomeryReducer(n) : null;
+		this.description = options.transcript ?? null;
+		this.signed = options.signed ?? false;
+	}
+
+	/** Canonical representative min(v, n - v) of ±v in a signed group */
+	canonical(v: bigint): bigint {
+		return this.signed && v > this.n >> 1n ? this.n - v : v;
+	}
+
+	/** Convert a residue in [0, n) to the internal representation */
+	fromBigint(x: bigint): bigint {
+		return this.mont ? this.mont.toMontgomery(x) : x;
+	}
+
+	/**
+	 * Convert an element from the internal representation to a residue,
+	 * canonical in a signed group
+	 */
+	toBigint(a: bigint): bigint {
+		return this.canonical(this.mont ? this.mont.fromMontgomery(a) : a);
+	}
+
+	identity(): bigint {
+		return this.fromBigint(1n);
+	}
+
+	multiply(a: bigint, b: bigint): bigint {
+		return this.mont ? this.mont.multiply(a, b) : (a * b) % this.n;
+	}
+
+	square(a: bigint): bigint {
+		return this.mont ? this.mont.square(a) : (a * a) % this.n;
+	}
+
+	repeatedSquare(a: bigint, k: number): bigint {
+		const mont = this.mont;
+		if (mont) {
+			const rMask = mont.rMask;
+			const nPrime = mont.nPrime;
+			const rBits = mont.rBitsBigint;
+			const modN = mont.n;
+
+			let h = a;
+			for (let i = 0; i < k; i++) {
+				const prod = h * h;
+				const m = ((prod & rMask) * nPrime) & rMask;
+				const u = (prod + m * modN) >> rBits;
+				h = u >= modN ? u - modN : u;
+			}
+			return h;
+		}
+
+		const n = this.n;
+		let h = a;
+		for (let i = 0; i < k; i++) {
+			h = (h * h) % n;
+		}
+		return h;
+	}
+
+	pow(a: bigint, e: bigint): bigint {
+		return this.fromBigint(modpow(this.toBigint(a), e, this.n));
+	}
+
+	powProduct(a: bigint, e: bigint, b: bigint, f: bigint): bigint {
+		return this.fromBigint(
+			modpowProduct(this.toBigint(a), e, this.toBigint(b), f, this.n),
+		);
+	}
+
+	equals(a: bigint, b: bigint): boolean {
+		// Negation commutes with the Montgomery map, so this holds in both forms
+		return a === b || (this.signed && a + b === this.n);
+	}
+
+	isElement(a: bigint): boolean {
+		if (a <= 0n || a >= this.n) {
+			return false;
+		}
+		if (this.signed) {
+			const v = this.mont ? this.mont.fromMontgomery(a) : a;
+			if (v !== this.canonical(v)) {
+				return false;
+			}
+		}
+		return gcd(a, this.n) === 1n;
+	}
+
+	encode(a: bigint): Uint8Array {
+		return bigintToFixedBytes(this.toBigint(a), this.elementByteLength);
+	}
+
+	decode(bytes: Uint8Array): bigint {
+		if (bytes.length !== this.elementByteLength) {
+			throw new ProofFormatError("encoded element has wrong length");
+		}
+		const x = bytesToBigint(bytes);
+		if (x >= this.n) {
+			throw new ProofFormatError("encoded element must be less than n");
+		}
+		if (x !== this.canonical(x)) {
+			throw new ProofFormatError(
+				"encoded element must be at most (n - 1) / 2 in a signed group",
+			);
+		}
+		return this.fromBigint(x);
+	}
+
+	transcript(): Uint8Array {
+		const description =
+			this.description ?? bigintToFixedBytes(this.n, this.elementByteLength);
+		return this.signed
+			? concatBytes(description, SIGNED_TRANSCRIPT_TAG)
+			: description;
+	}
+}
+
+/**
+ * Get the RSA group best suited for t sequential operations modulo n:
+ * Montgomery form for large moduli and long chains, plain residues otherwise.
+ *
+ * @param n - RSA modulus
+ * @param t - Number of sequential operations planned
+ * @param options - Transcript and signed group selection
+ * @returns RSA group
+ */
+export function rsaGroupFor(
+	n: bigint,
+	t: number,
+	options: Omit<RSAGroupOptions, "montgomery"> = {},
+): RSAGroup {
+	return new RSAGroup(n, {
+		...options,
+		montgomery: shouldUseMontgomery(n, t),
+	});
+}
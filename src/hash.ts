@@ -0,0 +1,107 @@
+import {
+	gcd,
+	bigintByteLength,
+	bytesToBigint,
+	concatBytes,
+	u32be,
+} from "./utils.ts";
+import { sha512 } from "./digest.ts";
+import { InvalidParamsError } from "./errors.ts";
+
+const HASH_TO_GROUP_TAG = new TextEncoder().encode("wesolowski-h2g-v1");
+
+/**
+ * Extra bytes drawn beyond the modulus length so that the reduction
+ * modulo n has a statistical bias of at most 2^-128.
+ */
+const HASH_TO_GROUP_EXTRA_BYTES = 16;
+
+const HASH_TO_GROUP_MAX_ATTEMPTS = 256;
+
+const SHA512_BYTES = 64;
+
+export interface HashToGroupOptions {
+	/** Domain-separation tag (at most 255 bytes, default: empty) */
+	domain?: string | Uint8Array;
+}
+
+/**
+ * Expand a message to an arbitrary number of bytes with SHA-512 in
+ * counter mode.
+ *
+ * Block i is SHA-512(u32be(i) || message); blocks are concatenated and
+ * truncated to the requested length.
+ *
+ * @param message - Input message
+ * @param length - Number of output bytes
+ * @returns Expanded bytes
+ */
+export async function expandSha512(
+	message: Uint8Array,
+	length: number,
+): Promise<Uint8Array> {
+	if (!Number.isInteger(length) || length < 0) {
+		throw new InvalidParamsError("length must be a non-negative integer");
+	}
+
+	const blocks = Math.ceil(length / SHA512_BYTES);
+	const out = new Uint8Array(blocks * SHA512_BYTES);
+	for (let i = 0; i < blocks; i++) {
+		out.set(sha512(concatBytes(u32be(i), message)), i * SHA512_BYTES);
+	}
+	return out.subarray(0, length);
+}
+
+function encodeDomain(domain: string | Uint8Array | undefined): Uint8Array {
+	if (domain === undefined) return new Uint8Array(0);
+	const bytes =
+		typeof domain === "string" ? new TextEncoder().encode(domain) : domain;
+	if (bytes.length > 255) {
+		throw new InvalidParamsError("domain must be at most 255 bytes");
+	}
+	return bytes;
+}
+
+/**
+ * Map arbitrary seed bytes to an element of Z*_n.
+ *
+ * The seed is expanded with SHA-512 in counter mode to 128 bits more than
+ * the modulus and reduced modulo n, giving a distribution that is
+ * statistically indistinguishable from uniform. Candidates that are not
+ * coprime to n, or that are one of the trivial elements 0, 1 and n-1, are
+ * rejected and the next attempt counter is used.
+ *
+ * @param seed - Arbitrary seed bytes (e.g. a block hash)
+ * @param n - RSA modulus
+ * @param options - Configuration options
+ * @returns Group element x in (1, n-1), coprime to n
+ */
+export async function hashToGroup(
+	seed: Uint8Array,
+	n: bigint,
+	options: HashToGroupOptions = {},
+): Promise<bigint> {
+	if (n <= 3n) {
+		throw new InvalidParamsError("n must be greater than 3");
+	}
+
+	const domain = encodeDomain(options.domain);
+	const len = bigintByteLength(n) + HASH_TO_GROUP_EXTRA_BYTES;
+	const nMinus1 = n - 1n;
+
+	for (let attempt = 0; attempt < HASH_TO_GROUP_MAX_ATTEMPTS; attempt++) {
+		const message = concatBytes(
+			HASH_TO_GROUP_TAG,
+			new Uint8Array([domain.length]),
+			domain,
+			u32be(attempt),
+			seed,
+		);
+		const x = bytesToBigint(await expandSha512(message, len)) % n;
+		if (x > 1n && x < nMinus1 && gcd(x, n) === 1n) {
+			return x;
+		}
+	}
+
+	throw new InvalidParamsError("failed to map seed to a group element");
+}
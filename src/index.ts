@@ -30,20 +30,249 @@ export {
 	generateProof,
 	verify,
 	verifyWithChallenge,
+	deriveChallengeSync,
+	generateProofSync,
+	verifyWithChallengeSync,
+	verifyDetailed,
+	verifyDetailedSync,
+	evaluateFromSeed,
+	verifyFromSeed,
 	RSA_2048,
 	RSA_3072,
 	RSA_4096,
+	evaluateInGroup,
+	deriveChallengeInGroup,
+	proveInGroup,
+	generateProofInGroup,
+	verifyInGroup,
+	verifyWithChallengeInGroup,
+	deriveChallengeInGroupSync,
+	generateProofInGroupSync,
+	verifyWithChallengeInGroupSync,
 	type VDFParams,
 	type VDFOutput,
 	type VDFProof,
+	type VerifyOptions,
+	type VerifyDetailedOptions,
+	type VerifyCode,
+	type VerifyResult,
+	type GroupOutput,
+	type GroupProof,
 } from "./vdf.ts";
 
+// Error hierarchy
+export {
+	VDFError,
+	InvalidInputError,
+	InvalidParamsError,
+	ProofFormatError,
+	ModulusRegistryError,
+	InvalidStateError,
+	DecryptionError,
+	type VDFErrorCode,
+} from "./errors.ts";
+
+// Challenge configuration
+export {
+	resolveChallengeConfig,
+	sameChallengeConfig,
+	DEFAULT_CHALLENGE,
+	type ChallengeConfig,
+	type ChallengeHash,
+	type ResolvedChallengeConfig,
+} from "./challenge.ts";
+
+// Pure TypeScript hash functions
+export { sha256, sha512, sha3_256, blake2b } from "./digest.ts";
+
+// Wall-clock calibration
+export {
+	calibrate,
+	tForDuration,
+	estimateDuration,
+	type CalibrateOptions,
+	type Calibration,
+	type DurationOptions,
+	type DurationEstimate,
+} from "./calibrate.ts";
+
+// Randomness beacon
+export {
+	Beacon,
+	commitContribution,
+	verifyBeaconChain,
+	type BeaconParams,
+	type BeaconRound,
+	type BeaconNextOptions,
+} from "./beacon.ts";
+
+// Trapdoor evaluation (factorization known)
+export {
+	evaluateWithTrapdoor,
+	proveWithTrapdoor,
+	type TrapdoorParams,
+} from "./trapdoor.ts";
+
+// Modulus registry
+export {
+	registerModulus,
+	lookupModulus,
+	resolveModulus,
+	modulusIdOf,
+	modulusParams,
+	modulusFingerprint,
+	type RegisteredModulus,
+} from "./registry.ts";
+
+// RSA modulus generation
+export {
+	generateModulus,
+	deriveModulusFromSeed,
+	type RSAModulus,
+	type ModulusOptions,
+	type DeriveModulusOptions,
+} from "./modulus.ts";
+
+// Time-lock puzzles
+export {
+	createTimeLockPuzzle,
+	solveTimeLockPuzzle,
+	type TimeLockParams,
+	type TimeLockPuzzle,
+	type SolveTimeLockOptions,
+	type TimeLockSolution,
+} from "./timelock.ts";
+
+// Group abstraction
+export {
+	RSAGroup,
+	rsaGroupFor,
+	type Group,
+	type RSAGroupOptions,
+} from "./group.ts";
+
+// Non-blocking evaluation with progress and cancellation
+export {
+	evaluateAsync,
+	proveAsync,
+	generateProofAsync,
+	evaluateInGroupAsync,
+	proveInGroupAsync,
+	type AsyncOptions,
+	type VDFProgress,
+} from "./async.ts";
+
+// Resumable evaluation and proving
+export {
+	evaluateResumable,
+	proveResumable,
+	encodeState,
+	decodeState,
+	STATE_ENCODING_VERSION,
+	type EvaluationState,
+	type ProofState,
+	type VDFState,
+	type ResumableOptions,
+} from "./resumable.ts";
+
+// Checkpointed evaluation and fast proving
+export {
+	evaluateWithCheckpoints,
+	proveFromCheckpoints,
+	evaluateWithCheckpointsInGroup,
+	proveFromCheckpointsInGroup,
+	type CheckpointOptions,
+	type Checkpoints,
+	type CheckpointedOutput,
+	type CheckpointedGroupOutput,
+} from "./checkpoints.ts";
+
+// Parallel proving
+export { proveParallel, type ParallelProveOptions } from "./parallel.ts";
+
+// Batch verification
+export {
+	verifyBatch,
+	type BatchVerifyOptions,
+	type BatchVerifyResult,
+} from "./batch.ts";
+
+// Aggregated proofs
+export {
+	aggregateProve,
+	aggregateVerify,
+	type AggregateProof,
+} from "./aggregate.ts";
+
+// Pietrzak proofs
+export {
+	provePietrzak,
+	verifyPietrzak,
+	pietrzakRounds,
+	type PietrzakProof,
+	type PietrzakProveOptions,
+} from "./pietrzak.ts";
+
+// Class group (trustless setup) backend
+export {
+	ClassGroup,
+	createDiscriminant,
+	classGroupGenerator,
+	identityForm,
+	formDiscriminant,
+	reduceForm,
+	isReducedForm,
+	isClassGroupElement,
+	composeForms,
+	squareForm,
+	powForm,
+	encodeForm,
+	decodeForm,
+	evaluateClassGroup,
+	deriveClassGroupChallenge,
+	proveClassGroup,
+	generateClassGroupProof,
+	verifyClassGroup,
+	verifyClassGroupWithChallenge,
+	type QuadraticForm,
+	type ClassGroupParams,
+	type ClassGroupOutput,
+	type ClassGroupProof,
+} from "./classgroup.ts";
+
+// Binary proof encoding
+export {
+	encodeProof,
+	decodeProof,
+	PROOF_ENCODING_VERSION,
+} from "./encoding.ts";
+
+// JSON proof serialization
+export {
+	proofToJSON,
+	proofFromJSON,
+	outputToJSON,
+	outputFromJSON,
+	puzzleToJSON,
+	puzzleFromJSON,
+	JSON_FORMAT_VERSION,
+	type VDFOutputJSON,
+	type VDFProofJSON,
+	type TimeLockPuzzleJSON,
+} from "./json.ts";
+
+// Hash-to-group input mapping
+export { hashToGroup, expandSha512, type HashToGroupOptions } from "./hash.ts";
+
 // Prime utilities (for advanced usage)
 export {
 	isPrime,
 	getPrime,
 	nextPrime,
 	type IsPrimeOptions,
+	type PrimalityTest,
+	type PrimeSearchOptions,
+	type NextPrimeOptions,
 	type GetPrimeOptions,
 } from "./prime.ts";
 
@@ -52,6 +281,9 @@ export {
 	modpow,
 	modpowProduct,
 	gcd,
+	extendedGcd,
+	modInverse,
+	isqrt,
 	bigintToBytes,
 	bytesToBigint,
 	bigintByteLength,
@@ -60,4 +292,5 @@ export {
 	concatBytes,
 	u32be,
 	u64be,
+	crc32,
 } from "./utils.ts";
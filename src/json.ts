@@ -0,0 +1,435 @@
+import type { VDFOutput, VDFProof } from "./vdf.ts";
+import { lookupModulus } from "./registry.ts";
+import {
+	isDefaultChallenge,
+	resolveChallengeConfig,
+	type ChallengeHash,
+	type ResolvedChallengeConfig,
+} from "./challenge.ts";
+import { TIMELOCK_IV_BYTES, type TimeLockPuzzle } from "./timelock.ts";
+import { ModulusRegistryError, ProofFormatError } from "./errors.ts";
+
+/** Current version of the JSON proof and output format */
+export const JSON_FORMAT_VERSION = 1;
+
+const NONCE_BYTES = 32;
+
+const AES_GCM_TAG_BYTES = 16;
+
+const HEX_INTEGER = /^(0|[1-9a-f][0-9a-f]*)$/;
+const HEX_BYTES = /^([0-9a-f]{2})*$/;
+
+/**
+ * JSON representation of a VDF output. Integers are lowercase hex
+ * strings without prefix or leading zeros. Outputs with a registered
+ * modulus identifier carry `modulusId` instead of `n`.
+ */
+export interface VDFOutputJSON {
+	version: number;
+	x: string;
+	h: string;
+	t: number;
+	n?: string;
+	modulusId?: string;
+	/** Challenge configuration, present only when it is not the default */
+	challenge?: ResolvedChallengeConfig;
+	/** true for outputs in the signed group QR⁺_n, absent otherwise */
+	signed?: boolean;
+}
+
+/**
+ * JSON representation of a VDF proof. The nonce is a 64-character
+ * lowercase hex string.
+ */
+export interface VDFProofJSON extends VDFOutputJSON {
+	pi: string;
+	l: string;
+	nonce: string;
+}
+
+/**
+ * JSON representation of a time-lock puzzle. The IV and ciphertext are
+ * lowercase hex strings.
+ */
+export interface TimeLockPuzzleJSON {
+	version: number;
+	n: string;
+	t: number;
+	x: string;
+	iv: string;
+	ciphertext: string;
+}
+
+const OUTPUT_FIELDS = ["version", "x", "h", "t", "n"];
+const PROOF_FIELDS = [...OUTPUT_FIELDS, "pi", "l", "nonce"];
+const PUZZLE_FIELDS = ["version", "n", "t", "x", "iv", "ciphertext"];
+
+function toHex(x: bigint): string {
+	return x.toString(16);
+}
+
+function parseJSON(text: string, what: string): unknown {
+	try {
+		return JSON.parse(text);
+	} catch (e) {
+		throw new ProofFormatError(`${what}: invalid JSON`, { cause: e });
+	}
+}
+
+function toObject(value: unknown, what: string): Record<string, unknown> {
+	const parsed = typeof value === "string" ? parseJSON(value, what) : value;
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+		throw new ProofFormatError(`${what} must be a JSON object`);
+	}
+	return parsed as Record<string, unknown>;
+}
+
+function checkFields(
+	obj: Record<string, unknown>,
+	fields: string[],
+	what: string,
+): void {
+	for (const key of Object.keys(obj)) {
+		if (!fields.includes(key)) {
+			throw new ProofFormatError(`${what} has unexpected field "${key}"`);
+		}
+	}
+	for (const key of fields) {
+		if (!(key in obj)) {
+			throw new ProofFormatError(`${what} is missing field "${key}"`);
+		}
+	}
+	if (obj.version !== JSON_FORMAT_VERSION) {
+		throw new ProofFormatError(
+			`${what} has unsupported version ${JSON.stringify(obj.version)}`,
+		);
+	}
+}
+
+function parseHexInteger(
+	obj: Record<string, unknown>,
+	key: string,
+	what: string,
+): bigint {
+	const value = obj[key];
+	if (typeof value !== "string" || !HEX_INTEGER.test(value)) {
+		throw new ProofFormatError(
+			`${what} field "${key}" must be a lowercase hex integer without leading zeros`,
+		);
+	}
+	return BigInt(`0x${value}`);
+}
+
+function parseElement(
+	obj: Record<string, unknown>,
+	key: string,
+	n: bigint,
+	what: string,
+): bigint {
+	const value = parseHexInteger(obj, key, what);
+	if (value <= 0n || value >= n) {
+		throw new ProofFormatError(
+			`${what} field "${key}" must be in range (0, n)`,
+		);
+	}
+	return value;
+}
+
+function parseModulus(obj: Record<string, unknown>, what: string): bigint {
+	const n = parseHexInteger(obj, "n", what);
+	if (n <= 1n) {
+		throw new ProofFormatError(`${what} field "n" must be greater than 1`);
+	}
+	return n;
+}
+
+function parseT(obj: Record<string, unknown>, what: string): number {
+	const t = obj.t;
+	if (typeof t !== "number" || !Number.isSafeInteger(t) || t <= 0) {
+		throw new ProofFormatError(
+			`${what} field "t" must be a positive safe integer`,
+		);
+	}
+	return t;
+}
+
+function parseHexBytes(
+	obj: Record<string, unknown>,
+	key: string,
+	what: string,
+): Uint8Array {
+	const value = obj[key];
+	if (typeof value !== "string" || !HEX_BYTES.test(value)) {
+		throw new ProofFormatError(
+			`${what} field "${key}" must be a lowercase hex string`,
+		);
+	}
+	return new Uint8Array(Buffer.from(value, "hex"));
+}
+
+/**
+ * Expected fields of an output or proof object, with `modulusId` in place
+ * of `n` when the object references a registered modulus, and the
+ * optional `challenge` and `signed`.
+ */
+function outputFields(
+	obj: Record<string, unknown>,
+	fields: string[],
+): string[] {
+	const expected =
+		"modulusId" in obj
+			? fields.map((key) => (key === "n" ? "modulusId" : key))
+			: fields;
+	return [...expected, ...["challenge", "signed"].filter((key) => key in obj)];
+}
+
+function parseChallenge(
+	obj: Record<string, unknown>,
+	what: string,
+): ResolvedChallengeConfig {
+	const value = obj.challenge;
+	const field = `${what} field "challenge"`;
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		throw new ProofFormatError(`${field} must be an object`);
+	}
+	const { hash, bits, tag, ...rest } = value as Record<string, unknown>;
+	const unexpected = Object.keys(rest)[0];
+	if (unexpected !== undefined) {
+		throw new ProofFormatError(`${field} has unexpected key "${unexpected}"`);
+	}
+	if (
+		typeof hash !== "string" ||
+		typeof bits !== "number" ||
+		typeof tag !== "string"
+	) {
+		throw new ProofFormatError(
+			`${field} must have a string hash, a number bits and a string tag`,
+		);
+	}
+	try {
+		return resolveChallengeConfig({ hash: hash as ChallengeHash, bits, tag });
+	} catch (e) {
+		throw new ProofFormatError(`${field} is invalid: ${(e as Error).message}`, {
+			cause: e,
+		});
+	}
+}
+
+function parseOutput(obj: Record<string, unknown>, what: string): VDFOutput {
+	const output = parseOutputModulus(obj, what);
+	if ("challenge" in obj) {
+		const challenge = parseChallenge(obj, what);
+		if (isDefaultChallenge(challenge)) {
+			throw new ProofFormatError(
+				`${what} field "challenge" must be omitted for the default configuration`,
+			);
+		}
+		output.challenge = challenge;
+	}
+	if ("signed" in obj) {
+		if (obj.signed !== true) {
+			throw new ProofFormatError(
+				`${what} field "signed" must be true when present`,
+			);
+		}
+		output.signed = true;
+		checkSignedElement(output.x, output.n, "x", what);
+		checkSignedElement(output.h, output.n, "h", what);
+	}
+	return output;
+}
+
+/** Elements of a signed group must be canonical: at most (n - 1) / 2 */
+function checkSignedElement(
+	value: bigint,
+	n: bigint,
+	key: string,
+	what: string,
+): void {
+	if (value > n >> 1n) {
+		throw new ProofFormatError(
+			`${what} field "${key}" must be at most (n - 1) / 2 in a signed group`,
+		);
+	}
+}
+
+function parseOutputModulus(
+	obj: Record<string, unknown>,
+	what: string,
+): VDFOutput {
+	if ("modulusId" in obj) {
+		const modulusId = obj.modulusId;
+		if (typeof modulusId !== "string") {
+			throw new ProofFormatError(`${what} field "modulusId" must be a string`);
+		}
+		const entry = lookupModulus(modulusId);
+		if (entry === undefined) {
+			throw new ModulusRegistryError(
+				`${what} field "modulusId" refers to an unknown modulus "${modulusId}"`,
+			);
+		}
+		return { ...parseOutputWithModulus(obj, entry.n, what), modulusId };
+	}
+	return parseOutputWithModulus(obj, parseModulus(obj, what), what);
+}
+
+function parseOutputWithModulus(
+	obj: Record<string, unknown>,
+	n: bigint,
+	what: string,
+): VDFOutput {
+	const t = parseT(obj, what);
+
+	return {
+		x: parseElement(obj, "x", n, what),
+		h: parseElement(obj, "h", n, what),
+		t,
+		n,
+	};
+}
+
+/**
+ * Convert a VDF output to a JSON-compatible object.
+ *
+ * @param output - VDF output
+ * @returns Object that can be passed to `JSON.stringify`
+ */
+export function outputToJSON(output: VDFOutput): VDFOutputJSON {
+	const json: VDFOutputJSON = {
+		version: JSON_FORMAT_VERSION,
+		x: toHex(output.x),
+		h: toHex(output.h),
+		t: output.t,
+	};
+	if (output.modulusId !== undefined) {
+		json.modulusId = output.modulusId;
+	} else {
+		json.n = toHex(output.n);
+	}
+	if (output.challenge !== undefined && !isDefaultChallenge(output.challenge)) {
+		json.challenge = resolveChallengeConfig(output.challenge);
+	}
+	if (output.signed) {
+		json.signed = true;
+	}
+	return json;
+}
+
+/**
+ * Parse and validate a VDF output from its JSON representation.
+ *
+ * Rejects unknown or missing fields, unsupported versions, non-canonical
+ * hex, unknown modulus identifiers, invalid challenge configurations,
+ * values outside (0, n), non-canonical values of a signed output and
+ * non-positive or unsafe t. A `challenge` equal to the default and a
+ * `signed` other than true are rejected as well, so that every output has
+ * a single JSON form.
+ *
+ * @param json - JSON string or already-parsed object
+ * @returns VDF output
+ */
+export function outputFromJSON(json: unknown): VDFOutput {
+	const what = "VDF output";
+	const obj = toObject(json, what);
+	checkFields(obj, outputFields(obj, OUTPUT_FIELDS), what);
+	return parseOutput(obj, what);
+}
+
+/**
+ * Convert a VDF proof to a JSON-compatible object.
+ *
+ * @param proof - VDF proof
+ * @returns Object that can be passed to `JSON.stringify`
+ */
+export function proofToJSON(proof: VDFProof): VDFProofJSON {
+	return {
+		...outputToJSON(proof),
+		pi: toHex(proof.pi),
+		l: toHex(proof.l),
+		nonce: Buffer.from(proof.nonce).toString("hex"),
+	};
+}
+
+/**
+ * Parse and validate a VDF proof from its JSON representation.
+ *
+ * Performs the same checks as `outputFromJSON`, and additionally requires
+ * 0 < pi < n, l > 2 and a 32-byte nonce. Parsing only checks the format;
+ * use `verify` to check the proof itself.
+ *
+ * @param json - JSON string or already-parsed object
+ * @returns VDF proof
+ */
+export function proofFromJSON(json: unknown): VDFProof {
+	const what = "VDF proof";
+	const obj = toObject(json, what);
+	checkFields(obj, outputFields(obj, PROOF_FIELDS), what);
+
+	const output = parseOutput(obj, what);
+	const pi = parseElement(obj, "pi", output.n, what);
+	if (output.signed) {
+		checkSignedElement(pi, output.n, "pi", what);
+	}
+
+	const l = parseHexInteger(obj, "l", what);
+	if (l <= 2n) {
+		throw new ProofFormatError(`${what} field "l" must be greater than 2`);
+	}
+
+	const nonce = parseHexBytes(obj, "nonce", what);
+	if (nonce.length !== NONCE_BYTES) {
+		throw new ProofFormatError(`${what} field "nonce" must be 32 bytes`);
+	}
+
+	return { ...output, pi, l, nonce };
+}
+
+/**
+ * Convert a time-lock puzzle to a JSON-compatible object.
+ *
+ * @param puzzle - Time-lock puzzle
+ * @returns Object that can be passed to `JSON.stringify`
+ */
+export function puzzleToJSON(puzzle: TimeLockPuzzle): TimeLockPuzzleJSON {
+	return {
+		version: JSON_FORMAT_VERSION,
+		n: toHex(puzzle.n),
+		t: puzzle.t,
+		x: toHex(puzzle.x),
+		iv: Buffer.from(puzzle.iv).toString("hex"),
+		ciphertext: Buffer.from(puzzle.ciphertext).toString("hex"),
+	};
+}
+
+/**
+ * Parse and validate a time-lock puzzle from its JSON representation.
+ *
+ * Performs the same field, version and hex checks as `outputFromJSON`,
+ * and additionally requires a 12-byte IV and a ciphertext of at least
+ * 16 bytes (the AES-GCM tag).
+ *
+ * @param json - JSON string or already-parsed object
+ * @returns Time-lock puzzle
+ */
+export function puzzleFromJSON(json: unknown): TimeLockPuzzle {
+	const what = "time-lock puzzle";
+	const obj = toObject(json, what);
+	checkFields(obj, PUZZLE_FIELDS, what);
+
+	const n = parseModulus(obj, what);
+	const t = parseT(obj, what);
+	const x = parseElement(obj, "x", n, what);
+
+	const iv = parseHexBytes(obj, "iv", what);
+	if (iv.length !== TIMELOCK_IV_BYTES) {
+		throw new ProofFormatError(`${what} field "iv" must be 12 bytes`);
+	}
+	const ciphertext = parseHexBytes(obj, "ciphertext", what);
+	if (ciphertext.length < AES_GCM_TAG_BYTES) {
+		throw new ProofFormatError(
+			`${what} field "ciphertext" must be at least 16 bytes`,
+		);
+	}
+
+	return { n, t, x, iv, ciphertext };
+}
@@ -0,0 +1,154 @@
+import { bigintBitLength, bytesToBigint, concatBytes } from "./utils.ts";
+import { sha512 } from "./digest.ts";
+import { getPrime, nextPrime } from "./prime.ts";
+import { InvalidParamsError } from "./errors.ts";
+
+const SHA512_BYTES = 64;
+
+/**
+ * An RSA modulus together with its factorization.
+ */
+export interface RSAModulus {
+	/** Modulus n = p·q */
+	n: bigint;
+	/** First prime factor */
+	p: bigint;
+	/** Second prime factor */
+	q: bigint;
+}
+
+export interface ModulusOptions {
+	/** Bit length of n, a multiple of 16 (default: 2048) */
+	bits?: number;
+	/** Use safe primes p = 2p' + 1 with p' prime (default: false) */
+	safePrimes?: boolean;
+	/** Derive the primes from this seed instead of randomly */
+	seed?: string | Uint8Array;
+}
+
+export interface DeriveModulusOptions {
+	/** Use safe primes p = 2p' + 1 with p' prime (default: false) */
+	safePrimes?: boolean;
+}
+
+function checkBits(bits: number): void {
+	if (!Number.isSafeInteger(bits) || bits < 64 || bits % 16 !== 0) {
+		throw new InvalidParamsError(
+			"bits must be a multiple of 16 and at least 64",
+		);
+	}
+}
+
+/**
+ * Expand (seed, label) to `length` bytes: the concatenation of
+ * SHA-512(seed || ":" || label || ":" || i) for i = 0, 1, ..., with i in
+ * decimal, truncated to `length`.
+ */
+function expandSeed(
+	seed: Uint8Array,
+	label: string,
+	length: number,
+): Uint8Array {
+	const encoder = new TextEncoder();
+	const blocks = Math.ceil(length / SHA512_BYTES);
+	const out = new Uint8Array(blocks * SHA512_BYTES);
+	for (let i = 0; i < blocks; i++) {
+		const digest = sha512(concatBytes(seed, encoder.encode(`:${label}:${i}`)));
+		out.set(digest, i * SHA512_BYTES);
+	}
+	return out.subarray(0, length);
+}
+
+/**
+ * Derive a prime of `bits` bits from (seed, label): the expanded bytes with
+ * the top and low bits set, rounded up to the next (safe) prime.
+ */
+async function derivePrime(
+	seed: Uint8Array,
+	label: string,
+	bits: number,
+	safePrimes: boolean,
+): Promise<bigint> {
+	const c =
+		bytesToBigint(expandSeed(seed, label, bits / 8)) |
+		(1n << BigInt(bits - 1)) |
+		1n;
+	return nextPrime(c, { safe: safePrimes });
+}
+
+/**
+ * Deterministically derive an RSA modulus from a seed.
+ *
+ * Each prime is derived from the seed and a label: the first bits/2 bits
+ * of SHA-512(seed || ":" || label || ":" || i) for i = 0, 1, ... are taken,
+ * the top and low bits are set, and the result is rounded up to the next
+ * prime (or safe prime). p uses the label "p" and q the label "q". If
+ * p·q is shorter than `bits` or q equals p, q is re-derived with the labels
+ * "q1", "q2", ... until it is not.
+ *
+ * `RSA_3072` and `RSA_4096` are the moduli derived from the seeds
+ * "wesolowski-vdf-3072-v1" and "wesolowski-vdf-4096-v1", so anyone can
+ * recompute them. The factors are public, so a derived modulus must not be
+ * used where the VDF relies on an unknown group order.
+ *
+ * @param seed - Seed (strings are UTF-8 encoded)
+ * @param bits - Bit length of n, a multiple of 16
+ * @param options - Safe prime selection
+ * @returns The modulus and its factors
+ */
+export async function deriveModulusFromSeed(
+	seed: string | Uint8Array,
+	bits: number,
+	options: DeriveModulusOptions = {},
+): Promise<RSAModulus> {
+	checkBits(bits);
+	const safePrimes = options.safePrimes ?? false;
+	const seedBytes =
+		typeof seed === "string" ? new TextEncoder().encode(seed) : seed;
+	const half = bits / 2;
+
+	const p = await derivePrime(seedBytes, "p", half, safePrimes);
+	for (let attempt = 0; ; attempt++) {
+		const label = attempt === 0 ? "q" : `q${attempt}`;
+		const q = await derivePrime(seedBytes, label, half, safePrimes);
+		if (q !== p && bigintBitLength(p * q) === bits) {
+			return { n: p * q, p, q };
+		}
+	}
+}
+
+/**
+ * Generate an RSA modulus n = p·q with balanced primes.
+ *
+ * p and q both have exactly bits/2 bits and n has exactly `bits` bits.
+ * With `safePrimes`, p and q are safe primes, so the only small subgroups
+ * of Z*_n have order dividing 4. With `seed`, the modulus is
+ * derived with `deriveModulusFromSeed` and is reproducible; otherwise the
+ * primes are random.
+ *
+ * Whoever runs this learns the factorization. For a VDF, the factors must
+ * be discarded; for time-lock puzzles, they are the trapdoor.
+ *
+ * @param options - Bit length, safe primes and seed
+ * @returns The modulus and its factors
+ */
+export async function generateModulus(
+	options: ModulusOptions = {},
+): Promise<RSAModulus> {
+	const bits = options.bits ?? 2048;
+	const safePrimes = options.safePrimes ?? false;
+	checkBits(bits);
+
+	if (options.seed !== undefined) {
+		return deriveModulusFromSeed(options.seed, bits, { safePrimes });
+	}
+
+	const half = bits / 2;
+	const p = getPrime({ bits: half, safe: safePrimes });
+	while (true) {
+		const q = getPrime({ bits: half, safe: safePrimes });
+		if (q !== p && bigintBitLength(p * q) === bits) {
+			return { n: p * q, p, q };
+		}
+	}
+}
@@ -0,0 +1,123 @@
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import { RSAGroup } from "./group.ts";
+import type { CheckpointedOutput } from "./checkpoints.ts";
+import type { ProveTask } from "./prove-worker.ts";
+import { InvalidInputError, InvalidParamsError } from "./errors.ts";
+
+const WORKER_URL = new URL("./prove-worker.ts", import.meta.url);
+
+export interface ParallelProveOptions {
+	/** Number of worker threads (default: available parallelism) */
+	workers?: number;
+}
+
+function runTask(task: ProveTask): { worker: Worker; result: Promise<bigint> } {
+	const worker = new Worker(WORKER_URL);
+	const result = new Promise<bigint>((resolve, reject) => {
+		worker.once("message", (value: bigint) => resolve(value));
+		worker.once("error", reject);
+		worker.once("exit", (code) =>
+			reject(new Error(`proof worker exited with code ${code}`)),
+		);
+	});
+	worker.postMessage(task);
+	return { worker, result };
+}
+
+/**
+ * Split the proof computation into one task per worker.
+ *
+ * ⌊2^t / l⌋ is cut into bit slices [start, end) that begin on checkpoint
+ * boundaries, so that x^(⌊2^t / l⌋ restricted to a slice · 2^start) is
+ * (x^(2^start))^slice with x^(2^start) already known.
+ */
+function splitTasks(
+	output: CheckpointedOutput,
+	l: bigint,
+	workers: number,
+): ProveTask[] {
+	const { t, n, checkpoints } = output;
+	const spacing = checkpoints.k * checkpoints.gamma;
+	const segments = Math.ceil(t / spacing);
+
+	const tasks: ProveTask[] = [];
+	for (let j = 0; j < workers; j++) {
+		const a = Math.floor((j * segments) / workers);
+		const b = Math.floor(((j + 1) * segments) / workers);
+		if (a === b) continue;
+		tasks.push({
+			base: checkpoints.values[a]!,
+			n,
+			t,
+			l,
+			start: a * spacing,
+			end: Math.min(b * spacing, t),
+		});
+	}
+	return tasks;
+}
+
+/**
+ * Compute the proof π = x^⌊2^t / l⌋ mod n across worker threads.
+ *
+ * The exponent ⌊2^t / l⌋ is split into contiguous bit slices, one per
+ * worker. The slice starting at bit s is applied to the stored checkpoint
+ * x^(2^s), so each worker performs about t / workers squarings, and the
+ * partial powers are multiplied together in Montgomery form. The result is
+ * identical to `prove`.
+ *
+ * The sequential chain x^(2^i) cannot be parallelized, so the output must
+ * come from `evaluateWithCheckpoints`; any spacing works, but with fewer
+ * checkpoints than workers some workers stay idle.
+ *
+ * The worker is loaded from `prove-worker.ts`, so this requires a runtime
+ * that executes TypeScript in worker threads directly, i.e. Bun.
+ *
+ * @param output - Output of `evaluateWithCheckpoints`
+ * @param l - Challenge prime
+ * @param options - Number of worker threads
+ * @returns Proof value π
+ */
+export async function proveParallel(
+	output: CheckpointedOutput,
+	l: bigint,
+	options: ParallelProveOptions = {},
+): Promise<bigint> {
+	const workers = options.workers ?? availableParallelism();
+	if (!Number.isSafeInteger(workers) || workers <= 0) {
+		throw new InvalidParamsError("workers must be a positive integer");
+	}
+	if (!output.checkpoints) {
+		throw new InvalidInputError(
+			"proveParallel requires an output from evaluateWithCheckpoints",
+		);
+	}
+
+	const { t, n, checkpoints } = output;
+	const spacing = checkpoints.k * checkpoints.gamma;
+	if (checkpoints.values.length !== Math.floor(t / spacing) + 1) {
+		throw new InvalidInputError(
+			"checkpoint count does not match t, k and gamma",
+		);
+	}
+
+	const running = splitTasks(output, l, workers).map(runTask);
+	try {
+		const partials = await Promise.all(running.map((r) => r.result));
+
+		// Checkpoints of a signed output are only known up to sign, and so
+		// are the partial powers; the canonical π is the same
+		const group = new RSAGroup(n, {
+			montgomery: (n & 1n) === 1n,
+			signed: output.signed,
+		});
+		let pi = group.identity();
+		for (const partial of partials) {
+			pi = group.multiply(pi, group.fromBigint(partial));
+		}
+		return group.toBigint(pi);
+	} finally {
+		await Promise.all(running.map((r) => r.worker.terminate()));
+	}
+}
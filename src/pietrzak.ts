@@ -0,0 +1,267 @@
+import {
+	modpow,
+	bigintByteLength,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	u64be,
+} from "./utils.ts";
+import { sha512 } from "./digest.ts";
+import { RSAGroup } from "./group.ts";
+import { isRegisteredAs } from "./registry.ts";
+import { evaluate, type VDFOutput } from "./vdf.ts";
+import type { CheckpointedOutput } from "./checkpoints.ts";
+import { InvalidInputError, InvalidParamsError } from "./errors.ts";
+
+const PIETRZAK_TAG = new TextEncoder().encode("pietrzak-v1");
+
+/** Transcript tag of proofs in the signed group QR⁺_n */
+const PIETRZAK_SIGNED_TAG = new TextEncoder().encode("pietrzak-signed-v1");
+
+/** Bit length of the Fiat-Shamir challenges r_i */
+const PIETRZAK_CHALLENGE_BITS = 128n;
+
+export interface PietrzakProof extends VDFOutput {
+	/** Midpoints μ_i = x_i^(2^(T_i/2)), one per halving round */
+	mu: bigint[];
+}
+
+export interface PietrzakProveOptions {
+	/**
+	 * Distance between stored intermediates x^(2^(i·k)) used to compute the
+	 * midpoints (default: ⌈√t⌉). Smaller values use more memory and less time.
+	 */
+	checkpointInterval?: number;
+}
+
+/**
+ * Number of halving rounds for a given t, ⌊log2 t⌋.
+ *
+ * Odd T is made even by squaring x once (T ← T - 1), so non-power-of-two
+ * t is supported at the cost of at most one extra squaring per round.
+ */
+export function pietrzakRounds(t: number): number {
+	let rounds = 0;
+	let T = t;
+	while (T > 1) {
+		if (T % 2 === 1) T -= 1;
+		T /= 2;
+		rounds++;
+	}
+	return rounds;
+}
+
+/**
+ * Derive the challenge r_i for one halving round using Fiat-Shamir.
+ *
+ * r_i is twice the first 128 bits of SHA-512 over (x_i, y_i, T_i, n, μ_i).
+ * An even r_i keeps a claim that is off by a factor of -1 false in every
+ * round: (-μ)^r_i = μ^r_i, so the sign of a midpoint cannot cancel it.
+ */
+function deriveRoundChallenge(
+	signed: boolean,
+	x: bigint,
+	y: bigint,
+	T: number,
+	n: bigint,
+	mu: bigint,
+): bigint {
+	const nLen = bigintByteLength(n);
+
+	const payload = concatBytes(
+		signed ? PIETRZAK_SIGNED_TAG : PIETRZAK_TAG,
+		bigintToFixedBytes(x, nLen),
+		bigintToFixedBytes(y, nLen),
+		u64be(BigInt(T)),
+		bigintToFixedBytes(n, nLen),
+		bigintToFixedBytes(mu, nLen),
+	);
+
+	return (
+		(bytesToBigint(sha512(payload)) >> (512n - PIETRZAK_CHALLENGE_BITS)) << 1n
+	);
+}
+
+function square(x: bigint, k: number, n: bigint): bigint {
+	return k > 0 ? evaluate(x, { n, t: k }).h : x;
+}
+
+/**
+ * Generate a Pietrzak proof for a VDF output.
+ *
+ * The proof recursively halves the claim y = x^(2^T): the prover sends the
+ * midpoint μ = x^(2^(T/2)) and both halves are merged into a single claim
+ * of half the length with a Fiat-Shamir challenge r, (x^r·μ)^(2^(T/2)) = μ^r·y.
+ * Each μ is sent as its canonical representative min(μ, n - μ), which
+ * does not change the claims since r and 2^(T/2) are even. A signed output
+ * is proven in QR⁺_n, where h only has to hold up to sign.
+ *
+ * The chain x^(2^(i·k)) is recomputed once and kept at interval k, so each
+ * midpoint is assembled from stored intermediates instead of T/2 fresh
+ * squarings. Once that stops paying off, the remaining rounds square directly.
+ * If the output comes from `evaluateWithCheckpoints` and no interval is
+ * given, its stored checkpoints are reused and the chain is not recomputed.
+ *
+ * @param output - VDF output to prove
+ * @param options - Configuration options
+ * @returns Pietrzak proof
+ */
+export async function provePietrzak(
+	output: VDFOutput,
+	options: PietrzakProveOptions = {},
+): Promise<PietrzakProof> {
+	const { x, h, t, n, signed } = output;
+	const halves = new RSAGroup(n, { signed: true });
+	const stored =
+		"checkpoints" in output && options.checkpointInterval === undefined
+			? (output as CheckpointedOutput).checkpoints
+			: undefined;
+	const k = stored
+		? stored.k * stored.gamma
+		: (options.checkpointInterval ?? Math.max(1, Math.ceil(Math.sqrt(t))));
+
+	if (!Number.isInteger(k) || k <= 0) {
+		throw new InvalidParamsError(
+			"checkpointInterval must be a positive integer",
+		);
+	}
+
+	// checkpoints[i] = x^(2^(i·k)) for i·k <= t
+	let checkpoints: bigint[];
+	if (stored) {
+		if (stored.values.length !== Math.floor(t / k) + 1) {
+			throw new InvalidInputError(
+				"checkpoint count does not match t, k and gamma",
+			);
+		}
+		checkpoints = stored.values;
+	} else {
+		checkpoints = [x];
+		for (let i = k; i <= t; i += k) {
+			checkpoints.push(square(checkpoints[checkpoints.length - 1]!, k, n));
+		}
+	}
+
+	// x^(2^s), from the nearest stored intermediate at or below s
+	const powerOfTwo = (s: number): bigint => {
+		const idx = Math.min(Math.floor(s / k), checkpoints.length - 1);
+		return square(checkpoints[idx]!, s - idx * k, n);
+	};
+
+	// x_i = ∏ x^(coeff·2^shift) over terms, while that is cheaper than squaring
+	let terms: { shift: number; coeff: bigint }[] | null = [
+		{ shift: 0, coeff: 1n },
+	];
+	let xi = x;
+	let yi = h;
+	let T = t;
+	const mu: bigint[] = [];
+
+	while (T > 1) {
+		if (T % 2 === 1) {
+			xi = (xi * xi) % n;
+			T -= 1;
+			if (terms) {
+				terms = terms.map(({ shift, coeff }) => ({ shift: shift + 1, coeff }));
+			}
+		}
+		const half = T / 2;
+
+		// Each term costs up to k squarings plus an exponentiation by a
+		// coefficient of about 128·i bits
+		const coeffBits = mu.length * Number(PIETRZAK_CHALLENGE_BITS);
+		if (terms && terms.length * (k + coeffBits) > half) {
+			terms = null;
+		}
+
+		let m: bigint;
+		if (terms) {
+			m = 1n;
+			for (const { shift, coeff } of terms) {
+				m = (m * modpow(powerOfTwo(shift + half), coeff, n)) % n;
+			}
+		} else {
+			m = square(xi, half, n);
+		}
+		m = halves.canonical(m);
+
+		const r = deriveRoundChallenge(signed ?? false, xi, yi, T, n, m);
+		xi = (modpow(xi, r, n) * m) % n;
+		yi = (modpow(m, r, n) * yi) % n;
+		T = half;
+		mu.push(m);
+
+		if (terms) {
+			terms = [
+				...terms.map(({ shift, coeff }) => ({ shift, coeff: coeff * r })),
+				...terms.map(({ shift, coeff }) => ({ shift: shift + half, coeff })),
+			];
+		}
+	}
+
+	const proof: PietrzakProof = { x, h, t, n, mu };
+	if (output.modulusId !== undefined) {
+		proof.modulusId = output.modulusId;
+	}
+	if (output.challenge !== undefined) {
+		proof.challenge = output.challenge;
+	}
+	if (signed) {
+		proof.signed = true;
+	}
+	return proof;
+}
+
+/**
+ * Verify a Pietrzak VDF proof.
+ *
+ * Replays the halving rounds with re-derived challenges and checks the
+ * final claim y = x^2, up to sign for a signed proof. Verification
+ * requires O(log t) exponentiations with 129-bit exponents. Midpoints
+ * must be canonical, values of a signed proof as well, and a modulusId
+ * must be registered for n.
+ *
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export async function verifyPietrzak(proof: PietrzakProof): Promise<boolean> {
+	const { x, h, t, n, mu, modulusId, signed } = proof;
+
+	// Validate inputs
+	if (!Number.isSafeInteger(t) || t <= 0 || n <= 1n) {
+		return false;
+	}
+	if (modulusId !== undefined && !isRegisteredAs(modulusId, n)) {
+		return false;
+	}
+	const group = new RSAGroup(n, { signed });
+	if (!group.isElement(x) || h <= 0n || h >= n || h !== group.canonical(h)) {
+		return false;
+	}
+	if (mu.length !== pietrzakRounds(t)) {
+		return false;
+	}
+	const halves = new RSAGroup(n, { signed: true });
+	for (const m of mu) {
+		if (m <= 0n || m >= n || m !== halves.canonical(m)) {
+			return false;
+		}
+	}
+
+	let xi = x;
+	let yi = h;
+	let T = t;
+
+	for (const m of mu) {
+		if (T % 2 === 1) {
+			xi = (xi * xi) % n;
+			T -= 1;
+		}
+		const r = deriveRoundChallenge(signed ?? false, xi, yi, T, n, m);
+		xi = (modpow(xi, r, n) * m) % n;
+		yi = (modpow(m, r, n) * yi) % n;
+		T /= 2;
+	}
+
+	return group.equals((xi * xi) % n, yi);
+}
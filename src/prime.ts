@@ -1,63 +1,49 @@
-import { bigintByteLength, modpow, bytesToBigint } from "./utils.ts";
+import {
+	bigintByteLength,
+	modpow,
+	bytesToBigint,
+	isqrt,
+	gcd,
+	modInverse,
+} from "./utils.ts";
+import { InvalidParamsError } from "./errors.ts";
 
 /**
- * Precomputed small primes up to 1000 for trial division.
+ * All primes up to limit, by the sieve of Eratosthenes.
  */
-const SMALL_PRIMES: bigint[] = (() => {
-	const limit = 1000;
+function primesUpTo(limit: number): number[] {
 	const sieve = new Uint8Array(limit + 1);
-	const primes: bigint[] = [];
+	const primes: number[] = [];
 	for (let i = 2; i <= limit; i++) {
 		if (sieve[i] === 0) {
-			primes.push(BigInt(i));
+			primes.push(i);
 			for (let j = i * i; j <= limit; j += i) {
 				sieve[j] = 1;
 			}
 		}
 	}
 	return primes;
-})();
+}
 
 /**
- * Wheel factorization data for mod-210 (2*3*5*7).
- * Used to skip candidates divisible by small primes during prime search.
+ * Precomputed small primes up to 1000 for trial division.
  */
-const PRIME_WHEEL = (() => {
-	const mod = 210;
-	const residues: number[] = [];
-	for (let r = 1; r < mod; r += 2) {
-		if (r % 3 !== 0 && r % 5 !== 0 && r % 7 !== 0) {
-			residues.push(r);
-		}
-	}
-	const increments: number[] = [];
-	for (let i = 0; i < residues.length; i++) {
-		const cur = residues[i]!;
-		const next = residues[(i + 1) % residues.length]!;
-		increments.push((next - cur + mod) % mod);
-	}
-	return { mod, residues, increments };
-})();
+const SMALL_PRIMES: bigint[] = primesUpTo(1000).map(BigInt);
 
 /**
- * Align a candidate to the nearest valid wheel residue.
+ * Primality test used by `isPrime`:
+ * - "miller-rabin": Miller-Rabin with deterministic witnesses below
+ *   3.18·10^23 and `rounds` random witnesses above
+ * - "bpsw": Baillie-PSW (base-2 strong test and strong Lucas test),
+ *   deterministic and with no known counterexample
  */
-function alignToWheel(p: bigint): { p: bigint; idx: number } {
-	const mod = PRIME_WHEEL.mod;
-	const residues = PRIME_WHEEL.residues;
-	const m = Number(p % BigInt(mod));
-	for (let i = 0; i < residues.length; i++) {
-		const r = residues[i]!;
-		if (m <= r) {
-			return { p: p + BigInt(r - m), idx: i };
-		}
-	}
-	return { p: p + BigInt(mod - m + residues[0]!), idx: 0 };
-}
+export type PrimalityTest = "miller-rabin" | "bpsw";
 
 export interface IsPrimeOptions {
 	/** Number of Miller-Rabin rounds (default: 32) */
 	rounds?: number;
+	/** Primality test (default: "miller-rabin") */
+	method?: PrimalityTest;
 }
 
 /**
@@ -103,18 +89,116 @@ function millerRabinRound(n: bigint, d: bigint, s: number, a: bigint): boolean {
 }
 
 /**
- * Test if n is prime using Miller-Rabin primality test.
+ * Jacobi symbol (a/n) for odd positive n.
+ */
+function jacobi(a: bigint, n: bigint): number {
+	a %= n;
+	if (a < 0n) {
+		a += n;
+	}
+	let result = 1;
+	while (a !== 0n) {
+		while ((a & 1n) === 0n) {
+			a >>= 1n;
+			const r = n & 7n;
+			if (r === 3n || r === 5n) {
+				result = -result;
+			}
+		}
+		[a, n] = [n, a];
+		if ((a & 3n) === 3n && (n & 3n) === 3n) {
+			result = -result;
+		}
+		a %= n;
+	}
+	return n === 1n ? result : 0;
+}
+
+/**
+ * Strong Lucas probable prime test with Selfridge's parameters: D is the
+ * first of 5, -7, 9, -11, ... with (D/n) = -1, P = 1 and Q = (1 - D) / 4.
+ * n must be odd, greater than 1000 and free of small factors.
+ */
+function strongLucasTest(n: bigint): boolean {
+	// No D with (D/n) = -1 exists for squares
+	const root = isqrt(n);
+	if (root * root === n) {
+		return false;
+	}
+
+	let D = 5n;
+	while (true) {
+		const j = jacobi(D, n);
+		if (j === -1) {
+			break;
+		}
+		if (j === 0 && (D < 0n ? -D : D) !== n) {
+			return false;
+		}
+		D = D > 0n ? -(D + 2n) : -D + 2n;
+	}
+	const Q = (1n - D) / 4n;
+
+	// n + 1 = d · 2^s with d odd
+	let d = n + 1n;
+	let s = 0;
+	while ((d & 1n) === 0n) {
+		d >>= 1n;
+		s++;
+	}
+
+	const mod = (x: bigint): bigint => {
+		const r = x % n;
+		return r < 0n ? r + n : r;
+	};
+	const half = (x: bigint): bigint => ((x & 1n) === 0n ? x : x + n) >> 1n;
+
+	// Binary Lucas chain for U_d, V_d with P = 1, tracking Q^k
+	let U = 1n;
+	let V = 1n;
+	let Qk = mod(Q);
+	const Qn = Qk;
+	for (let bit = d.toString(2).length - 2; bit >= 0; bit--) {
+		U = (U * V) % n;
+		V = mod(V * V - 2n * Qk);
+		Qk = (Qk * Qk) % n;
+		if ((d >> BigInt(bit)) & 1n) {
+			const nextU = half(U + V);
+			V = half(mod(D * U + V));
+			U = nextU % n;
+			Qk = (Qk * Qn) % n;
+		}
+	}
+
+	if (U === 0n || V === 0n) {
+		return true;
+	}
+	for (let r = 1; r < s; r++) {
+		V = mod(V * V - 2n * Qk);
+		if (V === 0n) {
+			return true;
+		}
+		Qk = (Qk * Qk) % n;
+	}
+	return false;
+}
+
+/**
+ * Test if n is prime.
  *
- * First performs trial division against small primes, then runs
- * the specified number of Miller-Rabin rounds for probabilistic testing.
- * For numbers < 3,317,044,064,679,887,385,961,981, uses deterministic witnesses.
+ * First performs trial division against small primes. With the default
+ * "miller-rabin" method, it then runs the specified number of Miller-Rabin
+ * rounds with random witnesses; for numbers < 318,665,857,834,031,151,167,461
+ * it uses deterministic witnesses. With "bpsw", it runs the Baillie-PSW
+ * test, which is deterministic (the same on every machine) and faster for
+ * large n.
  *
  * @param n - The number to test
  * @param options - Configuration options
  * @returns true if n is probably prime, false if definitely composite
  */
 export function isPrime(n: bigint, options: IsPrimeOptions = {}): boolean {
-	const k = options.rounds ?? 32;
+	const method = resolveMethod(options, "miller-rabin");
 
 	if (n < 2n) {
 		return false;
@@ -136,6 +220,26 @@ export function isPrime(n: bigint, options: IsPrimeOptions = {}): boolean {
 		}
 	}
 
+	return probablePrime(n, method, options.rounds ?? 32);
+}
+
+function resolveMethod(
+	options: IsPrimeOptions,
+	fallback: PrimalityTest,
+): PrimalityTest {
+	const method = options.method ?? fallback;
+	if (method !== "miller-rabin" && method !== "bpsw") {
+		throw new InvalidParamsError(
+			`unknown primality test ${JSON.stringify(method)}`,
+		);
+	}
+	return method;
+}
+
+/**
+ * Run the primality test on an odd n > 3, without trial division.
+ */
+function probablePrime(n: bigint, method: PrimalityTest, k: number): boolean {
 	// Write n - 1 as 2^s * d where d is odd
 	let d = n - 1n;
 	let s = 0;
@@ -146,6 +250,10 @@ export function isPrime(n: bigint, options: IsPrimeOptions = {}): boolean {
 
 	const nMinus1 = n - 1n;
 
+	if (method === "bpsw") {
+		return millerRabinRound(n, d, s, 2n) && strongLucasTest(n);
+	}
+
 	// For smaller numbers, use deterministic witnesses
 	// Witnesses {2,3,5,7,11,13,17,19,23,29,31,37} work for n < 318,665,857,834,031,151,167,461
 	if (n < 318665857834031151167461n) {
@@ -181,90 +289,300 @@ export function isPrime(n: bigint, options: IsPrimeOptions = {}): boolean {
 	return true;
 }
 
-export interface GetPrimeOptions {
+/** Default bound on the primes used to sieve candidate windows */
+const DEFAULT_SIEVE_BOUND = 16384;
+
+const MAX_SIEVE_BOUND = 1 << 24;
+
+/** Number of candidates per sieve window */
+const SIEVE_WINDOW = 4096;
+
+/**
+ * Constraints on the primes returned by `nextPrime` and `getPrime`.
+ */
+export interface PrimeSearchOptions {
+	/** Require a safe prime: (p - 1) / 2 is also prime (default: false) */
+	safe?: boolean;
+	/** Require p ≡ 3 (mod 4) (default: false) */
+	blum?: boolean;
+	/** Require p ≡ residue (mod modulus); residue must be coprime to modulus */
+	congruence?: { residue: bigint; modulus: bigint };
+	/**
+	 * Sieve candidates with the primes up to this bound before running the
+	 * primality test (default: 16384)
+	 */
+	sieveBound?: number;
+}
+
+export interface NextPrimeOptions extends IsPrimeOptions, PrimeSearchOptions {}
+
+export interface GetPrimeOptions extends NextPrimeOptions {
 	/** Bit length of the prime (default: 256) */
 	bits?: number;
-	/** Number of Miller-Rabin rounds (default: 32) */
-	rounds?: number;
 }
 
+/** Candidates c ≡ residue (mod modulus) */
+interface Progression {
+	residue: bigint;
+	modulus: bigint;
+}
+
+const sievePrimesCache = new Map<number, number[]>();
+
 /**
- * Generate a random prime of the specified bit length.
+ * Odd primes up to bound, cached per bound.
+ */
+function sievePrimes(bound: number): number[] {
+	let primes = sievePrimesCache.get(bound);
+	if (!primes) {
+		primes = primesUpTo(bound).slice(1);
+		if (sievePrimesCache.size < 10 || sievePrimesCache.has(bound)) {
+			sievePrimesCache.set(bound, primes);
+		}
+	}
+	return primes;
+}
+
+/**
+ * Inverse of a modulo a prime q, for 0 < a < q.
+ */
+function inverseModSmall(a: number, q: number): number {
+	let [r0, r1] = [q, a];
+	let [t0, t1] = [0, 1];
+	while (r1 !== 0) {
+		const quotient = Math.floor(r0 / r1);
+		[r0, r1] = [r1, r0 - quotient * r1];
+		[t0, t1] = [t1, t0 - quotient * t1];
+	}
+	return t0 < 0 ? t0 + q : t0;
+}
+
+/**
+ * Combine two congruences into one, or throw if they are incompatible.
+ */
+function combineProgressions(a: Progression, b: Progression): Progression {
+	const g = gcd(a.modulus, b.modulus);
+	const diff = b.residue - a.residue;
+	if (diff % g !== 0n) {
+		throw new InvalidParamsError("prime constraints are incompatible");
+	}
+	const m = b.modulus / g;
+	const modulus = (a.modulus / g) * b.modulus;
+	const k =
+		m === 1n ? 0n : (((diff / g) % m) * modInverse((a.modulus / g) % m, m)) % m;
+	let residue = (a.residue + a.modulus * k) % modulus;
+	if (residue < 0n) {
+		residue += modulus;
+	}
+	return { residue, modulus };
+}
+
+/**
+ * Candidate progression for a prime search: odd numbers, restricted by
+ * the blum and congruence options.
+ */
+function searchProgression(options: PrimeSearchOptions): Progression {
+	let progression: Progression = { residue: 1n, modulus: 2n };
+	if (options.blum) {
+		progression = combineProgressions(progression, {
+			residue: 3n,
+			modulus: 4n,
+		});
+	}
+	const { congruence } = options;
+	if (congruence !== undefined) {
+		const { modulus } = congruence;
+		if (modulus <= 0n) {
+			throw new InvalidParamsError("congruence modulus must be positive");
+		}
+		const residue = ((congruence.residue % modulus) + modulus) % modulus;
+		if (gcd(residue, modulus) !== 1n) {
+			throw new InvalidParamsError(
+				"congruence residue must be coprime to the modulus",
+			);
+		}
+		progression = combineProgressions(progression, { residue, modulus });
+	}
+	return progression;
+}
+
+function resolveSieveBound(options: PrimeSearchOptions): number {
+	const bound = options.sieveBound ?? DEFAULT_SIEVE_BOUND;
+	if (!Number.isSafeInteger(bound) || bound < 16 || bound > MAX_SIEVE_BOUND) {
+		throw new InvalidParamsError(
+			`sieveBound must be an integer from 16 to ${MAX_SIEVE_BOUND}`,
+		);
+	}
+	return bound;
+}
+
+/** Smallest c >= start with c ≡ residue (mod modulus) */
+function firstInProgression(start: bigint, progression: Progression): bigint {
+	const { residue, modulus } = progression;
+	return start + ((((residue - start) % modulus) + modulus) % modulus);
+}
+
+/**
+ * Find the smallest prime p >= start in a progression, optionally a safe
+ * prime, that does not exceed limit.
  *
- * Uses wheel sieving to skip candidates divisible by 2, 3, 5, 7,
- * then applies Miller-Rabin primality testing.
+ * Candidates up to the sieve bound (about twice the bound for safe
+ * primes) are tested one by one. Above it, the
+ * progression is split into windows of SIEVE_WINDOW candidates, and for
+ * each sieving prime q the candidates divisible by q (and, for safe
+ * primes, those with q | (c - 1) / 2) are crossed off using one residue
+ * per window. Only the remaining candidates are tested, without further
+ * trial division.
  *
- * @param options - Configuration options
- * @returns A random prime number
+ * @returns The prime, or null if there is none up to limit
  */
-export function getPrime(options: GetPrimeOptions = {}): bigint {
-	const bits = options.bits ?? 256;
+function searchPrime(
+	start: bigint,
+	limit: bigint | null,
+	options: NextPrimeOptions,
+	defaultMethod: PrimalityTest,
+): bigint | null {
+	const method = resolveMethod(options, defaultMethod);
 	const rounds = options.rounds ?? 32;
-	const byteLen = Math.ceil(bits / 8);
-	const x = new Uint8Array(byteLen);
-	const max = (1n << BigInt(bits)) - 1n;
+	const bound = resolveSieveBound(options);
+	const safe = options.safe ?? false;
+	let progression = searchProgression(options);
+	const primality: IsPrimeOptions = { method, rounds };
 
-	while (true) {
-		crypto.getRandomValues(x);
-
-		// Set high bit to ensure correct bit length
-		x[0] = x[0]! | 0x80;
-		// Set low bit to ensure odd
-		x[x.length - 1] = x[x.length - 1]! | 1;
+	// The sieve would cross off a sieving prime q itself, and for safe
+	// primes also 2q + 1, so small candidates are tested directly
+	let c = firstInProgression(start, progression);
+	const direct = BigInt(safe ? 2 * bound + 1 : bound);
+	for (; c <= direct; c += progression.modulus) {
+		if (limit !== null && c > limit) {
+			return null;
+		}
+		if (isPrime(c, primality) && (!safe || isPrime(c >> 1n, primality))) {
+			return c;
+		}
+	}
 
-		let p = bytesToBigint(x);
-		const aligned = alignToWheel(p);
+	if (safe) {
+		// Above 5, (p - 1) / 2 must be odd, so p ≡ 3 (mod 4)
+		progression = combineProgressions(progression, {
+			residue: 3n,
+			modulus: 4n,
+		});
+		c = firstInProgression(c, progression);
+	}
+	const { modulus } = progression;
+	const primes = sievePrimes(bound);
+	const crossed = new Uint8Array(SIEVE_WINDOW);
 
-		if (aligned.p > max) {
-			continue;
+	while (limit === null || c <= limit) {
+		crossed.fill(0);
+		for (const q of primes) {
+			const step = Number(modulus % BigInt(q));
+			const r = Number(c % BigInt(q));
+			if (step === 0) {
+				// Every candidate has residue r; the residue is coprime to q
+				if (safe && r === 1) {
+					throw new InvalidParamsError(
+						"prime constraints admit no safe primes",
+					);
+				}
+				continue;
+			}
+			const inverse = inverseModSmall(step, q);
+			// c + k·modulus ≡ 0 (mod q)
+			for (let k = ((q - r) * inverse) % q; k < SIEVE_WINDOW; k += q) {
+				crossed[k] = 1;
+			}
+			if (safe) {
+				// c + k·modulus ≡ 1 (mod q), so q divides (p - 1) / 2
+				for (
+					let k = (((q + 1 - r) % q) * inverse) % q;
+					k < SIEVE_WINDOW;
+					k += q
+				) {
+					crossed[k] = 1;
+				}
+			}
 		}
 
-		p = aligned.p;
-		let idx = aligned.idx;
-
-		while (p <= max) {
-			if (isPrime(p, { rounds })) {
+		for (let k = 0; k < SIEVE_WINDOW; k++) {
+			if (crossed[k]) {
+				continue;
+			}
+			const p = c + BigInt(k) * modulus;
+			if (limit !== null && p > limit) {
+				return null;
+			}
+			if (
+				(!safe || probablePrime(p >> 1n, method, rounds)) &&
+				probablePrime(p, method, rounds)
+			) {
 				return p;
 			}
-			p += BigInt(PRIME_WHEEL.increments[idx]!);
-			idx = (idx + 1) % PRIME_WHEEL.increments.length;
 		}
+		c += BigInt(SIEVE_WINDOW) * modulus;
 	}
+	return null;
 }
 
 /**
- * Find the next prime >= n.
- * Uses wheel factorization to skip candidates divisible by small primes.
+ * Generate a random prime of the specified bit length.
  *
- * @param n - Starting point
- * @param options - Configuration options
- * @returns The smallest prime >= n
+ * A random starting point of `bits` bits is drawn, and the first prime
+ * after it that satisfies the constraints is taken, using a sieve over
+ * windows of candidates before the primality test. If the search runs
+ * past 2^bits, a new starting point is drawn.
+ *
+ * @param options - Bit length, constraints and primality test
+ * @returns A random prime number
  */
-export function nextPrime(n: bigint, options: IsPrimeOptions = {}): bigint {
-	if (n <= 2n) return 2n;
-	if (n === 3n) return 3n;
-	if (n <= 5n) return 5n;
-	if (n <= 7n) return 7n;
-
-	// Align to wheel and iterate
-	const aligned = alignToWheel(n);
-	let p = aligned.p;
-	let idx = aligned.idx;
-
-	// Check if we skipped over n with a smaller prime
-	if (p > n) {
-		// Check if any small prime >= n exists before p
-		if (n <= 2n) return 2n;
-		if (n <= 3n) return 3n;
-		if (n <= 5n) return 5n;
-		if (n <= 7n) return 7n;
+export function getPrime(options: GetPrimeOptions = {}): bigint {
+	const bits = options.bits ?? 256;
+	if (!Number.isSafeInteger(bits) || bits < 2) {
+		throw new InvalidParamsError("bits must be an integer of at least 2");
+	}
+	const { modulus } = searchProgression(options);
+	if (modulus >= 1n << BigInt(bits - 1)) {
+		throw new InvalidParamsError(
+			"prime constraints are too restrictive for bits",
+		);
 	}
 
+	const byteLen = Math.ceil(bits / 8);
+	const x = new Uint8Array(byteLen);
+	const min = 1n << BigInt(bits - 1);
+	const max = (1n << BigInt(bits)) - 1n;
+
 	while (true) {
-		if (isPrime(p, options)) {
+		crypto.getRandomValues(x);
+		const start = (bytesToBigint(x) >> BigInt(8 * byteLen - bits)) | min;
+		const p = searchPrime(start, max, options, "miller-rabin");
+		if (p !== null) {
 			return p;
 		}
-		p += BigInt(PRIME_WHEEL.increments[idx]!);
-		idx = (idx + 1) % PRIME_WHEEL.increments.length;
 	}
 }
+
+/**
+ * Find the next prime >= n.
+ *
+ * Candidates are sieved with the primes up to `sieveBound` before the
+ * primality test. The test is Baillie-PSW unless another method is given,
+ * so the result is the same on every machine. With constraints, the
+ * smallest prime >= n that satisfies them is returned.
+ *
+ * @param n - Starting point
+ * @param options - Constraints, sieve bound and primality test
+ * @returns The smallest prime >= n
+ */
+export function nextPrime(n: bigint, options: NextPrimeOptions = {}): bigint {
+	if (
+		n <= 2n &&
+		!options.safe &&
+		!options.blum &&
+		options.congruence === undefined
+	) {
+		return 2n;
+	}
+	return searchPrime(n, null, options, "bpsw")!;
+}
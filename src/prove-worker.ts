@@ -0,0 +1,51 @@
+/**
+ * Worker thread entry point for `proveParallel`.
+ *
+ * Only import types from this module: loading it in a worker thread
+ * registers a message handler on that thread's parent port.
+ */
+import { parentPort } from "node:worker_threads";
+import { modpow } from "./utils.ts";
+
+/**
+ * One slice of the proof exponent, handled by a worker thread.
+ */
+export interface ProveTask {
+	/** x^(2^start) mod n, taken from a checkpoint */
+	base: bigint;
+	n: bigint;
+	t: number;
+	l: bigint;
+	/** First bit of ⌊2^t / l⌋ covered by this slice */
+	start: number;
+	/** One past the last bit covered by this slice */
+	end: number;
+}
+
+/**
+ * Bits [start, end) of ⌊2^t / l⌋.
+ *
+ * ⌊2^t / l⌋ >> start = ⌊2^(t-start) / l⌋, and reducing that modulo
+ * 2^(end-start) only needs 2^(t-end) mod l.
+ */
+function quotientSlice(
+	t: number,
+	l: bigint,
+	start: number,
+	end: number,
+): bigint {
+	const len = BigInt(end - start);
+	return (modpow(2n, BigInt(t - end), l) << len) / l;
+}
+
+/**
+ * Compute base^(bits [start, end) of ⌊2^t / l⌋) mod n.
+ */
+function proveSlice(task: ProveTask): bigint {
+	const { base, n, t, l, start, end } = task;
+	return modpow(base, quotientSlice(t, l, start, end), n);
+}
+
+parentPort?.on("message", (task: ProveTask) => {
+	parentPort!.postMessage(proveSlice(task));
+});
@@ -0,0 +1,194 @@
+import {
+	bigintByteLength,
+	bigintToFixedBytes,
+	concatBytes,
+	u32be,
+	MontgomeryReducer,
+} from "./utils.ts";
+import { sha256 } from "./digest.ts";
+import type { VDFParams } from "./vdf.ts";
+import { InvalidParamsError, ModulusRegistryError } from "./errors.ts";
+
+const FINGERPRINT_TAG = new TextEncoder().encode("wesolowski-modulus-v1");
+
+/** Lowercase letters, digits, '.', '_' and '-', at most 64 characters */
+const MODULUS_ID_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+/**
+ * A modulus registered under a short identifier.
+ */
+export interface RegisteredModulus {
+	/** Identifier, e.g. "rsa3072-v1" */
+	readonly id: string;
+	/** RSA modulus */
+	readonly n: bigint;
+	/** Precomputed Montgomery reducer for n */
+	readonly reducer: MontgomeryReducer;
+}
+
+const modulusById = new Map<string, RegisteredModulus>();
+const idByModulus = new Map<bigint, string>();
+const fingerprintCache = new Map<bigint, Uint8Array>();
+
+/**
+ * Register a modulus under a short identifier.
+ *
+ * The Montgomery reducer for n is precomputed, and evaluation switches to
+ * Montgomery form for shorter chains than with unregistered moduli.
+ * Registered moduli can be referenced by identifier in proofs, encodings
+ * and challenge transcripts. Registering the same (id, n) pair again is a
+ * no-op; an identifier or modulus cannot be registered twice otherwise.
+ *
+ * @param id - Identifier: lowercase letters, digits, '.', '_' and '-'
+ * @param n - RSA modulus (odd, greater than 1)
+ * @returns The registry entry
+ */
+export function registerModulus(id: string, n: bigint): RegisteredModulus {
+	if (!MODULUS_ID_PATTERN.test(id)) {
+		throw new InvalidParamsError(
+			"modulus id must be 1-64 characters of [a-z0-9._-], starting with a letter or digit",
+		);
+	}
+	if (n <= 1n || (n & 1n) === 0n) {
+		throw new InvalidParamsError("n must be an odd integer greater than 1");
+	}
+
+	const existing = modulusById.get(id);
+	if (existing) {
+		if (existing.n !== n) {
+			throw new ModulusRegistryError(
+				`modulus id "${id}" is already registered`,
+			);
+		}
+		return existing;
+	}
+	const existingId = idByModulus.get(n);
+	if (existingId !== undefined) {
+		throw new ModulusRegistryError(
+			`modulus is already registered as "${existingId}"`,
+		);
+	}
+
+	const entry: RegisteredModulus = { id, n, reducer: new MontgomeryReducer(n) };
+	modulusById.set(id, entry);
+	idByModulus.set(n, id);
+	return entry;
+}
+
+/**
+ * Look up a registered modulus by identifier.
+ *
+ * @param id - Modulus identifier
+ * @returns The registry entry, or undefined if the id is unknown
+ */
+export function lookupModulus(id: string): RegisteredModulus | undefined {
+	return modulusById.get(id);
+}
+
+/**
+ * Find the identifier a modulus is registered under.
+ *
+ * @param n - RSA modulus
+ * @returns The identifier, or undefined if n is not registered
+ */
+export function modulusIdOf(n: bigint): string | undefined {
+	return idByModulus.get(n);
+}
+
+/**
+ * Precomputed Montgomery reducer of a registered modulus.
+ *
+ * @param n - RSA modulus
+ * @returns The reducer, or undefined if n is not registered
+ */
+export function registeredReducer(n: bigint): MontgomeryReducer | undefined {
+	const id = idByModulus.get(n);
+	return id === undefined ? undefined : modulusById.get(id)?.reducer;
+}
+
+/**
+ * Resolve a modulus identifier, throwing if it is unknown.
+ *
+ * @param id - Modulus identifier
+ * @returns The registered modulus
+ */
+export function resolveModulus(id: string): bigint {
+	const entry = modulusById.get(id);
+	if (!entry) {
+		throw new ModulusRegistryError(`unknown modulus id "${id}"`);
+	}
+	return entry.n;
+}
+
+/**
+ * VDF parameters for a registered modulus. Outputs evaluated with these
+ * parameters carry the identifier, and their proofs use the compact
+ * transcript and encodings.
+ *
+ * @param id - Modulus identifier
+ * @param t - Number of sequential squarings
+ * @returns VDF parameters with n and modulusId set
+ */
+export function modulusParams(id: string, t: number): VDFParams {
+	return { n: resolveModulus(id), t, modulusId: id };
+}
+
+/**
+ * SHA-256 fingerprint of a modulus: SHA-256(tag || len (4) || n), with n
+ * as a big-endian integer of len bytes.
+ *
+ * @param n - RSA modulus
+ * @returns 32-byte fingerprint
+ */
+export function modulusFingerprint(n: bigint): Uint8Array {
+	return fingerprintOf(n).slice();
+}
+
+/** Compute or look up the fingerprint of n; cached for registered moduli */
+function fingerprintOf(n: bigint): Uint8Array {
+	let fingerprint = fingerprintCache.get(n);
+	if (!fingerprint) {
+		const nLen = bigintByteLength(n);
+		fingerprint = sha256(
+			concatBytes(FINGERPRINT_TAG, u32be(nLen), bigintToFixedBytes(n, nLen)),
+		);
+		if (idByModulus.has(n)) {
+			fingerprintCache.set(n, fingerprint);
+		}
+	}
+	return fingerprint;
+}
+
+/**
+ * Check that a modulus identifier is registered for n.
+ *
+ * @param id - Modulus identifier
+ * @param n - RSA modulus
+ * @returns true if id is registered and refers to n
+ */
+export function isRegisteredAs(id: string, n: bigint): boolean {
+	return modulusById.get(id)?.n === n;
+}
+
+/**
+ * Group description bound into challenge transcripts for a registered
+ * modulus: len (1) | id | fingerprint (32). It replaces the raw bytes
+ * of n.
+ *
+ * @param id - Modulus identifier (must be registered for n)
+ * @param n - RSA modulus
+ * @returns Transcript bytes
+ */
+export function modulusTranscript(id: string, n: bigint): Uint8Array {
+	if (!isRegisteredAs(id, n)) {
+		throw new ModulusRegistryError(
+			`modulus id "${id}" is not registered for n`,
+		);
+	}
+	const idBytes = new TextEncoder().encode(id);
+	return concatBytes(
+		new Uint8Array([idBytes.length]),
+		idBytes,
+		fingerprintOf(n),
+	);
+}
@@ -0,0 +1,403 @@
+import {
+	crc32,
+	gcd,
+	modpow,
+	bigintByteLength,
+	bigintToBytes,
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	u32be,
+	u64be,
+} from "./utils.ts";
+import { RSAGroup, rsaGroupFor } from "./group.ts";
+import { ByteReader } from "./encoding.ts";
+import {
+	checkOptionalParams,
+	outputWithParams,
+	type VDFOutput,
+	type VDFParams,
+} from "./vdf.ts";
+import {
+	InvalidInputError,
+	InvalidParamsError,
+	InvalidStateError,
+	ProofFormatError,
+} from "./errors.ts";
+
+/** Current version of the binary state encoding */
+export const STATE_ENCODING_VERSION = 1;
+
+const KIND_EVALUATE = 1;
+const KIND_PROVE = 2;
+
+/** Default number of squarings between snapshots */
+const DEFAULT_SAVE_EVERY = 1000000;
+
+/**
+ * Snapshot of an interrupted `evaluateResumable`.
+ */
+export interface EvaluationState {
+	kind: "evaluate";
+	x: bigint;
+	n: bigint;
+	t: number;
+	/** Squarings completed so far */
+	iteration: number;
+	/** x^(2^iteration) mod n */
+	value: bigint;
+	/** CRC-32 over the encoded state, to detect corrupted snapshots */
+	checksum: number;
+}
+
+/**
+ * Snapshot of an interrupted `proveResumable`.
+ */
+export interface ProofState {
+	kind: "prove";
+	x: bigint;
+	n: bigint;
+	t: number;
+	/** Challenge prime */
+	l: bigint;
+	/** Long-division steps completed so far */
+	iteration: number;
+	/** x^⌊2^iteration / l⌋ mod n */
+	pi: bigint;
+	/** 2^iteration mod l */
+	r: bigint;
+	/** CRC-32 over the encoded state, to detect corrupted snapshots */
+	checksum: number;
+}
+
+export type VDFState = EvaluationState | ProofState;
+
+export interface ResumableOptions<S extends VDFState> {
+	/** Snapshot to continue from, previously passed to `onState` */
+	state?: S;
+	/** Number of squarings between snapshots (default: 1000000) */
+	saveEvery?: number;
+	/** Called with a snapshot every `saveEvery` squarings until completion */
+	onState?: (state: S) => void;
+}
+
+/** Encoding of a state without the trailing checksum */
+function encodeStateBody(state: VDFState): Uint8Array {
+	const { n, t, iteration, x } = state;
+	const nLen = bigintByteLength(n);
+	const nBytes = bigintToBytes(n);
+	const header = concatBytes(
+		new Uint8Array([
+			STATE_ENCODING_VERSION,
+			state.kind === "evaluate" ? KIND_EVALUATE : KIND_PROVE,
+		]),
+		u32be(nBytes.length),
+		nBytes,
+		u64be(BigInt(t)),
+		u64be(BigInt(iteration)),
+		bigintToFixedBytes(x, nLen),
+	);
+
+	if (state.kind === "evaluate") {
+		return concatBytes(header, bigintToFixedBytes(state.value, nLen));
+	}
+
+	const lBytes = bigintToBytes(state.l);
+	return concatBytes(
+		header,
+		u32be(lBytes.length),
+		lBytes,
+		bigintToFixedBytes(state.pi, nLen),
+		bigintToFixedBytes(state.r, lBytes.length),
+	);
+}
+
+function checkStateRanges(state: VDFState): void {
+	const { x, n, t, iteration } = state;
+
+	if (n <= 1n) {
+		throw new ProofFormatError("n must be greater than 1");
+	}
+	if (!Number.isSafeInteger(t) || t <= 0) {
+		throw new ProofFormatError("t must be a positive safe integer");
+	}
+	if (!Number.isSafeInteger(iteration) || iteration < 0 || iteration > t) {
+		throw new ProofFormatError("iteration must be in range [0, t]");
+	}
+	if (x <= 0n || x >= n) {
+		throw new ProofFormatError("x must be in range (0, n)");
+	}
+
+	if (state.kind === "evaluate") {
+		if (state.value <= 0n || state.value >= n) {
+			throw new ProofFormatError("value must be in range (0, n)");
+		}
+	} else {
+		if (state.l <= 2n) {
+			throw new ProofFormatError("l must be greater than 2");
+		}
+		if (state.pi <= 0n || state.pi >= n) {
+			throw new ProofFormatError("pi must be in range (0, n)");
+		}
+		if (state.r !== modpow(2n, BigInt(iteration), state.l)) {
+			throw new InvalidStateError("r does not match iteration and l");
+		}
+	}
+}
+
+function checkChecksum(state: VDFState): void {
+	if (crc32(encodeStateBody(state)) !== state.checksum) {
+		throw new InvalidStateError("state checksum mismatch");
+	}
+}
+
+function withChecksum<S extends VDFState>(state: Omit<S, "checksum">): S {
+	const full = { ...state, checksum: 0 } as S;
+	full.checksum = crc32(encodeStateBody(full));
+	return full;
+}
+
+function checkSaveEvery(saveEvery: number): void {
+	if (!Number.isSafeInteger(saveEvery) || saveEvery <= 0) {
+		throw new InvalidParamsError("saveEvery must be a positive integer");
+	}
+}
+
+/**
+ * Encode a state snapshot into bytes for persistence.
+ *
+ * Layout (all integers big-endian):
+ *
+ *   version (1) | kind (1) | len (4) | n | t (8) | iteration (8) |
+ *   x | value (each bigintByteLength(n) bytes) | checksum (4)
+ *
+ * for evaluation, and for proving:
+ *
+ *   version (1) | kind (1) | len (4) | n | t (8) | iteration (8) |
+ *   x | len (4) | l | pi | r (bigintByteLength(l) bytes) | checksum (4)
+ *
+ * The checksum is the CRC-32 of all preceding bytes.
+ *
+ * @param state - State snapshot
+ * @returns Encoded bytes
+ */
+export function encodeState(state: VDFState): Uint8Array {
+	checkStateRanges(state);
+	checkChecksum(state);
+	return concatBytes(encodeStateBody(state), u32be(state.checksum));
+}
+
+/**
+ * Decode a state snapshot, rejecting corrupted or malformed input.
+ *
+ * @param bytes - Encoded state
+ * @returns Decoded state
+ */
+export function decodeState(bytes: Uint8Array): VDFState {
+	const reader = new ByteReader(bytes, "state encoding");
+
+	const version = reader.u8();
+	if (version !== STATE_ENCODING_VERSION) {
+		throw new ProofFormatError(`unsupported state encoding version ${version}`);
+	}
+	const kind = reader.u8();
+	if (kind !== KIND_EVALUATE && kind !== KIND_PROVE) {
+		throw new ProofFormatError(`unknown state kind ${kind}`);
+	}
+
+	const n = reader.varBigint("modulus");
+	const t = reader.u64();
+	const iteration = reader.u64();
+	if (t > BigInt(Number.MAX_SAFE_INTEGER)) {
+		throw new ProofFormatError("t must be a positive safe integer");
+	}
+	if (iteration > t) {
+		throw new ProofFormatError("iteration must be in range [0, t]");
+	}
+
+	const nLen = bigintByteLength(n);
+	const x = bytesToBigint(reader.take(nLen));
+	const common = { x, n, t: Number(t), iteration: Number(iteration) };
+
+	let state: VDFState;
+	if (kind === KIND_EVALUATE) {
+		const value = bytesToBigint(reader.take(nLen));
+		state = { kind: "evaluate", ...common, value, checksum: reader.u32() };
+	} else {
+		const l = reader.varBigint("challenge");
+		const pi = bytesToBigint(reader.take(nLen));
+		const r = bytesToBigint(reader.take(bigintByteLength(l)));
+		state = { kind: "prove", ...common, l, pi, r, checksum: reader.u32() };
+	}
+
+	if (reader.remaining !== 0) {
+		throw new ProofFormatError("state encoding has trailing bytes");
+	}
+
+	checkChecksum(state);
+	checkStateRanges(state);
+	return state;
+}
+
+/**
+ * Evaluate the VDF with periodic snapshots that allow resuming after a
+ * crash or restart.
+ *
+ * Every `saveEvery` squarings, `onState` receives a snapshot that can be
+ * persisted with `encodeState`. Passing a snapshot back as `state`
+ * continues from it; the snapshot must have been taken for the same x, n
+ * and t and its checksum must match, otherwise an error is thrown. The
+ * checksum detects accidental corruption only: it cannot detect a
+ * deliberately forged snapshot, so snapshots should be stored where only
+ * the prover can write them.
+ *
+ * In the signed group, snapshots are taken for the canonical input
+ * min(x, n - x) and hold canonical values. The output carries the modulus
+ * identifier and challenge configuration of the parameters, as with
+ * `evaluate`.
+ *
+ * @param x - Input value (must be coprime to n)
+ * @param params - VDF parameters (n, t, optional signed group)
+ * @param options - Snapshot to resume from, snapshot interval and callback
+ * @returns VDF output, identical to `evaluate`
+ */
+export function evaluateResumable(
+	x: bigint,
+	params: VDFParams,
+	options: ResumableOptions<EvaluationState> = {},
+): VDFOutput {
+	const { n, t } = params;
+	const { state, onState } = options;
+	const saveEvery = options.saveEvery ?? DEFAULT_SAVE_EVERY;
+
+	if (x <= 0n || x >= n) {
+		throw new InvalidInputError("x must be in range (0, n)");
+	}
+	if (gcd(x, n) !== 1n) {
+		throw new InvalidInputError("x must be coprime to n");
+	}
+	if (t <= 0) {
+		throw new InvalidParamsError("t must be positive");
+	}
+	checkSaveEvery(saveEvery);
+	checkOptionalParams(params);
+
+	const signed = params.signed ?? false;
+	const input = new RSAGroup(n, { signed }).canonical(x);
+
+	let iteration = 0;
+	let value = input;
+	if (state) {
+		if (state.kind !== "evaluate") {
+			throw new InvalidStateError("state is not an evaluation state");
+		}
+		checkChecksum(state);
+		checkStateRanges(state);
+		if (state.x !== input || state.n !== n || state.t !== t) {
+			throw new InvalidStateError("state does not belong to this x, n and t");
+		}
+		iteration = state.iteration;
+		value = state.value;
+	}
+
+	const group = rsaGroupFor(n, t - iteration, { signed });
+	let h = group.fromBigint(value);
+	while (iteration < t) {
+		const steps = onState ? Math.min(saveEvery, t - iteration) : t - iteration;
+		h = group.repeatedSquare(h, steps);
+		iteration += steps;
+		if (onState && iteration < t) {
+			onState(
+				withChecksum<EvaluationState>({
+					kind: "evaluate",
+					x: input,
+					n,
+					t,
+					iteration,
+					value: group.toBigint(h),
+				}),
+			);
+		}
+	}
+
+	return outputWithParams(params, input, group.toBigint(h));
+}
+
+/**
+ * Compute the proof π = x^⌊2^t / l⌋ mod n with periodic snapshots of the
+ * long-division state (π, r) that allow resuming after a crash or restart.
+ *
+ * Works like `evaluateResumable`; a snapshot must match x, n, t and l.
+ *
+ * @param output - VDF output to prove
+ * @param l - Challenge prime
+ * @param options - Snapshot to resume from, snapshot interval and callback
+ * @returns Proof value π, identical to `prove`
+ */
+export function proveResumable(
+	output: VDFOutput,
+	l: bigint,
+	options: ResumableOptions<ProofState> = {},
+): bigint {
+	const { x, t, n, signed } = output;
+	const { state, onState } = options;
+	const saveEvery = options.saveEvery ?? DEFAULT_SAVE_EVERY;
+
+	checkSaveEvery(saveEvery);
+
+	let iteration = 0;
+	let pi = 1n;
+	let r = 1n;
+	if (state) {
+		if (state.kind !== "prove") {
+			throw new InvalidStateError("state is not a proof state");
+		}
+		checkChecksum(state);
+		checkStateRanges(state);
+		if (state.x !== x || state.n !== n || state.t !== t || state.l !== l) {
+			throw new InvalidStateError(
+				"state does not belong to this x, n, t and l",
+			);
+		}
+		iteration = state.iteration;
+		pi = state.pi;
+		r = state.r;
+	}
+
+	// In a signed group, π and the snapshots are canonical; the sign of a
+	// resumed π does not matter since the next step squares it
+	const group = rsaGroupFor(n, t - iteration, { signed });
+	const gx = group.fromBigint(x);
+	let gpi = group.fromBigint(pi);
+
+	while (iteration < t) {
+		const end = onState ? Math.min(iteration + saveEvery, t) : t;
+		for (; iteration < end; iteration++) {
+			gpi = group.square(gpi);
+
+			const r2 = r << 1n;
+			if (r2 >= l) {
+				r = r2 - l;
+				gpi = group.multiply(gpi, gx);
+			} else {
+				r = r2;
+			}
+		}
+		if (onState && iteration < t) {
+			onState(
+				withChecksum<ProofState>({
+					kind: "prove",
+					x,
+					n,
+					t,
+					l,
+					iteration,
+					pi: group.toBigint(gpi),
+					r,
+				}),
+			);
+		}
+	}
+
+	return group.toBigint(gpi);
+}
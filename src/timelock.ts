@@ -0,0 +1,182 @@
+import {
+	bigintByteLength,
+	bigintToFixedBytes,
+	concatBytes,
+	u64be,
+} from "./utils.ts";
+import { hashToGroup } from "./hash.ts";
+import { evaluateWithTrapdoor, type TrapdoorParams } from "./trapdoor.ts";
+import {
+	evaluate,
+	generateProof,
+	type VDFOutput,
+	type VDFProof,
+} from "./vdf.ts";
+import { DecryptionError, InvalidParamsError } from "./errors.ts";
+
+const TIMELOCK_KEY_TAG = new TextEncoder().encode("wesolowski-timelock-v1");
+
+const TIMELOCK_INPUT_DOMAIN = "wesolowski-timelock-input";
+
+/** Byte length of the AES-GCM initialization vector */
+export const TIMELOCK_IV_BYTES = 12;
+
+/**
+ * Parameters for creating a time-lock puzzle. The factorization n = p·q
+ * is only needed by the creator and is not part of the puzzle.
+ */
+export type TimeLockParams = TrapdoorParams;
+
+/**
+ * A sealed message that can only be opened after computing x^(2^t) mod n.
+ */
+export interface TimeLockPuzzle {
+	n: bigint;
+	t: number;
+	/** Puzzle input */
+	x: bigint;
+	/** AES-GCM initialization vector */
+	iv: Uint8Array;
+	/** AES-GCM ciphertext, including the authentication tag */
+	ciphertext: Uint8Array;
+}
+
+export interface SolveTimeLockOptions {
+	/** Also produce a Wesolowski proof that h = x^(2^t) mod n */
+	prove?: boolean;
+	/** Nonce for the proof (generated randomly if not provided) */
+	nonce?: Uint8Array;
+}
+
+export interface TimeLockSolution {
+	/** Decrypted message */
+	message: Uint8Array;
+	/** VDF output h = x^(2^t) mod n from which the key was derived */
+	output: VDFOutput;
+	/** Proof of the output, when requested */
+	proof?: VDFProof;
+}
+
+/**
+ * Derive the AES-256-GCM key for a puzzle from h with HKDF-SHA-256.
+ *
+ * The HKDF info binds the key to (t, x, n), so the same h cannot be reused
+ * across puzzles with different parameters.
+ */
+async function deriveKey(
+	h: bigint,
+	x: bigint,
+	t: number,
+	n: bigint,
+): Promise<CryptoKey> {
+	const nLen = bigintByteLength(n);
+	const ikm = await crypto.subtle.importKey(
+		"raw",
+		bigintToFixedBytes(h, nLen) as Uint8Array<ArrayBuffer>,
+		"HKDF",
+		false,
+		["deriveKey"],
+	);
+	const info = concatBytes(
+		TIMELOCK_KEY_TAG,
+		u64be(BigInt(t)),
+		bigintToFixedBytes(x, nLen),
+		bigintToFixedBytes(n, nLen),
+	);
+	return crypto.subtle.deriveKey(
+		{
+			name: "HKDF",
+			hash: "SHA-256",
+			salt: new Uint8Array(0),
+			info: info as Uint8Array<ArrayBuffer>,
+		},
+		ikm,
+		{ name: "AES-GCM", length: 256 },
+		false,
+		["encrypt", "decrypt"],
+	);
+}
+
+/**
+ * Create a Rivest-Shamir-Wagner time-lock puzzle.
+ *
+ * The creator knows the factorization of n, so h = x^(2^t) mod n is
+ * computed quickly with `evaluateWithTrapdoor`. The message is encrypted with
+ * AES-256-GCM under a key derived from h. Anyone without the factors must
+ * perform t sequential squarings to recover h and decrypt.
+ *
+ * The input x is derived from a random seed with `hashToGroup`.
+ *
+ * @param message - Message to seal (strings are UTF-8 encoded)
+ * @param params - Modulus, delay and factorization
+ * @returns Puzzle that can be published; it does not contain p or q
+ */
+export async function createTimeLockPuzzle(
+	message: Uint8Array | string,
+	params: TimeLockParams,
+): Promise<TimeLockPuzzle> {
+	const { n, t } = params;
+
+	const seed = new Uint8Array(32);
+	crypto.getRandomValues(seed);
+	const x = await hashToGroup(seed, n, { domain: TIMELOCK_INPUT_DOMAIN });
+	const { h } = evaluateWithTrapdoor(x, params);
+
+	const plaintext =
+		typeof message === "string" ? new TextEncoder().encode(message) : message;
+	const iv = new Uint8Array(TIMELOCK_IV_BYTES);
+	crypto.getRandomValues(iv);
+
+	const key = await deriveKey(h, x, t, n);
+	const ciphertext = await crypto.subtle.encrypt(
+		{ name: "AES-GCM", iv },
+		key,
+		plaintext as Uint8Array<ArrayBuffer>,
+	);
+
+	return { n, t, x, iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+/**
+ * Solve a time-lock puzzle by performing the t sequential squarings.
+ *
+ * Optionally produces a Wesolowski proof of h = x^(2^t) mod n, so that
+ * others can check the solution without repeating the work.
+ *
+ * @param puzzle - Puzzle to solve
+ * @param options - Proof generation
+ * @returns Decrypted message, VDF output and optional proof
+ */
+export async function solveTimeLockPuzzle(
+	puzzle: TimeLockPuzzle,
+	options: SolveTimeLockOptions = {},
+): Promise<TimeLockSolution> {
+	const { n, t, x, iv, ciphertext } = puzzle;
+
+	if (iv.length !== TIMELOCK_IV_BYTES) {
+		throw new InvalidParamsError("iv must be 12 bytes");
+	}
+
+	const output = evaluate(x, { n, t });
+	const key = await deriveKey(output.h, x, t, n);
+
+	let plaintext: ArrayBuffer;
+	try {
+		plaintext = await crypto.subtle.decrypt(
+			{ name: "AES-GCM", iv: iv as Uint8Array<ArrayBuffer> },
+			key,
+			ciphertext as Uint8Array<ArrayBuffer>,
+		);
+	} catch {
+		throw new DecryptionError("time-lock puzzle decryption failed");
+	}
+
+	const solution: TimeLockSolution = {
+		message: new Uint8Array(plaintext),
+		output,
+	};
+	if (options.prove) {
+		solution.proof = await generateProof(output, options.nonce);
+	}
+	return solution;
+}
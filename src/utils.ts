@@ -1,3 +1,5 @@
+import { InvalidInputError } from "./errors.ts";
+
 /**
  * Compute greatest common divisor of two bigints using Euclidean algorithm.
  */
@@ -8,6 +10,60 @@ export function gcd(a: bigint, b: bigint): bigint {
 	return a;
 }
 
+/**
+ * Extended Euclidean algorithm.
+ *
+ * @returns [g, x, y] such that a·x + b·y = g = gcd(a, b), with g >= 0
+ */
+export function extendedGcd(a: bigint, b: bigint): [bigint, bigint, bigint] {
+	let [r0, r1] = [a, b];
+	let [x0, x1] = [1n, 0n];
+	let [y0, y1] = [0n, 1n];
+	while (r1 !== 0n) {
+		const q = r0 / r1;
+		[r0, r1] = [r1, r0 - q * r1];
+		[x0, x1] = [x1, x0 - q * x1];
+		[y0, y1] = [y1, y0 - q * y1];
+	}
+	if (r0 < 0n) {
+		return [-r0, -x0, -y0];
+	}
+	return [r0, x0, y0];
+}
+
+/**
+ * Modular inverse: the x in [0, m) such that a·x ≡ 1 (mod m).
+ *
+ * @throws InvalidInputError if m is not positive or a is not invertible
+ * modulo m
+ */
+export function modInverse(a: bigint, m: bigint): bigint {
+	if (m <= 0n) {
+		throw new InvalidInputError("modulus must be positive");
+	}
+	const [g, x] = extendedGcd(((a % m) + m) % m, m);
+	if (g !== 1n) {
+		throw new InvalidInputError("value is not invertible");
+	}
+	return ((x % m) + m) % m;
+}
+
+/**
+ * Integer square root: the largest s such that s^2 <= n.
+ */
+export function isqrt(n: bigint): bigint {
+	if (n < 0n) {
+		throw new InvalidInputError("isqrt of negative number");
+	}
+	if (n < 2n) return n;
+	let x = 1n << BigInt((bigintBitLength(n) + 1) >> 1);
+	while (true) {
+		const y = (x + n / x) >> 1n;
+		if (y >= x) return x;
+		x = y;
+	}
+}
+
 /**
  * Encode a 32-bit unsigned integer as big-endian bytes.
  */
@@ -25,7 +81,7 @@ export function u32be(n: number): Uint8Array {
  */
 export function u64be(x: bigint): Uint8Array {
 	if (x < 0n || x > 0xffff_ffff_ffff_ffffn) {
-		throw new RangeError("u64be out of range");
+		throw new InvalidInputError("u64be out of range");
 	}
 	const b = new Uint8Array(8);
 	for (let i = 7; i >= 0; i--) {
@@ -84,7 +140,7 @@ export function bigintBitLength(x: bigint): number {
 export function bigintToFixedBytes(x: bigint, len: number): Uint8Array {
 	const bytes = bigintToBytes(x);
 	if (bytes.length > len) {
-		throw new RangeError("bigint too large for fixed length");
+		throw new InvalidInputError("bigint too large for fixed length");
 	}
 	if (bytes.length === len) {
 		return bytes;
@@ -102,6 +158,30 @@ export function bytesToBigint(bytes: Uint8Array): bigint {
 	return BigInt(`0x${Buffer.from(bytes).toString("hex")}`);
 }
 
+let crc32Table: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE 802.3) checksum of a byte string.
+ */
+export function crc32(bytes: Uint8Array): number {
+	if (!crc32Table) {
+		crc32Table = new Uint32Array(256);
+		for (let i = 0; i < 256; i++) {
+			let c = i;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crc32Table[i] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (const b of bytes) {
+		crc = crc32Table[(crc ^ b) & 0xff]! ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
 const MODPOW_WINDOW_THRESHOLD_BITS = 64;
 const MODPOW_MONTGOMERY_THRESHOLD_N_BITS = 1024;
 const MODPOW_MONTGOMERY_THRESHOLD_EXP_BITS = 128;
@@ -1,16 +1,26 @@
-import {
-	gcd,
-	modpow,
-	modpowProduct,
-	bigintByteLength,
-	bigintToFixedBytes,
-	bytesToBigint,
-	concatBytes,
-	u64be,
-	MontgomeryReducer,
-	PRECOMPUTED_MONTGOMERY,
-} from "./utils.ts";
+import { gcd, modpow, concatBytes, u64be } from "./utils.ts";
 import { isPrime, nextPrime } from "./prime.ts";
+import { RSAGroup, rsaGroupFor, type Group } from "./group.ts";
+import { hashToGroup, type HashToGroupOptions } from "./hash.ts";
+import {
+	hashChallenge,
+	hashChallengeSync,
+	isValidChallengeConfig,
+	resolveChallengeConfig,
+	sameChallengeConfig,
+	type ChallengeConfig,
+} from "./challenge.ts";
+import {
+	registerModulus,
+	isRegisteredAs,
+	modulusIdOf,
+	modulusTranscript,
+} from "./registry.ts";
+import {
+	InvalidInputError,
+	InvalidParamsError,
+	ModulusRegistryError,
+} from "./errors.ts";
 
 /**
  * RSA-2048 modulus from the RSA Factoring Challenge.
@@ -22,6 +32,7 @@ export const RSA_2048 =
 /**
  * RSA-3072 modulus generated deterministically from seed "wesolowski-vdf-3072-v1".
  * Product of two 1536-bit primes derived via SHA-512 expansion of the seed.
+ * Recompute with `deriveModulusFromSeed("wesolowski-vdf-3072-v1", 3072)`.
  */
 export const RSA_3072 =
 	3015017089231152757690960192819102043239114796373510848429903864432127926621011048902548224914569976574804545802968225392515796580594427309749119888690514520697735227809080892639645726606101685161543130533709224983923499813299534038323830120529164922439502839581694290284582033382579949482144483502720609219537823773807003486475077998035830574897791371155216308955087907581855160547723014498258992595638871429884236335782312503122137811385209002498762063575873159567710402632512148958867479020086529560547316399102161601294979708849478217224852074530699599634015563903219513047529247971412842419113291879987671441984672878552236993930476157095066037788836046668352516519753931267560471531031825708279999678181842184116371633187398287164131540429506469512602889505388574166070224051019663670261449037721581090162255144436879425655099190029928032159780455118934994948531030466424988709057802054494434743489026933108953509721187n;
@@ -29,22 +40,29 @@ export const RSA_3072 =
 /**
  * RSA-4096 modulus generated deterministically from seed "wesolowski-vdf-4096-v1".
  * Product of two 2048-bit primes derived via SHA-512 expansion of the seed.
+ * Recompute with `deriveModulusFromSeed("wesolowski-vdf-4096-v1", 4096)`.
  */
 export const RSA_4096 =
 	747352962051197730297934919296234225189963654905354427935353846101556895653541386541113520324263294236545904951060839962240274328375769020274431343912159134032165179555313439967918389676450595794483961040941009764122804794391046181942378647240304779972800690260262458348432539960153442657440901219540972943438653104032458070568153835275543015109580808966986224704918221024659890631684764229276547856850956248069577074873655045641411730285176021174124881403213574051977133606281732412418110713517515403558206281426502307580805475595646318182131891740149180223766312249910746627476702983991742718162876076881178303622511590593201630576134594272015989973633963594696486662570772886452272875842074410973837076866917833535886485424053178508915192831696893924147315437442669203873331664056119890477640884789110398626309285007167528107151236086156213498812507448284884702425573571668426362484661294563894216561407502197042527165655552237164601552270513010824469002566905851820787653065990471601308759319433849706433417940795470233138004510961817143010200050242333170912109749939932325818168759208959845084239707593225093832222693592214393944838071322068559847352433869357261322929618870704385679303841709580866230005780921498919331589072271n;
 
-function initPrecomputedMontgomery() {
-	for (const n of [RSA_2048, RSA_3072, RSA_4096]) {
-		PRECOMPUTED_MONTGOMERY.set(n, new MontgomeryReducer(n));
-	}
-}
-initPrecomputedMontgomery();
+registerModulus("rsa2048-challenge", RSA_2048);
+registerModulus("rsa3072-v1", RSA_3072);
+registerModulus("rsa4096-v1", RSA_4096);
 
 export interface VDFParams {
 	/** RSA modulus n */
 	n: bigint;
 	/** Time parameter (number of sequential squarings) */
 	t: number;
+	/** Registry identifier of n, to use the compact transcript */
+	modulusId?: string;
+	/** Challenge derivation (default: SHA-512, 512 bits, "wesolowski-v1") */
+	challenge?: ChallengeConfig;
+	/**
+	 * Evaluate in the signed group QR⁺_n = Z*_n / {±1}, where elements are
+	 * represented by min(v, n - v) (default: false)
+	 */
+	signed?: boolean;
 }
 
 export interface VDFOutput {
@@ -56,6 +74,18 @@ export interface VDFOutput {
 	t: number;
 	/** RSA modulus */
 	n: bigint;
+	/**
+	 * Registry identifier of n. When set, challenge transcripts bind the
+	 * identifier and a fingerprint of n instead of its raw bytes.
+	 */
+	modulusId?: string;
+	/** Challenge derivation used for proofs of this output */
+	challenge?: ChallengeConfig;
+	/**
+	 * Set when x, h (and π) are elements of the signed group QR⁺_n, each
+	 * the canonical representative min(v, n - v)
+	 */
+	signed?: boolean;
 }
 
 export interface VDFProof extends VDFOutput {
@@ -67,94 +97,583 @@ export interface VDFProof extends VDFOutput {
 	nonce: Uint8Array;
 }
 
-const MONTGOMERY_THRESHOLD_T = 1000;
-const MONTGOMERY_THRESHOLD_N_BITS = 1024;
+export interface VerifyOptions {
+	/** Reject proofs whose modulus is not in the registry */
+	requireRegistered?: boolean;
+	/**
+	 * Reject proofs whose challenge configuration does not resolve to this
+	 * one, so that a prover cannot pick a weaker one
+	 */
+	challenge?: ChallengeConfig;
+}
+
+export interface VerifyDetailedOptions extends VerifyOptions {
+	/**
+	 * Re-derive the challenge from the transcript, as `verifyWithChallenge`
+	 * does (default: true)
+	 */
+	checkChallenge?: boolean;
+}
 
-const CHALLENGE_TAG = new TextEncoder().encode("wesolowski-v1");
+/**
+ * Outcome codes of `verifyDetailed`. "OK" means the proof is valid; any
+ * other code names the first check the proof failed. Codes are stable
+ * across versions.
+ */
+export type VerifyCode =
+	| "OK"
+	| "INVALID_MODULUS"
+	| "UNREGISTERED_MODULUS"
+	| "INVALID_T"
+	| "INVALID_X"
+	| "INVALID_H"
+	| "INVALID_PI"
+	| "INVALID_CHALLENGE_CONFIG"
+	| "INVALID_NONCE"
+	| "CHALLENGE_MISMATCH"
+	| "L_NOT_PRIME"
+	| "EQUATION_MISMATCH";
 
-const montgomeryCache = new Map<bigint, MontgomeryReducer>();
+/**
+ * Result of `verifyDetailed`.
+ */
+export interface VerifyResult {
+	/** true if the proof is valid */
+	ok: boolean;
+	/** "OK", or the check the proof failed */
+	code: VerifyCode;
+	/** Human-readable description of the outcome */
+	reason: string;
+}
 
-function getMontgomeryReducer(n: bigint): MontgomeryReducer {
-	let reducer = PRECOMPUTED_MONTGOMERY.get(n);
-	if (reducer) return reducer;
+/**
+ * VDF output in an arbitrary group.
+ */
+export interface GroupOutput<E> {
+	/** Input element x */
+	x: E;
+	/** Output element h = x^(2^t) */
+	h: E;
+	/** Time parameter */
+	t: number;
+	/** Challenge derivation used for proofs of this output */
+	challenge?: ChallengeConfig;
+}
 
-	reducer = montgomeryCache.get(n);
-	if (!reducer) {
-		reducer = new MontgomeryReducer(n);
-		if (montgomeryCache.size < 10) {
-			montgomeryCache.set(n, reducer);
+/**
+ * Wesolowski proof in an arbitrary group.
+ */
+export interface GroupProof<E> extends GroupOutput<E> {
+	/** Proof π */
+	pi: E;
+	/** Challenge prime l */
+	l: bigint;
+	/** Nonce used to derive l */
+	nonce: Uint8Array;
+}
+
+/**
+ * Evaluate the VDF in a group: compute h = x^(2^t).
+ *
+ * @param group - Group to evaluate in
+ * @param x - Input element
+ * @param t - Number of sequential squarings
+ * @returns VDF output containing x, h, t
+ */
+export function evaluateInGroup<E>(
+	group: Group<E>,
+	x: E,
+	t: number,
+): GroupOutput<E> {
+	if (!group.isElement(x)) {
+		throw new InvalidInputError("x must be a valid group element");
+	}
+	if (t <= 0) {
+		throw new InvalidParamsError("t must be positive");
+	}
+
+	return { x, h: group.repeatedSquare(x, t), t };
+}
+
+/**
+ * Challenge transcript of a VDF output without the tag:
+ * x || h || t || group || nonce.
+ */
+function challengePayload<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	nonce: Uint8Array,
+): Uint8Array {
+	const { x, h, t } = output;
+
+	if (nonce.length !== 32) {
+		throw new InvalidParamsError("nonce must be 32 bytes");
+	}
+
+	return concatBytes(
+		group.encode(x),
+		group.encode(h),
+		u64be(BigInt(t)),
+		group.transcript(),
+		nonce,
+	);
+}
+
+function randomNonce(): Uint8Array {
+	const nonce = new Uint8Array(32);
+	crypto.getRandomValues(nonce);
+	return nonce;
+}
+
+/**
+ * Derive the challenge prime l for a VDF output in a group.
+ *
+ * The challenge is derived deterministically from a hash of the full
+ * transcript (tag, x, h, t, group, nonce), then incremented until prime.
+ * The hash function, size and tag come from the output's challenge
+ * configuration; by default, SHA-512 with the tag "wesolowski-v1".
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output
+ * @param nonce - 32-byte random nonce
+ * @returns Challenge prime l
+ */
+export async function deriveChallengeInGroup<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	nonce: Uint8Array,
+): Promise<bigint> {
+	const payload = challengePayload(group, output, nonce);
+	const config = resolveChallengeConfig(output.challenge);
+	return nextPrime(await hashChallenge(config, payload));
+}
+
+/**
+ * Synchronous `deriveChallengeInGroup`. Hashing uses the pure TypeScript
+ * implementations, and the challenge is identical.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output
+ * @param nonce - 32-byte random nonce
+ * @returns Challenge prime l
+ */
+export function deriveChallengeInGroupSync<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	nonce: Uint8Array,
+): bigint {
+	const payload = challengePayload(group, output, nonce);
+	const config = resolveChallengeConfig(output.challenge);
+	return nextPrime(hashChallengeSync(config, payload));
+}
+
+/**
+ * Compute the Wesolowski proof π = x^⌊2^t / l⌋ in a group using long
+ * division in the exponent.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output to prove
+ * @param l - Challenge prime
+ * @returns Proof element π
+ */
+export function proveInGroup<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	l: bigint,
+): E {
+	const { x, t } = output;
+
+	let pi = group.identity();
+	let r = 1n;
+
+	for (let i = 0; i < t; i++) {
+		pi = group.square(pi);
+
+		const r2 = r << 1n;
+		if (r2 >= l) {
+			r = r2 - l;
+			pi = group.multiply(pi, x);
+		} else {
+			r = r2;
 		}
 	}
-	return reducer;
+
+	return pi;
 }
 
-function shouldUseMontgomery(n: bigint, t: number): boolean {
-	if (PRECOMPUTED_MONTGOMERY.has(n)) {
-		return t >= 100;
+/**
+ * Generate a complete VDF proof in a group including challenge derivation.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @returns Complete VDF proof
+ */
+export async function generateProofInGroup<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	nonce?: Uint8Array,
+): Promise<GroupProof<E>> {
+	if (!nonce) {
+		nonce = randomNonce();
 	}
-	if (t < MONTGOMERY_THRESHOLD_T) {
-		return false;
+
+	const l = await deriveChallengeInGroup(group, output, nonce);
+	const pi = proveInGroup(group, output, l);
+
+	return {
+		...output,
+		pi,
+		l,
+		nonce,
+	};
+}
+
+/**
+ * Synchronous `generateProofInGroup`.
+ *
+ * @param group - Group the output belongs to
+ * @param output - VDF output to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @returns Complete VDF proof
+ */
+export function generateProofInGroupSync<E>(
+	group: Group<E>,
+	output: GroupOutput<E>,
+	nonce?: Uint8Array,
+): GroupProof<E> {
+	if (!nonce) {
+		nonce = randomNonce();
 	}
-	if ((n & 1n) === 0n) {
-		return false;
+
+	const l = deriveChallengeInGroupSync(group, output, nonce);
+	const pi = proveInGroup(group, output, l);
+
+	return {
+		...output,
+		pi,
+		l,
+		nonce,
+	};
+}
+
+const VALID: VerifyResult = { ok: true, code: "OK", reason: "proof is valid" };
+
+function failure(code: VerifyCode, reason: string): VerifyResult {
+	return { ok: false, code, reason };
+}
+
+/**
+ * Check t and that x, h and π are elements of the group.
+ */
+function checkProofElements<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): VerifyResult {
+	const { x, h, t, pi } = proof;
+
+	if (!Number.isSafeInteger(t) || t <= 0) {
+		return failure("INVALID_T", "t must be a positive safe integer");
+	}
+	if (!group.isElement(x)) {
+		return failure("INVALID_X", "x is not an element of the group");
 	}
-	const nBits = bigintByteLength(n) * 8;
-	return nBits >= MONTGOMERY_THRESHOLD_N_BITS;
+	if (!group.isElement(h)) {
+		return failure("INVALID_H", "h is not an element of the group");
+	}
+	if (!group.isElement(pi)) {
+		return failure("INVALID_PI", "pi is not an element of the group");
+	}
+	return VALID;
+}
+
+/**
+ * Check that l is prime and that π^l · x^r = h, where r = 2^t mod l.
+ */
+function checkProofEquation<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): VerifyResult {
+	const { x, h, t, pi, l } = proof;
+
+	// Baillie-PSW, so every verifier reaches the same result
+	if (l <= 2n || !isPrime(l, { method: "bpsw" })) {
+		return failure("L_NOT_PRIME", "l is not an odd prime");
+	}
+
+	// Compute r = 2^t mod l
+	const r = modpow(2n, BigInt(t), l);
+
+	// Verify π^l · x^r = h
+	const expected = group.powProduct(pi, l, x, r);
+	if (!group.equals(expected, h)) {
+		return failure("EQUATION_MISMATCH", "pi^l · x^r does not equal h");
+	}
+	return VALID;
+}
+
+/**
+ * Checks that must pass before the challenge can be re-derived: the
+ * elements, the challenge configuration and the nonce.
+ */
+function checkChallengeInputs<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): VerifyResult {
+	const elements = checkProofElements(group, proof);
+	if (!elements.ok) {
+		return elements;
+	}
+	if (!isValidChallengeConfig(proof.challenge)) {
+		return failure(
+			"INVALID_CHALLENGE_CONFIG",
+			"challenge configuration is invalid",
+		);
+	}
+	if (proof.nonce.length !== 32) {
+		return failure("INVALID_NONCE", "nonce must be 32 bytes");
+	}
+	return VALID;
+}
+
+function challengeMismatch(): VerifyResult {
+	return failure(
+		"CHALLENGE_MISMATCH",
+		"l does not match the challenge derived from the transcript",
+	);
+}
+
+function verifyInGroupDetailed<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): VerifyResult {
+	const elements = checkProofElements(group, proof);
+	return elements.ok ? checkProofEquation(group, proof) : elements;
+}
+
+async function verifyWithChallengeInGroupDetailed<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): Promise<VerifyResult> {
+	const { x, h, t, nonce, challenge } = proof;
+
+	const inputs = checkChallengeInputs(group, proof);
+	if (!inputs.ok) {
+		return inputs;
+	}
+
+	// Re-derive the challenge
+	const expectedL = await deriveChallengeInGroup(
+		group,
+		{ x, h, t, challenge },
+		nonce,
+	);
+	if (expectedL !== proof.l) {
+		return challengeMismatch();
+	}
+
+	return checkProofEquation(group, proof);
+}
+
+function verifyWithChallengeInGroupDetailedSync<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): VerifyResult {
+	const { x, h, t, nonce, challenge } = proof;
+
+	const inputs = checkChallengeInputs(group, proof);
+	if (!inputs.ok) {
+		return inputs;
+	}
+
+	const expectedL = deriveChallengeInGroupSync(
+		group,
+		{ x, h, t, challenge },
+		nonce,
+	);
+	if (expectedL !== proof.l) {
+		return challengeMismatch();
+	}
+
+	return checkProofEquation(group, proof);
+}
+
+/**
+ * Verify a Wesolowski proof in a group by checking π^l · x^r = h,
+ * where r = 2^t mod l.
+ *
+ * @param group - Group the proof belongs to
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export function verifyInGroup<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): boolean {
+	return verifyInGroupDetailed(group, proof).ok;
+}
+
+/**
+ * Full verification in a group including challenge re-derivation.
+ *
+ * @param group - Group the proof belongs to
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export async function verifyWithChallengeInGroup<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): Promise<boolean> {
+	return (await verifyWithChallengeInGroupDetailed(group, proof)).ok;
+}
+
+/**
+ * Synchronous `verifyWithChallengeInGroup`.
+ *
+ * @param group - Group the proof belongs to
+ * @param proof - The proof to verify
+ * @returns true if the proof is valid
+ */
+export function verifyWithChallengeInGroupSync<E>(
+	group: Group<E>,
+	proof: GroupProof<E>,
+): boolean {
+	return verifyWithChallengeInGroupDetailedSync(group, proof).ok;
 }
 
 /**
  * Evaluate the VDF: compute h = x^(2^t) mod n.
  *
  * This requires t sequential squarings and cannot be parallelized.
- * The computation time grows linearly with t.
+ * The computation time grows linearly with t. With `signed: true`, x and
+ * h are the canonical representatives min(v, n - v) of their classes in
+ * QR⁺_n; since squaring removes the sign, h is the same class as in Z*_n.
  *
  * @param x - Input value (must be coprime to n)
- * @param params - VDF parameters (n, t)
+ * @param params - VDF parameters (n, t, optional signed group)
  * @returns VDF output containing x, h, t, n
  */
 export function evaluate(x: bigint, params: VDFParams): VDFOutput {
 	const { n, t } = params;
 
 	if (x <= 0n || x >= n) {
-		throw new RangeError("x must be in range (0, n)");
+		throw new InvalidInputError("x must be in range (0, n)");
 	}
 	if (gcd(x, n) !== 1n) {
-		throw new Error("x must be coprime to n");
+		throw new InvalidInputError("x must be coprime to n");
 	}
 	if (t <= 0) {
-		throw new RangeError("t must be positive");
-	}
-
-	if (shouldUseMontgomery(n, t)) {
-		const mont = getMontgomeryReducer(n);
-		const rMask = mont.rMask;
-		const nPrime = mont.nPrime;
-		const rBits = mont.rBitsBigint;
-		const modN = mont.n;
-
-		let h = mont.toMontgomery(x);
-		for (let i = 0; i < t; i++) {
-			const prod = h * h;
-			const m = ((prod & rMask) * nPrime) & rMask;
-			const u = (prod + m * modN) >> rBits;
-			h = u >= modN ? u - modN : u;
-		}
-		return { x, h: mont.fromMontgomery(h), t, n };
+		throw new InvalidParamsError("t must be positive");
 	}
+	checkOptionalParams(params);
 
-	let h = x;
-	for (let i = 0; i < t; i++) {
-		h = (h * h) % n;
+	const group = rsaGroupFor(n, t, { signed: params.signed });
+	const input = group.canonical(x);
+	const { h } = evaluateInGroup(group, group.fromBigint(input), t);
+	return outputWithParams(params, input, group.toBigint(h));
+}
+
+/**
+ * Check the modulus identifier and challenge configuration of VDF
+ * parameters, as every evaluation function does before evaluating.
+ *
+ * @param params - VDF parameters
+ */
+export function checkOptionalParams(params: VDFParams): void {
+	const { n, modulusId, challenge } = params;
+	if (modulusId !== undefined && !isRegisteredAs(modulusId, n)) {
+		throw new ModulusRegistryError(
+			`modulus id "${modulusId}" is not registered for n`,
+		);
+	}
+	if (challenge !== undefined) {
+		resolveChallengeConfig(challenge);
+	}
+}
+
+/**
+ * Build a VDF output carrying the modulus identifier, challenge
+ * configuration and signed flag of the parameters it was evaluated with.
+ *
+ * @param params - VDF parameters
+ * @param x - Input value, canonical in a signed group
+ * @param h - Output value, canonical in a signed group
+ * @returns VDF output
+ */
+export function outputWithParams(
+	params: VDFParams,
+	x: bigint,
+	h: bigint,
+): VDFOutput {
+	const { n, t, modulusId, challenge, signed } = params;
+	const output: VDFOutput = { x, h, t, n };
+	if (modulusId !== undefined) {
+		output.modulusId = modulusId;
 	}
+	if (challenge !== undefined) {
+		output.challenge = challenge;
+	}
+	if (signed) {
+		output.signed = true;
+	}
+	return output;
+}
 
-	return { x, h, t, n };
+/**
+ * RSA group whose transcript describes the output's modulus: the raw
+ * bytes of n, or the registry identifier and fingerprint of n when the
+ * output carries a modulusId; marked as signed for signed outputs.
+ */
+function challengeGroup(output: VDFOutput): RSAGroup {
+	const { n, modulusId, signed } = output;
+	if (modulusId === undefined) {
+		return new RSAGroup(n, { signed });
+	}
+	return new RSAGroup(n, {
+		transcript: modulusTranscript(modulusId, n),
+		signed,
+	});
+}
+
+/**
+ * Check the modulus of a proof against the registry, and its challenge
+ * configuration against the options, before verifying it.
+ */
+function checkModulus(proof: VDFProof, options: VerifyOptions): VerifyResult {
+	const { n, modulusId } = proof;
+	if (n <= 1n) {
+		return failure("INVALID_MODULUS", "n must be greater than 1");
+	}
+	if (modulusId !== undefined) {
+		if (!isRegisteredAs(modulusId, n)) {
+			return failure(
+				"UNREGISTERED_MODULUS",
+				`modulus id "${modulusId}" is not registered for n`,
+			);
+		}
+	} else if (options.requireRegistered && modulusIdOf(n) === undefined) {
+		return failure("UNREGISTERED_MODULUS", "n is not a registered modulus");
+	}
+	if (
+		options.challenge !== undefined &&
+		!sameChallengeConfig(proof.challenge, options.challenge)
+	) {
+		return failure(
+			"INVALID_CHALLENGE_CONFIG",
+			"challenge configuration is not the expected one",
+		);
+	}
+	return VALID;
 }
 
 /**
  * Derive the challenge prime l using Fiat-Shamir transform.
  *
- * The challenge is derived deterministically from SHA-512 hash of the
- * full transcript (g, h, t, n, nonce), then incremented until prime.
+ * The challenge is derived deterministically from a hash of the full
+ * transcript (g, h, t, n, nonce), SHA-512 unless the output carries
+ * another challenge configuration, then incremented until prime.
+ * If the output carries a modulusId, the transcript binds the identifier
+ * and a fingerprint of n in place of n.
  *
  * @param output - VDF output
  * @param nonce - 32-byte random nonce
@@ -164,30 +683,24 @@ export async function deriveChallenge(
 	output: VDFOutput,
 	nonce: Uint8Array,
 ): Promise<bigint> {
-	const { x, h, t, n } = output;
-
-	if (nonce.length !== 32) {
-		throw new RangeError("nonce must be 32 bytes");
-	}
-
-	const nLen = bigintByteLength(n);
-
-	const payload = concatBytes(
-		CHALLENGE_TAG,
-		bigintToFixedBytes(x, nLen),
-		bigintToFixedBytes(h, nLen),
-		u64be(BigInt(t)),
-		bigintToFixedBytes(n, nLen),
-		nonce,
-	);
-
-	const hash = await crypto.subtle.digest(
-		"SHA-512",
-		payload as Uint8Array<ArrayBuffer>,
-	);
+	return deriveChallengeInGroup(challengeGroup(output), output, nonce);
+}
 
-	const hashBigint = bytesToBigint(new Uint8Array(hash));
-	return nextPrime(hashBigint);
+/**
+ * Synchronous `deriveChallenge`, for callers that cannot await. Hashing
+ * uses pure TypeScript implementations instead of WebCrypto, so it also
+ * works in runtimes without `crypto.subtle`. The challenge is identical
+ * to the one `deriveChallenge` returns.
+ *
+ * @param output - VDF output
+ * @param nonce - 32-byte random nonce
+ * @returns Challenge prime l
+ */
+export function deriveChallengeSync(
+	output: VDFOutput,
+	nonce: Uint8Array,
+): bigint {
+	return deriveChallengeInGroupSync(challengeGroup(output), output, nonce);
 }
 
 /**
@@ -202,56 +715,15 @@ export async function deriveChallenge(
  * @returns Proof value π
  */
 export function prove(output: VDFOutput, l: bigint): bigint {
-	const { x, t, n } = output;
-
-	if (shouldUseMontgomery(n, t)) {
-		const mont = getMontgomeryReducer(n);
-		const rMask = mont.rMask;
-		const nPrime = mont.nPrime;
-		const rBits = mont.rBitsBigint;
-		const modN = mont.n;
-
-		const xMont = mont.toMontgomery(x);
-		let pi = mont.toMontgomery(1n);
-		let r = 1n;
-
-		for (let i = 0; i < t; i++) {
-			let prod = pi * pi;
-			let m = ((prod & rMask) * nPrime) & rMask;
-			let u = (prod + m * modN) >> rBits;
-			pi = u >= modN ? u - modN : u;
-
-			const r2 = r << 1n;
-			if (r2 >= l) {
-				r = r2 - l;
-				prod = pi * xMont;
-				m = ((prod & rMask) * nPrime) & rMask;
-				u = (prod + m * modN) >> rBits;
-				pi = u >= modN ? u - modN : u;
-			} else {
-				r = r2;
-			}
-		}
-
-		return mont.fromMontgomery(pi);
-	}
-
-	let pi = 1n;
-	let r = 1n;
-
-	for (let i = 0; i < t; i++) {
-		pi = (pi * pi) % n;
-
-		const r2 = r << 1n;
-		if (r2 >= l) {
-			r = r2 - l;
-			pi = (pi * x) % n;
-		} else {
-			r = r2;
-		}
-	}
+	const { x, h, t, n, signed } = output;
 
-	return pi;
+	const group = rsaGroupFor(n, t, { signed });
+	const pi = proveInGroup(
+		group,
+		{ x: group.fromBigint(x), h: group.fromBigint(h), t },
+		l,
+	);
+	return group.toBigint(pi);
 }
 
 /**
@@ -266,8 +738,7 @@ export async function generateProof(
 	nonce?: Uint8Array,
 ): Promise<VDFProof> {
 	if (!nonce) {
-		nonce = new Uint8Array(32);
-		crypto.getRandomValues(nonce);
+		nonce = randomNonce();
 	}
 
 	const l = await deriveChallenge(output, nonce);
@@ -281,58 +752,192 @@ export async function generateProof(
 	};
 }
 
+/**
+ * Synchronous `generateProof`, using `deriveChallengeSync`.
+ *
+ * @param output - VDF output to prove
+ * @param nonce - Optional 32-byte nonce (generated randomly if not provided)
+ * @returns Complete VDF proof
+ */
+export function generateProofSync(
+	output: VDFOutput,
+	nonce?: Uint8Array,
+): VDFProof {
+	if (!nonce) {
+		nonce = randomNonce();
+	}
+
+	const l = deriveChallengeSync(output, nonce);
+	const pi = prove(output, l);
+
+	return {
+		...output,
+		pi,
+		l,
+		nonce,
+	};
+}
+
 /**
  * Verify a Wesolowski VDF proof.
  *
  * Checks that π^l · x^r ≡ h (mod n) where r = 2^t mod l.
- * Verification requires only O(log t) exponentiations.
+ * Verification requires only O(log t) exponentiations. A proof carrying
+ * a modulusId that is not registered for n is rejected.
  *
  * @param proof - The proof to verify
+ * @param options - Registry requirements
  * @returns true if the proof is valid
  */
-export function verify(proof: VDFProof): boolean {
-	const { x, h, t, n, pi, l } = proof;
-
-	// Validate inputs
-	if (pi <= 0n || pi >= n) {
+export function verify(proof: VDFProof, options: VerifyOptions = {}): boolean {
+	if (!checkModulus(proof, options).ok) {
 		return false;
 	}
-	if (x <= 0n || x >= n) {
+	return verifyInGroup(new RSAGroup(proof.n, { signed: proof.signed }), proof);
+}
+
+/**
+ * Full verification including challenge re-derivation.
+ *
+ * Re-derives the challenge prime from the proof transcript and verifies
+ * both the challenge derivation and the proof equation.
+ *
+ * @param proof - The proof to verify
+ * @param options - Registry requirements
+ * @returns true if the proof is valid
+ */
+export async function verifyWithChallenge(
+	proof: VDFProof,
+	options: VerifyOptions = {},
+): Promise<boolean> {
+	if (!checkModulus(proof, options).ok) {
 		return false;
 	}
-	if (gcd(x, n) !== 1n) {
+	return verifyWithChallengeInGroup(challengeGroup(proof), proof);
+}
+
+/**
+ * Synchronous `verifyWithChallenge`, using `deriveChallengeSync`.
+ *
+ * @param proof - The proof to verify
+ * @param options - Registry requirements
+ * @returns true if the proof is valid
+ */
+export function verifyWithChallengeSync(
+	proof: VDFProof,
+	options: VerifyOptions = {},
+): boolean {
+	if (!checkModulus(proof, options).ok) {
 		return false;
 	}
-	if (l <= 2n || !isPrime(l)) {
-		return false;
+	return verifyWithChallengeInGroupSync(challengeGroup(proof), proof);
+}
+
+/**
+ * Verify a proof and report why it failed.
+ *
+ * Performs the checks of `verifyWithChallenge` (or of `verify` with
+ * `checkChallenge: false`) and returns the first one that failed as a
+ * stable code with a description, so that rejected proofs can be told
+ * apart: a malformed proof from a client bug, a challenge mismatch from a
+ * prover grinding transcripts, an equation mismatch from a wrong output.
+ * Never throws for a malformed proof.
+ *
+ * @param proof - The proof to verify
+ * @param options - Registry requirements and challenge re-derivation
+ * @returns Verification outcome with code and reason
+ */
+export async function verifyDetailed(
+	proof: VDFProof,
+	options: VerifyDetailedOptions = {},
+): Promise<VerifyResult> {
+	const modulus = checkModulus(proof, options);
+	if (!modulus.ok) {
+		return modulus;
+	}
+	if (options.checkChallenge === false) {
+		return verifyInGroupDetailed(
+			new RSAGroup(proof.n, { signed: proof.signed }),
+			proof,
+		);
 	}
+	return verifyWithChallengeInGroupDetailed(challengeGroup(proof), proof);
+}
 
-	// Compute r = 2^t mod l
-	const r = modpow(2n, BigInt(t), l);
+/**
+ * Synchronous `verifyDetailed`, using `deriveChallengeSync`.
+ *
+ * @param proof - The proof to verify
+ * @param options - Registry requirements and challenge re-derivation
+ * @returns Verification outcome with code and reason
+ */
+export function verifyDetailedSync(
+	proof: VDFProof,
+	options: VerifyDetailedOptions = {},
+): VerifyResult {
+	const modulus = checkModulus(proof, options);
+	if (!modulus.ok) {
+		return modulus;
+	}
+	if (options.checkChallenge === false) {
+		return verifyInGroupDetailed(
+			new RSAGroup(proof.n, { signed: proof.signed }),
+			proof,
+		);
+	}
+	return verifyWithChallengeInGroupDetailedSync(challengeGroup(proof), proof);
+}
 
-	// Verify π^l · x^r ≡ h (mod n)
-	const expected = modpowProduct(pi, l, x, r, n);
-	return expected === h;
+/**
+ * Evaluate the VDF on an input derived from seed bytes.
+ *
+ * The input is x = hashToGroup(seed, n, options), so callers never choose
+ * x directly and cannot pick weak inputs such as 1, n-1 or elements of
+ * small order.
+ *
+ * @param seed - Arbitrary seed bytes (e.g. a block hash)
+ * @param params - VDF parameters (n, t)
+ * @param options - Hash-to-group options (domain-separation tag)
+ * @returns VDF output containing x, h, t, n
+ */
+export async function evaluateFromSeed(
+	seed: Uint8Array,
+	params: VDFParams,
+	options: HashToGroupOptions = {},
+): Promise<VDFOutput> {
+	const x = await hashToGroup(seed, params.n, options);
+	return evaluate(x, params);
 }
 
 /**
- * Full verification including challenge re-derivation.
+ * Verify a proof whose input must have been derived from seed bytes.
  *
- * Re-derives the challenge prime from the proof transcript and verifies
- * both the challenge derivation and the proof equation.
+ * Checks that the proof's x equals hashToGroup(seed, n, options), then
+ * performs full verification including challenge re-derivation. A proof
+ * whose modulus is too small to hash to is rejected rather than thrown on.
  *
  * @param proof - The proof to verify
- * @returns true if the proof is valid
+ * @param seed - Seed bytes the input was derived from
+ * @param options - Hash-to-group options (must match the prover's)
+ * @returns true if the proof is valid and x is the mapped seed
  */
-export async function verifyWithChallenge(proof: VDFProof): Promise<boolean> {
-	const { x, h, t, n, nonce } = proof;
+export async function verifyFromSeed(
+	proof: VDFProof,
+	seed: Uint8Array,
+	options: HashToGroupOptions = {},
+): Promise<boolean> {
+	if (proof.n <= 3n) {
+		return false;
+	}
 
-	// Re-derive the challenge
-	const expectedL = await deriveChallenge({ x, h, t, n }, nonce);
+	const mapped = await hashToGroup(seed, proof.n, options);
+	// evaluate replaces the input by its canonical form in a signed group
+	const expectedX =
+		proof.signed && mapped > proof.n >> 1n ? proof.n - mapped : mapped;
 
-	if (expectedL !== proof.l) {
+	if (expectedX !== proof.x) {
 		return false;
 	}
 
-	return verify(proof);
+	return verifyWithChallenge(proof);
 }
@@ -0,0 +1,188 @@
+import { describe, test, expect } from "bun:test";
+import { aggregateProve, aggregateVerify } from "../src/aggregate.ts";
+import { evaluate, RSA_2048, type VDFOutput } from "../src/vdf.ts";
+import { modulusParams } from "../src/registry.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+
+function makeOutputs(count: number, n = TEST_MODULUS, t = 200): VDFOutput[] {
+	const outputs: VDFOutput[] = [];
+	for (let i = 0; i < count; i++) {
+		outputs.push(evaluate(1000n + BigInt(i), { n, t }));
+	}
+	return outputs;
+}
+
+describe("aggregateProve / aggregateVerify", () => {
+	test("proves many outputs with one proof", async () => {
+		const outputs = makeOutputs(10);
+		const proof = await aggregateProve(outputs);
+		expect(proof.x).toEqual(outputs.map((o) => o.x));
+		expect(proof.h).toEqual(outputs.map((o) => o.h));
+		expect(typeof proof.pi).toBe("bigint");
+		expect(await aggregateVerify(proof)).toBe(true);
+	});
+
+	test("works for a single output", async () => {
+		const proof = await aggregateProve(makeOutputs(1));
+		expect(await aggregateVerify(proof)).toBe(true);
+	});
+
+	test("works with RSA-2048", async () => {
+		const proof = await aggregateProve(makeOutputs(3, RSA_2048, 600));
+		expect(await aggregateVerify(proof)).toBe(true);
+	});
+
+	test("is deterministic for a given nonce", async () => {
+		const outputs = makeOutputs(4);
+		const nonce = new Uint8Array(32).fill(1);
+		const a = await aggregateProve(outputs, nonce);
+		const b = await aggregateProve(outputs, nonce);
+		expect(a.pi).toBe(b.pi);
+		expect(a.l).toBe(b.l);
+	});
+
+	test("rejects a wrong output", async () => {
+		const proof = await aggregateProve(makeOutputs(5));
+		for (let i = 0; i < 5; i++) {
+			const h = [...proof.h];
+			h[i] = (h[i]! * 2n) % proof.n;
+			expect(await aggregateVerify({ ...proof, h })).toBe(false);
+		}
+	});
+
+	test("rejects a wrong input", async () => {
+		const proof = await aggregateProve(makeOutputs(5));
+		const x = [...proof.x];
+		x[3] = x[3]! + 1n;
+		expect(await aggregateVerify({ ...proof, x })).toBe(false);
+	});
+
+	test("rejects swapped outputs", async () => {
+		const proof = await aggregateProve(makeOutputs(3));
+		const h = [proof.h[1]!, proof.h[0]!, proof.h[2]!];
+		expect(await aggregateVerify({ ...proof, h })).toBe(false);
+	});
+
+	test("rejects dropped or added outputs", async () => {
+		const outputs = makeOutputs(4);
+		const proof = await aggregateProve(outputs);
+		expect(
+			await aggregateVerify({
+				...proof,
+				x: proof.x.slice(1),
+				h: proof.h.slice(1),
+			}),
+		).toBe(false);
+
+		const extra = evaluate(5000n, { n: TEST_MODULUS, t: 200 });
+		expect(
+			await aggregateVerify({
+				...proof,
+				x: [...proof.x, extra.x],
+				h: [...proof.h, extra.h],
+			}),
+		).toBe(false);
+	});
+
+	test("rejects a tampered proof", async () => {
+		const proof = await aggregateProve(makeOutputs(3));
+		expect(
+			await aggregateVerify({ ...proof, pi: (proof.pi * 3n) % proof.n }),
+		).toBe(false);
+		expect(await aggregateVerify({ ...proof, t: proof.t + 1 })).toBe(false);
+		expect(await aggregateVerify({ ...proof, nonce: new Uint8Array(32) })).toBe(
+			false,
+		);
+	});
+
+	test("rejects malformed proofs", async () => {
+		const proof = await aggregateProve(makeOutputs(3));
+		expect(await aggregateVerify({ ...proof, h: proof.h.slice(1) })).toBe(
+			false,
+		);
+		expect(await aggregateVerify({ ...proof, x: [], h: [] })).toBe(false);
+		expect(
+			await aggregateVerify({ ...proof, x: [P, ...proof.x.slice(1)] }),
+		).toBe(false);
+		expect(
+			await aggregateVerify({ ...proof, h: [0n, ...proof.h.slice(1)] }),
+		).toBe(false);
+	});
+
+	test("supports the signed group", async () => {
+		const outputs: VDFOutput[] = [];
+		for (let i = 0n; i < 10n; i++) {
+			outputs.push(
+				evaluate(1000n + i, { n: TEST_MODULUS, t: 200, signed: true }),
+			);
+		}
+		const proof = await aggregateProve(outputs);
+		expect(proof.signed).toBe(true);
+		expect(await aggregateVerify(proof)).toBe(true);
+		// The signed flag is bound into the challenge
+		expect(await aggregateVerify({ ...proof, signed: false })).toBe(false);
+
+		// Non-canonical outputs are rejected, even though they only differ
+		// in sign
+		const h = [...proof.h];
+		h[2] = proof.n - h[2]!;
+		expect(await aggregateVerify({ ...proof, h })).toBe(false);
+
+		await expect(
+			aggregateProve([...outputs.slice(0, 2), ...makeOutputs(1)]),
+		).rejects.toThrow("outputs must be either all signed or all unsigned");
+	});
+
+	test("carries the modulus id and challenge configuration", async () => {
+		const params = {
+			...modulusParams("rsa2048-challenge", 50),
+			challenge: { hash: "SHA-256" as const, bits: 192 },
+		};
+		const outputs = [evaluate(2n, params), evaluate(3n, params)];
+		const proof = await aggregateProve(outputs);
+		expect(proof.modulusId).toBe("rsa2048-challenge");
+		expect(proof.challenge).toEqual(params.challenge);
+		// The combined challenge is derived under the outputs' configuration
+		expect(proof.l.toString(2).length).toBeLessThan(200);
+		expect(await aggregateVerify(proof)).toBe(true);
+
+		expect(await aggregateVerify({ ...proof, challenge: undefined })).toBe(
+			false,
+		);
+		expect(await aggregateVerify({ ...proof, modulusId: "rsa3072-v1" })).toBe(
+			false,
+		);
+		expect(await aggregateVerify({ ...proof, modulusId: undefined })).toBe(
+			false,
+		);
+
+		await expect(
+			aggregateProve([outputs[0]!, evaluate(4n, { n: RSA_2048, t: 50 })]),
+		).rejects.toThrow(
+			"all outputs must share the modulus id and challenge configuration",
+		);
+		await expect(
+			aggregateProve([
+				outputs[0]!,
+				evaluate(4n, { ...params, challenge: { hash: "SHA-256" } }),
+			]),
+		).rejects.toThrow(
+			"all outputs must share the modulus id and challenge configuration",
+		);
+	});
+
+	test("requires outputs that share n and t", async () => {
+		await expect(aggregateProve([])).rejects.toThrow(
+			"at least one output is required",
+		);
+		await expect(
+			aggregateProve([...makeOutputs(2), ...makeOutputs(1, TEST_MODULUS, 201)]),
+		).rejects.toThrow("all outputs must share n and t");
+		await expect(
+			aggregateProve([...makeOutputs(1), ...makeOutputs(1, RSA_2048)]),
+		).rejects.toThrow("all outputs must share n and t");
+	});
+});
@@ -0,0 +1,204 @@
+import { describe, test, expect } from "bun:test";
+import {
+	evaluateAsync,
+	proveAsync,
+	generateProofAsync,
+	evaluateInGroupAsync,
+	proveInGroupAsync,
+	type VDFProgress,
+} from "../src/async.ts";
+import {
+	evaluate,
+	prove,
+	verify,
+	verifyWithChallenge,
+	evaluateInGroup,
+	proveInGroup,
+	RSA_2048,
+} from "../src/vdf.ts";
+import { RSAGroup } from "../src/group.ts";
+import { InvalidParamsError, ModulusRegistryError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+describe("evaluateAsync", () => {
+	test("matches evaluate", async () => {
+		for (const t of [1, 99, 100, 101, 2500]) {
+			const params = { n: TEST_MODULUS, t };
+			const output = await evaluateAsync(TEST_X, params, { yieldEvery: 100 });
+			expect(output).toEqual(evaluate(TEST_X, params));
+		}
+	});
+
+	test("matches evaluate with a Montgomery-backed group", async () => {
+		const params = { n: RSA_2048, t: 2000 };
+		const output = await evaluateAsync(2n, params, { yieldEvery: 300 });
+		expect(output.h).toBe(evaluate(2n, params).h);
+	});
+
+	test("carries the challenge configuration and modulus id", async () => {
+		const params = {
+			n: TEST_MODULUS,
+			t: 50,
+			challenge: { hash: "BLAKE2b" as const, bits: 256 },
+		};
+		expect(await evaluateAsync(TEST_X, params)).toEqual(
+			evaluate(TEST_X, params),
+		);
+		await expect(
+			evaluateAsync(TEST_X, { ...params, modulusId: "not-registered" }),
+		).rejects.toThrow(ModulusRegistryError);
+		await expect(
+			evaluateAsync(TEST_X, { ...params, challenge: { bits: 1 } }),
+		).rejects.toThrow(InvalidParamsError);
+	});
+
+	test("reports progress", async () => {
+		const events: VDFProgress[] = [];
+		await evaluateAsync(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 1050 },
+			{ yieldEvery: 100, onProgress: (p) => events.push(p) },
+		);
+		expect(events.map((e) => e.completed)).toEqual([
+			100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1050,
+		]);
+		for (const e of events) {
+			expect(e.total).toBe(1050);
+			expect(e.elapsedMs).toBeGreaterThanOrEqual(0);
+			expect(e.etaMs).toBeGreaterThanOrEqual(0);
+		}
+		expect(events[events.length - 1]!.etaMs).toBe(0);
+	});
+
+	test("yields to the event loop", async () => {
+		let ticks = 0;
+		const timer = setInterval(() => ticks++, 0);
+		try {
+			await evaluateAsync(
+				TEST_X,
+				{ n: TEST_MODULUS, t: 20000 },
+				{ yieldEvery: 100 },
+			);
+		} finally {
+			clearInterval(timer);
+		}
+		expect(ticks).toBeGreaterThan(0);
+	});
+
+	test("rejects with AbortError when aborted", async () => {
+		const controller = new AbortController();
+		let completed = 0;
+		const promise = evaluateAsync(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 1_000_000 },
+			{
+				yieldEvery: 100,
+				signal: controller.signal,
+				onProgress: (p) => {
+					completed = p.completed;
+					if (p.completed >= 500) controller.abort();
+				},
+			},
+		);
+		await expect(promise).rejects.toThrow(
+			expect.objectContaining({ name: "AbortError" }),
+		);
+		expect(completed).toBe(500);
+	});
+
+	test("rejects immediately with an already aborted signal", async () => {
+		let called = false;
+		await expect(
+			evaluateAsync(
+				TEST_X,
+				{ n: TEST_MODULUS, t: 1000 },
+				{ signal: AbortSignal.abort(), onProgress: () => (called = true) },
+			),
+		).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+		expect(called).toBe(false);
+	});
+
+	test("rejects with a custom abort reason", async () => {
+		const reason = new Error("shutting down");
+		await expect(
+			evaluateAsync(
+				TEST_X,
+				{ n: TEST_MODULUS, t: 1000 },
+				{ signal: AbortSignal.abort(reason) },
+			),
+		).rejects.toThrow("shutting down");
+	});
+
+	test("rejects invalid inputs", async () => {
+		await expect(evaluateAsync(0n, { n: TEST_MODULUS, t: 10 })).rejects.toThrow(
+			"x must be in range (0, n)",
+		);
+		await expect(evaluateAsync(P, { n: TEST_MODULUS, t: 10 })).rejects.toThrow(
+			"x must be coprime to n",
+		);
+		await expect(
+			evaluateAsync(TEST_X, { n: TEST_MODULUS, t: 0 }),
+		).rejects.toThrow("t must be positive");
+		await expect(
+			evaluateAsync(TEST_X, { n: TEST_MODULUS, t: 10 }, { yieldEvery: 0 }),
+		).rejects.toThrow("yieldEvery must be a positive integer");
+	});
+});
+
+describe("proveAsync", () => {
+	test("matches prove", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 1234 });
+		for (const l of [3n, 97n, 1000003n, (1n << 127n) - 1n]) {
+			expect(await proveAsync(output, l, { yieldEvery: 100 })).toBe(
+				prove(output, l),
+			);
+		}
+	});
+
+	test("reports progress and can be aborted", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100000 });
+		const controller = new AbortController();
+		const events: VDFProgress[] = [];
+		const promise = proveAsync(output, 1000003n, {
+			yieldEvery: 1000,
+			signal: controller.signal,
+			onProgress: (p) => {
+				events.push(p);
+				if (events.length === 3) controller.abort();
+			},
+		});
+		await expect(promise).rejects.toThrow(
+			expect.objectContaining({ name: "AbortError" }),
+		);
+		expect(events.map((e) => e.completed)).toEqual([1000, 2000, 3000]);
+		expect(events[0]!.total).toBe(100000);
+	});
+});
+
+describe("generateProofAsync", () => {
+	test("produces a valid proof", async () => {
+		const output = await evaluateAsync(TEST_X, { n: TEST_MODULUS, t: 600 });
+		const proof = await generateProofAsync(output, undefined, {
+			yieldEvery: 64,
+		});
+		expect(verify(proof)).toBe(true);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+	});
+});
+
+describe("generic async functions", () => {
+	test("match the synchronous versions", async () => {
+		const group = new RSAGroup(TEST_MODULUS);
+		const output = await evaluateInGroupAsync(group, TEST_X, 500, {
+			yieldEvery: 77,
+		});
+		expect(output).toEqual(evaluateInGroup(group, TEST_X, 500));
+		expect(await proveInGroupAsync(group, output, 1000003n)).toBe(
+			proveInGroup(group, output, 1000003n),
+		);
+	});
+});
@@ -0,0 +1,198 @@
+import { describe, test, expect } from "bun:test";
+import { verifyBatch } from "../src/batch.ts";
+import {
+	evaluate,
+	generateProof,
+	verify,
+	RSA_2048,
+	type VDFProof,
+} from "../src/vdf.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const OTHER_MODULUS = 1000000021n * 1000000033n;
+
+async function makeProofs(
+	count: number,
+	n = TEST_MODULUS,
+): Promise<VDFProof[]> {
+	const proofs: VDFProof[] = [];
+	for (let i = 0; i < count; i++) {
+		const output = evaluate(1000n + BigInt(i), { n, t: 100 + i });
+		proofs.push(await generateProof(output));
+	}
+	return proofs;
+}
+
+function fixedBytes(byte: number) {
+	return (length: number) => new Uint8Array(length).fill(byte);
+}
+
+describe("verifyBatch", () => {
+	test("accepts a batch of valid proofs", async () => {
+		const proofs = await makeProofs(10);
+		expect(await verifyBatch(proofs)).toEqual({ valid: true, invalid: [] });
+	});
+
+	test("accepts an empty batch", async () => {
+		expect(await verifyBatch([])).toEqual({ valid: true, invalid: [] });
+	});
+
+	test("accepts proofs under several moduli", async () => {
+		const proofs = [
+			...(await makeProofs(3)),
+			...(await makeProofs(3, OTHER_MODULUS)),
+			await generateProof(evaluate(5n, { n: RSA_2048, t: 200 })),
+		];
+		expect(await verifyBatch(proofs)).toEqual({ valid: true, invalid: [] });
+	});
+
+	test("identifies corrupted proofs", async () => {
+		const proofs = await makeProofs(16);
+		const { n } = proofs[0]!;
+		proofs[2] = { ...proofs[2]!, pi: (proofs[2]!.pi * 2n) % n };
+		proofs[7] = { ...proofs[7]!, h: (proofs[7]!.h * 3n) % n };
+		proofs[8] = { ...proofs[8]!, t: proofs[8]!.t + 1 };
+		proofs[15] = { ...proofs[15]!, x: (proofs[15]!.x * 5n) % n };
+
+		const result = await verifyBatch(proofs);
+		expect(result).toEqual({ valid: false, invalid: [2, 7, 8, 15] });
+		for (let i = 0; i < proofs.length; i++) {
+			expect(verify(proofs[i]!)).toBe(!result.invalid.includes(i));
+		}
+	});
+
+	test("identifies every proof when all are corrupted", async () => {
+		const proofs = (await makeProofs(5)).map((p) => ({
+			...p,
+			pi: (p.pi * 7n) % p.n,
+		}));
+		const result = await verifyBatch(proofs);
+		expect(result.invalid).toEqual([0, 1, 2, 3, 4]);
+	});
+
+	test("rejects malformed proofs before batching", async () => {
+		const proofs = await makeProofs(5);
+		proofs[0] = { ...proofs[0]!, l: proofs[0]!.l + 1n };
+		proofs[1] = { ...proofs[1]!, x: P };
+		proofs[2] = { ...proofs[2]!, pi: 0n };
+		proofs[3] = { ...proofs[3]!, t: 0 };
+		const result = await verifyBatch(proofs);
+		expect(result).toEqual({ valid: false, invalid: [0, 1, 2, 3] });
+	});
+
+	test("re-derives challenges when asked", async () => {
+		const proofs = await makeProofs(4);
+		const nonce = new Uint8Array(32).fill(9);
+		// A valid proof for a challenge that does not match its transcript
+		const forged = await generateProof(
+			evaluate(1001n, { n: TEST_MODULUS, t: 101 }),
+			nonce,
+		);
+		proofs[1] = { ...forged, nonce: new Uint8Array(32) };
+
+		expect((await verifyBatch(proofs)).valid).toBe(true);
+		expect(await verifyBatch(proofs, { checkChallenges: true })).toEqual({
+			valid: false,
+			invalid: [1],
+		});
+	});
+
+	test("marks a proof with a malformed nonce invalid", async () => {
+		const proofs = await makeProofs(4);
+		proofs[2] = { ...proofs[2]!, nonce: new Uint8Array(31) };
+		expect(await verifyBatch(proofs, { checkChallenges: true })).toEqual({
+			valid: false,
+			invalid: [2],
+		});
+	});
+
+	test("re-derives challenges with each proof's configuration", async () => {
+		const proofs = await makeProofs(2);
+		proofs.push(
+			await generateProof(
+				evaluate(999n, {
+					n: TEST_MODULUS,
+					t: 100,
+					challenge: { hash: "BLAKE2b", bits: 256 },
+				}),
+			),
+		);
+		expect((await verifyBatch(proofs, { checkChallenges: true })).valid).toBe(
+			true,
+		);
+
+		proofs[2] = { ...proofs[2]!, challenge: { bits: 1 } };
+		expect(await verifyBatch(proofs, { checkChallenges: true })).toEqual({
+			valid: false,
+			invalid: [2],
+		});
+	});
+
+	test("uses the provided randomness source", async () => {
+		const proofs = await makeProofs(3);
+		let requested = 0;
+		const result = await verifyBatch(proofs, {
+			securityBits: 64,
+			randomBytes: (length) => {
+				requested += length;
+				return crypto.getRandomValues(new Uint8Array(length));
+			},
+		});
+		expect(result.valid).toBe(true);
+		expect(requested).toBe(3 * 8);
+	});
+
+	test("always catches a single sign flip", async () => {
+		// -1 has order 2 in Z*_n; with an odd ρ it cannot cancel out
+		const proofs = await makeProofs(4);
+		const { n } = proofs[2]!;
+		proofs[2] = { ...proofs[2]!, h: n - proofs[2]!.h };
+		expect(verify(proofs[2]!)).toBe(false);
+
+		for (const byte of [0x00, 0x02, 0x03, 0xfe]) {
+			expect(
+				await verifyBatch(proofs, { randomBytes: fixedBytes(byte) }),
+			).toEqual({ valid: false, invalid: [2] });
+		}
+		for (let i = 0; i < 8; i++) {
+			expect(await verifyBatch(proofs)).toEqual({
+				valid: false,
+				invalid: [2],
+			});
+		}
+
+		// Documented limitation: two sign flips in one group cancel out
+		proofs[3] = { ...proofs[3]!, h: n - proofs[3]!.h };
+		expect(
+			(await verifyBatch(proofs, { randomBytes: fixedBytes(0x03) })).valid,
+		).toBe(true);
+	});
+
+	test("batches signed proofs apart from unsigned ones", async () => {
+		const proofs = await makeProofs(2);
+		for (let i = 0; i < 3; i++) {
+			const output = evaluate(2000n + BigInt(i), {
+				n: TEST_MODULUS,
+				t: 100,
+				signed: true,
+			});
+			proofs.push(await generateProof(output));
+		}
+		expect(await verifyBatch(proofs)).toEqual({ valid: true, invalid: [] });
+
+		// A negated h is not an element of the signed group, whatever ρ is
+		const { n } = proofs[3]!;
+		proofs[3] = { ...proofs[3]!, h: n - proofs[3]!.h };
+		expect(
+			await verifyBatch(proofs, { randomBytes: fixedBytes(0x02) }),
+		).toEqual({ valid: false, invalid: [3] });
+	});
+
+	test("rejects invalid securityBits", async () => {
+		await expect(verifyBatch([], { securityBits: 0 })).rejects.toThrow(
+			"securityBits must be a positive integer",
+		);
+	});
+});
@@ -0,0 +1,259 @@
+import { describe, test, expect } from "bun:test";
+import {
+	Beacon,
+	commitContribution,
+	verifyBeaconChain,
+	type BeaconParams,
+	type BeaconRound,
+} from "../src/beacon.ts";
+import { generateProof, verify } from "../src/vdf.ts";
+import { modulusParams } from "../src/registry.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+
+const PARAMS: BeaconParams = {
+	n: TEST_MODULUS,
+	t: 200,
+	seed: new TextEncoder().encode("genesis"),
+};
+
+async function makeChain(
+	count: number,
+	params = PARAMS,
+): Promise<BeaconRound[]> {
+	const beacon = new Beacon(params);
+	const rounds: BeaconRound[] = [];
+	for (let i = 0; i < count; i++) {
+		rounds.push(await beacon.next());
+	}
+	return rounds;
+}
+
+describe("Beacon", () => {
+	test("produces consecutive verifiable rounds", async () => {
+		const rounds = await makeChain(4);
+		expect(rounds.map((r) => r.round)).toEqual([0, 1, 2, 3]);
+		for (const round of rounds) {
+			expect(round.proof.x).toBe(round.x);
+			expect(round.proof.h).toBe(round.h);
+			expect(verify(round.proof)).toBe(true);
+			expect(round.randomness.length).toBe(32);
+		}
+		expect(await verifyBeaconChain(rounds, PARAMS)).toBe(true);
+	});
+
+	test("is deterministic apart from proof nonces", async () => {
+		const a = await makeChain(3);
+		const b = await makeChain(3);
+		expect(b.map((r) => r.x)).toEqual(a.map((r) => r.x));
+		expect(b.map((r) => r.randomness)).toEqual(a.map((r) => r.randomness));
+
+		const other = await makeChain(1, {
+			...PARAMS,
+			seed: new TextEncoder().encode("other"),
+		});
+		expect(other[0]!.x).not.toBe(a[0]!.x);
+	});
+
+	test("does not expose h as randomness", async () => {
+		const [round] = await makeChain(1);
+		const hex = Buffer.from(round!.randomness).toString("hex");
+		expect(BigInt(`0x${hex}`)).not.toBe(round!.h);
+	});
+
+	test("mixes contributions into the input", async () => {
+		const beacon = new Beacon(PARAMS);
+		const plain = await new Beacon(PARAMS).next();
+		const contribution = new Uint8Array(32).fill(9);
+		const mixed = await beacon.next({ contributions: [contribution] });
+		expect(mixed.x).not.toBe(plain.x);
+		expect(mixed.contributions).toEqual([contribution]);
+		expect(await verifyBeaconChain([mixed], PARAMS)).toBe(true);
+
+		// Dropping or changing a contribution breaks the linkage
+		expect(
+			await verifyBeaconChain([{ ...mixed, contributions: [] }], PARAMS),
+		).toBe(false);
+	});
+
+	test("checks revealed contributions against commitments", async () => {
+		const contribution = new Uint8Array(32).fill(5);
+		const commitment = commitContribution(contribution);
+		expect(commitment.length).toBe(32);
+
+		const beacon = new Beacon(PARAMS);
+		const round = await beacon.next({
+			contributions: [contribution],
+			commitments: [commitment],
+		});
+		expect(round.round).toBe(0);
+
+		await expect(
+			beacon.next({
+				contributions: [new Uint8Array(32)],
+				commitments: [commitment],
+			}),
+		).rejects.toThrow("contribution 0 does not match its commitment");
+		await expect(
+			beacon.next({ contributions: [], commitments: [commitment] }),
+		).rejects.toThrow("every contribution needs a commitment");
+		expect(beacon.round).toBe(1);
+	});
+
+	test("resumes from the last round", async () => {
+		const rounds = await makeChain(2);
+		const resumed = new Beacon(PARAMS, rounds[1]);
+		expect(resumed.round).toBe(2);
+		rounds.push(await resumed.next());
+		expect(await verifyBeaconChain(rounds, PARAMS)).toBe(true);
+
+		expect(() => new Beacon({ ...PARAMS, t: 100 }, rounds[2])).toThrow(
+			"last round does not match the beacon parameters",
+		);
+	});
+
+	test("works with a registered modulus", async () => {
+		const params = {
+			...modulusParams("rsa2048-challenge", 50),
+			seed: PARAMS.seed,
+		};
+		const rounds = await makeChain(2, params);
+		expect(rounds[0]!.proof.modulusId).toBe("rsa2048-challenge");
+		expect(await verifyBeaconChain(rounds, params)).toBe(true);
+		expect(
+			await verifyBeaconChain(rounds, { ...params, modulusId: undefined }),
+		).toBe(false);
+	});
+
+	test("uses the challenge configuration of the parameters", async () => {
+		const params: BeaconParams = {
+			...PARAMS,
+			challenge: { hash: "SHA3-256", bits: 256 },
+		};
+		const rounds = await makeChain(2, params);
+		expect(rounds[0]!.proof.challenge).toEqual({ hash: "SHA3-256", bits: 256 });
+		expect(await verifyBeaconChain(rounds, params)).toBe(true);
+		expect(await verifyBeaconChain(rounds, PARAMS)).toBe(false);
+		expect(() => new Beacon(PARAMS, rounds[1])).toThrow(
+			"last round does not match the beacon parameters",
+		);
+	});
+
+	test("runs in the signed group", async () => {
+		const params: BeaconParams = { ...PARAMS, signed: true };
+		const rounds = await makeChain(3, params);
+		for (const round of rounds) {
+			expect(round.proof.signed).toBe(true);
+			expect(round.x <= TEST_MODULUS >> 1n).toBe(true);
+			expect(round.proof.x).toBe(round.x);
+		}
+		expect(await verifyBeaconChain(rounds, params)).toBe(true);
+		expect(await verifyBeaconChain(rounds, PARAMS)).toBe(false);
+		expect(() => new Beacon(PARAMS, rounds[2])).toThrow(
+			"last round does not match the beacon parameters",
+		);
+	});
+});
+
+describe("verifyBeaconChain", () => {
+	test("verifies a chain segment not starting at genesis", async () => {
+		const rounds = await makeChain(4);
+		expect(await verifyBeaconChain(rounds.slice(2), PARAMS)).toBe(true);
+	});
+
+	test("rejects broken linkage and ordering", async () => {
+		const rounds = await makeChain(3);
+		expect(await verifyBeaconChain([rounds[0]!, rounds[2]!], PARAMS)).toBe(
+			false,
+		);
+		expect(await verifyBeaconChain([rounds[1]!, rounds[0]!], PARAMS)).toBe(
+			false,
+		);
+		expect(
+			await verifyBeaconChain(rounds, {
+				...PARAMS,
+				seed: new Uint8Array(1),
+			}),
+		).toBe(false);
+		expect(await verifyBeaconChain([], PARAMS)).toBe(false);
+
+		// A valid round from another chain spliced in
+		const other = await makeChain(2, {
+			...PARAMS,
+			seed: new TextEncoder().encode("other"),
+		});
+		expect(await verifyBeaconChain([rounds[0]!, other[1]!], PARAMS)).toBe(
+			false,
+		);
+	});
+
+	test("rejects tampered outputs, proofs and randomness", async () => {
+		const rounds = await makeChain(2);
+		const [first, second] = rounds as [BeaconRound, BeaconRound];
+
+		const h = (first.h * 2n) % TEST_MODULUS;
+		expect(
+			await verifyBeaconChain(
+				[{ ...first, h, proof: { ...first.proof, h } }, second],
+				PARAMS,
+			),
+		).toBe(false);
+		expect(await verifyBeaconChain([{ ...first, h }, second], PARAMS)).toBe(
+			false,
+		);
+
+		const pi = (first.proof.pi * 3n) % TEST_MODULUS;
+		expect(
+			await verifyBeaconChain(
+				[{ ...first, proof: { ...first.proof, pi } }, second],
+				PARAMS,
+			),
+		).toBe(false);
+
+		const randomness = first.randomness.slice();
+		randomness[0]! ^= 1;
+		expect(
+			await verifyBeaconChain([{ ...first, randomness }, second], PARAMS),
+		).toBe(false);
+
+		expect(
+			await verifyBeaconChain(rounds, { ...PARAMS, t: PARAMS.t + 1 }),
+		).toBe(false);
+	});
+
+	test("rejects an output with a flipped sign", async () => {
+		const rounds = await makeChain(1);
+		const first = rounds[0]!;
+		const h = TEST_MODULUS - first.h;
+		const pi = TEST_MODULUS - first.proof.pi;
+		const flipped = { ...first, h, proof: { ...first.proof, h, pi } };
+		// The proof equation holds, but the challenge is bound to h
+		expect(verify(flipped.proof)).toBe(true);
+		expect(await verifyBeaconChain([flipped], PARAMS)).toBe(false);
+	});
+
+	test("gives a forged n - h round no influence", async () => {
+		const rounds = await makeChain(2);
+		const [first, second] = rounds as [BeaconRound, BeaconRound];
+		// Prove n - h under its own challenge, then negate π: since l is
+		// odd, (-π)^l · x^r = -h
+		const h = TEST_MODULUS - first.h;
+		const proof = await generateProof({ ...first.proof, h });
+		const forged = {
+			...first,
+			h,
+			proof: { ...proof, pi: TEST_MODULUS - proof.pi },
+		};
+		expect(verify(forged.proof)).toBe(true);
+		// The forged round verifies only with the honest randomness, and
+		// the honest next round still links to it
+		expect(await verifyBeaconChain([forged, second], PARAMS)).toBe(true);
+		const randomness = first.randomness.slice();
+		randomness[0]! ^= 1;
+		expect(
+			await verifyBeaconChain([{ ...forged, randomness }, second], PARAMS),
+		).toBe(false);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, test, expect } from "bun:test";
+import {
+	calibrate,
+	tForDuration,
+	estimateDuration,
+	type Calibration,
+} from "../src/calibrate.ts";
+import { RSA_2048 } from "../src/vdf.ts";
+import { InvalidParamsError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+
+const FIXED: Calibration = {
+	n: TEST_MODULUS,
+	squaringsPerSecond: 1_000_000,
+	squarings: 0,
+	elapsedMs: 0,
+};
+
+describe("calibrate", () => {
+	test("measures a positive squaring rate", () => {
+		const calibration = calibrate(RSA_2048, { durationMs: 50 });
+		expect(calibration.n).toBe(RSA_2048);
+		expect(calibration.squaringsPerSecond).toBeGreaterThan(0);
+		expect(calibration.squarings).toBeGreaterThan(0);
+		expect(calibration.elapsedMs).toBeGreaterThanOrEqual(50);
+	});
+
+	test("reports the fastest batch, at least the average rate", () => {
+		const { squaringsPerSecond, squarings, elapsedMs } = calibrate(
+			TEST_MODULUS,
+			{ durationMs: 50 },
+		);
+		expect(squaringsPerSecond).toBeGreaterThanOrEqual(
+			(squarings * 1000) / elapsedMs,
+		);
+	});
+
+	test("larger moduli are slower", () => {
+		const small = calibrate(TEST_MODULUS, { durationMs: 50 });
+		const large = calibrate(RSA_2048, { durationMs: 50 });
+		expect(large.squaringsPerSecond).toBeLessThan(small.squaringsPerSecond);
+	});
+
+	test("rejects invalid arguments", () => {
+		expect(() => calibrate(3n)).toThrow(InvalidParamsError);
+		expect(() => calibrate(TEST_MODULUS, { durationMs: 0 })).toThrow(
+			"durationMs must be positive",
+		);
+	});
+});
+
+describe("tForDuration / estimateDuration", () => {
+	test("apply the safety factor", () => {
+		expect(
+			tForDuration(TEST_MODULUS, 1000, { calibration: FIXED, safetyFactor: 1 }),
+		).toBe(1_000_000);
+		expect(tForDuration(TEST_MODULUS, 1500, { calibration: FIXED })).toBe(
+			3_000_000,
+		);
+
+		const estimate = estimateDuration(
+			{ n: TEST_MODULUS, t: 3_000_000 },
+			{ calibration: FIXED },
+		);
+		expect(estimate.expectedMs).toBe(3000);
+		expect(estimate.minimumMs).toBe(1500);
+	});
+
+	test("round-trip through the cached calibration", () => {
+		calibrate(RSA_2048, { durationMs: 50 });
+		const t = tForDuration(RSA_2048, 10 * 60 * 1000);
+		const { minimumMs } = estimateDuration({ n: RSA_2048, t });
+		expect(minimumMs).toBeGreaterThanOrEqual(10 * 60 * 1000);
+		expect(minimumMs).toBeLessThan(10 * 60 * 1000 + 1);
+	});
+
+	test("rejects invalid arguments", () => {
+		const options = { calibration: FIXED };
+		expect(() => tForDuration(TEST_MODULUS, 0, options)).toThrow(
+			"ms must be positive",
+		);
+		expect(() =>
+			tForDuration(TEST_MODULUS, 1000, { ...options, safetyFactor: 0.5 }),
+		).toThrow("safetyFactor must be at least 1");
+		expect(() => tForDuration(RSA_2048, 1000, options)).toThrow(
+			"calibration is for a different modulus",
+		);
+		expect(() => tForDuration(TEST_MODULUS, 1e20, options)).toThrow(
+			"duration is too long",
+		);
+		expect(() => estimateDuration({ n: TEST_MODULUS, t: 0 }, options)).toThrow(
+			"t must be a positive safe integer",
+		);
+	});
+});
@@ -0,0 +1,377 @@
+import { describe, test, expect } from "bun:test";
+import { createHash } from "node:crypto";
+import {
+	resolveChallengeConfig,
+	isDefaultChallenge,
+	hashChallenge,
+	sameChallengeConfig,
+	DEFAULT_CHALLENGE,
+	type ChallengeConfig,
+	type ChallengeHash,
+} from "../src/challenge.ts";
+import {
+	evaluate,
+	deriveChallenge,
+	generateProof,
+	verify,
+	verifyWithChallenge,
+	verifyDetailed,
+} from "../src/vdf.ts";
+import { encodeProof, decodeProof } from "../src/encoding.ts";
+import {
+	proofToJSON,
+	proofFromJSON,
+	outputToJSON,
+	outputFromJSON,
+} from "../src/json.ts";
+import { nextPrime } from "../src/prime.ts";
+import {
+	bigintToFixedBytes,
+	bytesToBigint,
+	concatBytes,
+	u64be,
+} from "../src/utils.ts";
+import { InvalidParamsError, ProofFormatError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+const NONCE = new Uint8Array(32).fill(9);
+
+const HASHES: ChallengeHash[] = ["SHA-256", "SHA-512", "SHA3-256", "BLAKE2b"];
+
+describe("resolveChallengeConfig", () => {
+	test("fills in the defaults", () => {
+		expect(resolveChallengeConfig()).toEqual(DEFAULT_CHALLENGE);
+		expect(resolveChallengeConfig({ bits: 256 })).toEqual({
+			...DEFAULT_CHALLENGE,
+			bits: 256,
+		});
+		expect(isDefaultChallenge({})).toBe(true);
+		expect(isDefaultChallenge({ hash: "SHA-512", bits: 512 })).toBe(true);
+		expect(isDefaultChallenge({ hash: "SHA-256" })).toBe(false);
+	});
+
+	test("rejects invalid configurations", () => {
+		expect(() =>
+			resolveChallengeConfig({ hash: "MD5" as ChallengeHash }),
+		).toThrow(InvalidParamsError);
+		expect(() => resolveChallengeConfig({ bits: 127 })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => resolveChallengeConfig({ bits: 1025 })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => resolveChallengeConfig({ bits: 256.5 })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => resolveChallengeConfig({ tag: "" })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => resolveChallengeConfig({ tag: "x".repeat(256) })).toThrow(
+			InvalidParamsError,
+		);
+	});
+});
+
+describe("hashChallenge", () => {
+	const payload = new TextEncoder().encode("payload");
+
+	test("truncates to the requested size", async () => {
+		for (const hash of HASHES) {
+			for (const bits of [128, 130, 256, 264, 1024]) {
+				const value = await hashChallenge(
+					resolveChallengeConfig({ hash, bits }),
+					payload,
+				);
+				expect(value < 1n << BigInt(bits)).toBe(true);
+				expect(value > 0n).toBe(true);
+			}
+		}
+	});
+
+	test("expands short digests with counter blocks", async () => {
+		const config = resolveChallengeConfig({ hash: "SHA-256", bits: 512 });
+		// 0x00 || len || tag || hash id || bits
+		const message = concatBytes(
+			new Uint8Array([0, 13]),
+			new TextEncoder().encode(config.tag),
+			new Uint8Array([1, 2, 0]),
+			payload,
+		);
+		const expected = concatBytes(
+			createHash("sha256").update(message).digest(),
+			createHash("sha256")
+				.update(concatBytes(message, new Uint8Array([0, 0, 0, 1])))
+				.digest(),
+		);
+		expect(await hashChallenge(config, payload)).toBe(bytesToBigint(expected));
+	});
+
+	test("frames the tag and binds the hash and size", async () => {
+		// Tag and payload can no longer run together
+		const a = resolveChallengeConfig({ hash: "SHA-256", tag: "app" });
+		const b = resolveChallengeConfig({ hash: "SHA-256", tag: "ap" });
+		expect(await hashChallenge(a, payload)).not.toBe(
+			await hashChallenge(b, concatBytes(new Uint8Array([0x70]), payload)),
+		);
+
+		// Sizes that share their first bytes still differ
+		const short = resolveChallengeConfig({ bits: 256 });
+		const long = resolveChallengeConfig({ bits: 264 });
+		expect((await hashChallenge(long, payload)) >> 8n).not.toBe(
+			await hashChallenge(short, payload),
+		);
+	});
+});
+
+describe("sameChallengeConfig", () => {
+	test("compares resolved configurations", () => {
+		expect(sameChallengeConfig(undefined, DEFAULT_CHALLENGE)).toBe(true);
+		expect(sameChallengeConfig({ hash: "SHA-512" }, {})).toBe(true);
+		expect(sameChallengeConfig({ bits: 256 }, {})).toBe(false);
+		expect(sameChallengeConfig({ bits: 2 }, { bits: 2 })).toBe(false);
+	});
+});
+
+describe("deriveChallenge with a challenge configuration", () => {
+	test("the default derivation is unchanged", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const len = 8;
+		const transcript = concatBytes(
+			new TextEncoder().encode("wesolowski-v1"),
+			bigintToFixedBytes(output.x, len),
+			bigintToFixedBytes(output.h, len),
+			u64be(100n),
+			bigintToFixedBytes(TEST_MODULUS, len),
+			NONCE,
+		);
+		const digest = createHash("sha512").update(transcript).digest();
+		const expected = nextPrime(bytesToBigint(digest));
+
+		expect(await deriveChallenge(output, NONCE)).toBe(expected);
+		expect(
+			await deriveChallenge({ ...output, challenge: DEFAULT_CHALLENGE }, NONCE),
+		).toBe(expected);
+	});
+
+	test("each configuration gives a different challenge", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const configs: ChallengeConfig[] = [
+			{},
+			{ hash: "SHA-256" },
+			{ hash: "SHA3-256" },
+			{ hash: "BLAKE2b" },
+			{ bits: 256 },
+			{ tag: "my-application-v1" },
+		];
+		const challenges = new Set<bigint>();
+		for (const challenge of configs) {
+			challenges.add(await deriveChallenge({ ...output, challenge }, NONCE));
+		}
+		expect(challenges.size).toBe(configs.length);
+
+		const small = await deriveChallenge(
+			{ ...output, challenge: { bits: 128 } },
+			NONCE,
+		);
+		expect(small < 1n << 129n).toBe(true);
+	});
+
+	test("proofs verify with every hash and size", async () => {
+		for (const hash of HASHES) {
+			for (const bits of [128, 256, 264]) {
+				const output = evaluate(TEST_X, {
+					n: TEST_MODULUS,
+					t: 100,
+					challenge: { hash, bits },
+				});
+				expect(output.challenge).toEqual({ hash, bits });
+
+				const proof = await generateProof(output, NONCE);
+				expect(verify(proof)).toBe(true);
+				expect(await verifyWithChallenge(proof)).toBe(true);
+			}
+		}
+	});
+
+	test("rejects proofs checked with another configuration", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 100,
+				challenge: { hash: "BLAKE2b", tag: "app-a" },
+			}),
+			NONCE,
+		);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+		expect(
+			await verifyWithChallenge({
+				...proof,
+				challenge: { hash: "BLAKE2b", tag: "app-b" },
+			}),
+		).toBe(false);
+		const { challenge: _, ...withoutConfig } = proof;
+		expect(await verifyWithChallenge(withoutConfig)).toBe(false);
+		expect(
+			await verifyWithChallenge({ ...proof, challenge: { bits: 2 } }),
+		).toBe(false);
+	});
+
+	test("verify options pin the configuration", async () => {
+		const weak = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 100, challenge: { bits: 128 } }),
+			NONCE,
+		);
+		expect(await verifyWithChallenge(weak)).toBe(true);
+		expect(verify(weak, { challenge: { bits: 128 } })).toBe(true);
+		// A prover cannot downgrade to the weakest allowed configuration
+		expect(await verifyWithChallenge(weak, { challenge: {} })).toBe(false);
+		expect(verify(weak, { challenge: DEFAULT_CHALLENGE })).toBe(false);
+		expect(await verifyDetailed(weak, { challenge: {} })).toEqual({
+			ok: false,
+			code: "INVALID_CHALLENGE_CONFIG",
+			reason: "challenge configuration is not the expected one",
+		});
+
+		const plain = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 100 }),
+			NONCE,
+		);
+		expect(
+			await verifyWithChallenge(plain, { challenge: DEFAULT_CHALLENGE }),
+		).toBe(true);
+	});
+
+	test("evaluate rejects invalid configurations", () => {
+		expect(() =>
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 10,
+				challenge: { bits: 64 },
+			}),
+		).toThrow("challenge bits must be an integer from 128 to 1024");
+	});
+});
+
+describe("encodings with a challenge configuration", () => {
+	test("binary encoding uses version 2 only when needed", async () => {
+		const plain = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 50 }),
+			NONCE,
+		);
+		expect(encodeProof(plain)[0]).toBe(1);
+		expect(
+			encodeProof({ ...plain, challenge: { ...DEFAULT_CHALLENGE } })[0],
+		).toBe(1);
+
+		const proof = await generateProof(
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 50,
+				challenge: { hash: "SHA3-256", bits: 256, tag: "app" },
+			}),
+			NONCE,
+		);
+		const bytes = encodeProof(proof);
+		expect(bytes[0]).toBe(2);
+		const decoded = decodeProof(bytes);
+		expect(decoded.challenge).toEqual({
+			hash: "SHA3-256",
+			bits: 256,
+			tag: "app",
+		});
+		expect(await verifyWithChallenge(decoded)).toBe(true);
+	});
+
+	test("binary decoding rejects invalid challenge blocks", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 50,
+				challenge: { hash: "SHA3-256" },
+			}),
+			NONCE,
+		);
+		const bytes = encodeProof(proof);
+		// Version, modulus id 0, u32 length and 8-byte modulus precede the block
+		const offset = 1 + 1 + 4 + 8;
+
+		const unknownHash = bytes.slice();
+		unknownHash[offset] = 0x7f;
+		expect(() => decodeProof(unknownHash)).toThrow(
+			"unknown challenge hash id 127",
+		);
+
+		const defaultConfig = bytes.slice();
+		defaultConfig[offset] = 2;
+		expect(() => decodeProof(defaultConfig)).toThrow(
+			"default challenge must be encoded as version 1",
+		);
+
+		const smallBits = bytes.slice();
+		smallBits[offset + 1] = 0;
+		smallBits[offset + 2] = 64;
+		expect(() => decodeProof(smallBits)).toThrow("challenge bits");
+	});
+
+	test("JSON carries non-default configurations", async () => {
+		const output = evaluate(TEST_X, {
+			n: TEST_MODULUS,
+			t: 50,
+			challenge: { bits: 256 },
+		});
+		expect(outputToJSON(output).challenge).toEqual({
+			...DEFAULT_CHALLENGE,
+			bits: 256,
+		});
+		expect(outputFromJSON(outputToJSON(output)).challenge).toEqual({
+			...DEFAULT_CHALLENGE,
+			bits: 256,
+		});
+		expect(
+			"challenge" in
+				outputToJSON({ ...output, challenge: { ...DEFAULT_CHALLENGE } }),
+		).toBe(false);
+
+		const proof = await generateProof(output, NONCE);
+		const json = proofToJSON(proof);
+		const parsed = proofFromJSON(JSON.stringify(json));
+		expect(await verifyWithChallenge(parsed)).toBe(true);
+
+		// A spelled-out default is rejected: the default has a single form
+		const plain = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 50 }),
+			NONCE,
+		);
+		const spelled = { ...proofToJSON(plain), challenge: DEFAULT_CHALLENGE };
+		expect(() => proofFromJSON(spelled)).toThrow(
+			'field "challenge" must be omitted for the default configuration',
+		);
+	});
+
+	test("JSON rejects invalid configurations", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 50,
+				challenge: { hash: "SHA-256" },
+			}),
+			NONCE,
+		);
+		const json = proofToJSON(proof);
+		expect(() =>
+			proofFromJSON({ ...json, challenge: { ...json.challenge, bits: 8 } }),
+		).toThrow('field "challenge" is invalid');
+		expect(() =>
+			proofFromJSON({ ...json, challenge: { ...json.challenge, extra: 1 } }),
+		).toThrow('unexpected key "extra"');
+		expect(() => proofFromJSON({ ...json, challenge: "SHA-256" })).toThrow(
+			'field "challenge" must be an object',
+		);
+		expect(() =>
+			proofFromJSON({ ...json, challenge: { hash: "SHA-256" } }),
+		).toThrow(ProofFormatError);
+	});
+});
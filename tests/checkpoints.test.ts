@@ -0,0 +1,228 @@
+import { describe, test, expect } from "bun:test";
+import {
+	evaluateWithCheckpoints,
+	evaluateWithCheckpointsInGroup,
+	proveFromCheckpoints,
+	proveFromCheckpointsInGroup,
+} from "../src/checkpoints.ts";
+import {
+	evaluate,
+	prove,
+	verify,
+	deriveChallenge,
+	proveInGroup,
+	RSA_2048,
+} from "../src/vdf.ts";
+import { provePietrzak, verifyPietrzak } from "../src/pietrzak.ts";
+import {
+	ClassGroup,
+	classGroupGenerator,
+	createDiscriminant,
+} from "../src/classgroup.ts";
+import { nextPrime } from "../src/prime.ts";
+import { InvalidParamsError, ModulusRegistryError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+describe("evaluateWithCheckpoints", () => {
+	test("matches evaluate", () => {
+		const params = { n: TEST_MODULUS, t: 1000 };
+		const output = evaluateWithCheckpoints(TEST_X, params);
+		expect(output.h).toBe(evaluate(TEST_X, params).h);
+	});
+
+	test("stores x^(2^(i·k·gamma))", () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 100 },
+			{ k: 3, gamma: 2 },
+		);
+		const { k, gamma, values } = output.checkpoints;
+		expect(k).toBe(3);
+		expect(gamma).toBe(2);
+		expect(values.length).toBe(Math.floor(100 / 6) + 1);
+		for (let i = 0; i < values.length; i++) {
+			const expected =
+				i === 0 ? TEST_X : evaluate(TEST_X, { n: TEST_MODULUS, t: i * 6 }).h;
+			expect(values[i]).toBe(expected);
+		}
+	});
+
+	test("carries the challenge configuration and modulus id", () => {
+		const params = {
+			n: TEST_MODULUS,
+			t: 300,
+			challenge: { hash: "SHA3-256" as const, tag: "app-v2" },
+		};
+		const { checkpoints: _, ...output } = evaluateWithCheckpoints(
+			TEST_X,
+			params,
+		);
+		expect(output).toEqual(evaluate(TEST_X, params));
+		expect(() =>
+			evaluateWithCheckpoints(TEST_X, {
+				...params,
+				modulusId: "not-registered",
+			}),
+		).toThrow(ModulusRegistryError);
+		expect(() =>
+			evaluateWithCheckpoints(TEST_X, { ...params, challenge: { bits: 1 } }),
+		).toThrow(InvalidParamsError);
+	});
+
+	test("respects the memory budget", () => {
+		const t = 10000;
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t },
+			{ memoryBudget: 800 },
+		);
+		// 8-byte elements: at most 99 stored values plus x
+		expect(output.checkpoints.values.length).toBeLessThanOrEqual(100);
+	});
+
+	test("stores residues with a Montgomery-backed group", () => {
+		const t = 2000;
+		const x = 2n;
+		const output = evaluateWithCheckpoints(x, { n: RSA_2048, t }, { k: 8 });
+		expect(output.h).toBe(evaluate(x, { n: RSA_2048, t }).h);
+		expect(output.checkpoints.values[0]).toBe(x);
+	});
+
+	test("rejects invalid inputs", () => {
+		expect(() =>
+			evaluateWithCheckpoints(0n, { n: TEST_MODULUS, t: 10 }),
+		).toThrow("x must be in range (0, n)");
+		expect(() =>
+			evaluateWithCheckpoints(P, { n: TEST_MODULUS, t: 10 }),
+		).toThrow("x must be coprime to n");
+		expect(() =>
+			evaluateWithCheckpoints(TEST_X, { n: TEST_MODULUS, t: 0 }),
+		).toThrow("t must be positive");
+		expect(() =>
+			evaluateWithCheckpoints(TEST_X, { n: TEST_MODULUS, t: 10 }, { k: 0 }),
+		).toThrow("k must be a positive integer");
+		expect(() =>
+			evaluateWithCheckpoints(TEST_X, { n: TEST_MODULUS, t: 10 }, { k: 25 }),
+		).toThrow("k must be at most 24");
+		expect(() =>
+			evaluateWithCheckpoints(
+				TEST_X,
+				{ n: TEST_MODULUS, t: 10 },
+				{ gamma: 1.5 },
+			),
+		).toThrow("gamma must be a positive integer");
+	});
+});
+
+describe("proveFromCheckpoints", () => {
+	test("matches prove for various t, k and gamma", async () => {
+		for (const t of [1, 5, 64, 100, 777, 1500]) {
+			for (const [k, gamma] of [
+				[1, 1],
+				[3, 1],
+				[4, 3],
+				[7, 2],
+			] as const) {
+				const output = evaluateWithCheckpoints(
+					TEST_X,
+					{ n: TEST_MODULUS, t },
+					{ k, gamma },
+				);
+				const l = await deriveChallenge(output, new Uint8Array(32));
+				expect(proveFromCheckpoints(output, l)).toBe(prove(output, l));
+			}
+		}
+	});
+
+	test("matches prove for small challenges", () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 300 },
+			{ k: 5, gamma: 2 },
+		);
+		for (const l of [3n, 97n, nextPrime(1n << 100n)]) {
+			expect(proveFromCheckpoints(output, l)).toBe(prove(output, l));
+		}
+	});
+
+	test("produces verifiable proofs with RSA-2048", async () => {
+		const output = evaluateWithCheckpoints(2n, { n: RSA_2048, t: 3000 });
+		const nonce = new Uint8Array(32);
+		const l = await deriveChallenge(output, nonce);
+		const pi = proveFromCheckpoints(output, l);
+		expect(pi).toBe(prove(output, l));
+		expect(verify({ ...output, pi, l, nonce })).toBe(true);
+	});
+
+	test("supports the signed group", async () => {
+		const nonce = new Uint8Array(32);
+		for (let i = 0n; i < 10n; i++) {
+			const params = { n: TEST_MODULUS, t: 1500, signed: true };
+			const x = TEST_MODULUS - TEST_X - i;
+			const output = evaluateWithCheckpoints(x, params, { k: 4, gamma: 3 });
+			const { checkpoints, ...plain } = output;
+			expect(plain).toEqual(evaluate(x, params));
+			expect(checkpoints.values[0]).toBe(TEST_X + i);
+
+			const l = await deriveChallenge(output, nonce);
+			const pi = proveFromCheckpoints(output, l);
+			expect(pi).toBe(prove(output, l));
+			expect(verify({ ...output, pi, l, nonce })).toBe(true);
+		}
+	});
+
+	test("rejects a checkpoint count that does not match", () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 100 },
+			{ k: 4, gamma: 1 },
+		);
+		output.checkpoints.values.pop();
+		expect(() => proveFromCheckpoints(output, 97n)).toThrow(
+			"checkpoint count does not match t, k and gamma",
+		);
+	});
+});
+
+describe("generic checkpointed proving", () => {
+	test("matches proveInGroup in a class group", async () => {
+		const group = new ClassGroup(
+			await createDiscriminant(new Uint8Array([5]), 256),
+		);
+		const output = evaluateWithCheckpointsInGroup(
+			group,
+			classGroupGenerator(group.d),
+			200,
+			{
+				k: 4,
+				gamma: 2,
+			},
+		);
+		const l = nextPrime(1n << 60n);
+		expect(
+			group.equals(
+				proveFromCheckpointsInGroup(group, output, l),
+				proveInGroup(group, output, l),
+			),
+		).toBe(true);
+	});
+});
+
+describe("provePietrzak with stored checkpoints", () => {
+	test("reuses checkpoints and produces the same proof", async () => {
+		const params = { n: TEST_MODULUS, t: 500 };
+		const checkpointed = evaluateWithCheckpoints(TEST_X, params, {
+			k: 4,
+			gamma: 5,
+		});
+		const fromCheckpoints = await provePietrzak(checkpointed);
+		const plain = await provePietrzak(evaluate(TEST_X, params));
+		expect(fromCheckpoints.mu).toEqual(plain.mu);
+		expect("checkpoints" in fromCheckpoints).toBe(false);
+		expect(await verifyPietrzak(fromCheckpoints)).toBe(true);
+	});
+});
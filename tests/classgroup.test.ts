@@ -0,0 +1,230 @@
+import { describe, test, expect } from "bun:test";
+import {
+	createDiscriminant,
+	classGroupGenerator,
+	identityForm,
+	formDiscriminant,
+	reduceForm,
+	isReducedForm,
+	isClassGroupElement,
+	composeForms,
+	squareForm,
+	powForm,
+	encodeForm,
+	decodeForm,
+	evaluateClassGroup,
+	deriveClassGroupChallenge,
+	proveClassGroup,
+	generateClassGroupProof,
+	verifyClassGroup,
+	verifyClassGroupWithChallenge,
+	type QuadraticForm,
+} from "../src/classgroup.ts";
+import { isPrime } from "../src/prime.ts";
+import {
+	InvalidInputError,
+	InvalidParamsError,
+	ProofFormatError,
+} from "../src/errors.ts";
+
+// Small discriminants with known class numbers
+const D23 = -23n; // h(-23) = 3
+const D47 = -47n; // h(-47) = 5
+// Composite discriminant -9·23, which has reduced forms that are not primitive
+const D207 = -207n;
+
+const SEED = new TextEncoder().encode("class-group-test");
+
+let D: bigint;
+let G: QuadraticForm;
+
+async function setup(): Promise<void> {
+	if (D === undefined) {
+		D = await createDiscriminant(SEED, 256);
+		G = classGroupGenerator(D);
+	}
+}
+
+describe("createDiscriminant", () => {
+	test("returns a negative prime discriminant of the requested size", async () => {
+		const d = await createDiscriminant(SEED, 256);
+		expect(d < 0n).toBe(true);
+		expect((-d).toString(2).length).toBe(256);
+		expect(isPrime(-d)).toBe(true);
+		expect(((d % 8n) + 8n) % 8n).toBe(1n);
+	});
+
+	test("is deterministic and seed-dependent", async () => {
+		const a = await createDiscriminant(SEED, 128);
+		const b = await createDiscriminant(SEED, 128);
+		const c = await createDiscriminant(new Uint8Array([1]), 128);
+		expect(a).toBe(b);
+		expect(a).not.toBe(c);
+	});
+
+	test("throws for tiny bit lengths", async () => {
+		await expect(createDiscriminant(SEED, 8)).rejects.toThrow(
+			InvalidParamsError,
+		);
+	});
+});
+
+describe("form arithmetic", () => {
+	test("reduces forms", () => {
+		const f = reduceForm({ a: 6n, b: 13n, c: 8n });
+		expect(isReducedForm(f)).toBe(true);
+		expect(formDiscriminant(f)).toBe(13n * 13n - 4n * 6n * 8n);
+	});
+
+	test("generator has order 3 for d = -23", () => {
+		const g = classGroupGenerator(D23);
+		expect(g).toEqual({ a: 2n, b: 1n, c: 3n });
+		expect(composeForms(composeForms(g, g), g)).toEqual(identityForm(D23));
+		expect(powForm(g, 3n, D23)).toEqual(identityForm(D23));
+	});
+
+	test("generator has order 5 for d = -47", () => {
+		const g = classGroupGenerator(D47);
+		expect(powForm(g, 5n, D47)).toEqual(identityForm(D47));
+		expect(powForm(g, 2n, D47)).not.toEqual(identityForm(D47));
+	});
+
+	test("NUDUPL squaring matches composition", async () => {
+		await setup();
+		let f = G;
+		for (let i = 0; i < 100; i++) {
+			const s = squareForm(f, D);
+			expect(s).toEqual(composeForms(f, f));
+			expect(formDiscriminant(s)).toBe(D);
+			expect(isReducedForm(s)).toBe(true);
+			f = s;
+		}
+	});
+
+	test("composition is commutative and associative", async () => {
+		await setup();
+		const f = powForm(G, 12345n, D);
+		const g = powForm(G, 67890n, D);
+		const h = powForm(G, 424242n, D);
+		expect(composeForms(f, g)).toEqual(composeForms(g, f));
+		expect(composeForms(composeForms(f, g), h)).toEqual(
+			composeForms(f, composeForms(g, h)),
+		);
+		expect(composeForms(f, g)).toEqual(powForm(G, 12345n + 67890n, D));
+	});
+
+	test("identity is neutral", async () => {
+		await setup();
+		const f = powForm(G, 99n, D);
+		expect(composeForms(f, identityForm(D))).toEqual(f);
+		expect(powForm(f, 0n, D)).toEqual(identityForm(D));
+	});
+});
+
+describe("encodeForm / decodeForm", () => {
+	test("roundtrips", async () => {
+		await setup();
+		for (const e of [1n, 2n, 1000n, 123456789n]) {
+			const f = powForm(G, e, D);
+			expect(decodeForm(encodeForm(f, D), D)).toEqual(f);
+		}
+	});
+
+	test("rejects malformed encodings", async () => {
+		await setup();
+		const bytes = encodeForm(powForm(G, 77n, D), D);
+		expect(() => decodeForm(bytes.subarray(1), D)).toThrow(ProofFormatError);
+
+		const badSign = bytes.slice();
+		badSign[bytes.length >> 1] = 2;
+		expect(() => decodeForm(badSign, D)).toThrow(ProofFormatError);
+
+		const badA = bytes.slice();
+		badA[(bytes.length >> 1) - 1]! ^= 1;
+		expect(() => decodeForm(badA, D)).toThrow(ProofFormatError);
+	});
+
+	test("rejects unreduced forms", async () => {
+		await setup();
+		expect(() => encodeForm({ a: 2n, b: 1n, c: 3n }, D)).toThrow(
+			InvalidInputError,
+		);
+	});
+
+	test("rejects non-primitive forms of a composite discriminant", () => {
+		const f = { a: 3n, b: 3n, c: 18n };
+		expect(isReducedForm(f)).toBe(true);
+		expect(formDiscriminant(f)).toBe(D207);
+		expect(isClassGroupElement(f, D207)).toBe(false);
+		expect(isClassGroupElement(identityForm(D207), D207)).toBe(true);
+		expect(() => encodeForm(f, D207)).toThrow(InvalidInputError);
+		expect(() => decodeForm(new Uint8Array([3, 0, 3]), D207)).toThrow(
+			"encoded form is not primitive",
+		);
+	});
+});
+
+describe("class group VDF", () => {
+	test("evaluate matches repeated squaring via powForm", async () => {
+		await setup();
+		const output = evaluateClassGroup(G, { d: D, t: 20 });
+		expect(output.h).toEqual(powForm(G, 1n << 20n, D));
+	});
+
+	test("evaluate validates inputs", async () => {
+		await setup();
+		expect(() =>
+			evaluateClassGroup({ a: 2n, b: 1n, c: 3n }, { d: D, t: 10 }),
+		).toThrow(InvalidInputError);
+		expect(() => evaluateClassGroup(G, { d: D, t: 0 })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => evaluateClassGroup(G, { d: 5n, t: 10 })).toThrow(
+			InvalidParamsError,
+		);
+	});
+
+	test("proof verifies", async () => {
+		await setup();
+		// t above the challenge size so that π is not the identity
+		const output = evaluateClassGroup(G, { d: D, t: 600 });
+		const proof = await generateClassGroupProof(output);
+		expect(proof.pi).not.toEqual(identityForm(D));
+		expect(verifyClassGroup(proof)).toBe(true);
+		expect(await verifyClassGroupWithChallenge(proof)).toBe(true);
+	});
+
+	test("prove matches the challenge-derived proof", async () => {
+		await setup();
+		const output = evaluateClassGroup(G, { d: D, t: 50 });
+		const nonce = new Uint8Array(32).fill(3);
+		const l = await deriveClassGroupChallenge(output, nonce);
+		const pi = proveClassGroup(output, l);
+		expect(pi).toEqual(powForm(G, (1n << 50n) / l, D));
+		expect(verifyClassGroup({ ...output, pi, l, nonce })).toBe(true);
+	});
+
+	test("verification fails with wrong output", async () => {
+		await setup();
+		const output = evaluateClassGroup(G, { d: D, t: 100 });
+		const proof = await generateClassGroupProof(output);
+		const wrong = evaluateClassGroup(G, { d: D, t: 101 }).h;
+		expect(verifyClassGroup({ ...proof, h: wrong })).toBe(false);
+		expect(verifyClassGroup({ ...proof, pi: composeForms(proof.pi, G) })).toBe(
+			false,
+		);
+	});
+
+	test("verification fails with malformed forms or tampered l", async () => {
+		await setup();
+		const output = evaluateClassGroup(G, { d: D, t: 100 });
+		const proof = await generateClassGroupProof(output);
+		expect(verifyClassGroup({ ...proof, pi: { a: 1n, b: 1n, c: 1n } })).toBe(
+			false,
+		);
+		expect(verifyClassGroup({ ...proof, l: proof.l + 1n })).toBe(false);
+		expect(
+			await verifyClassGroupWithChallenge({ ...proof, l: proof.l + 2n }),
+		).toBe(false);
+	});
+});
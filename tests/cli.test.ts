@@ -0,0 +1,481 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { main, EXIT_CODES, type CLIStreams } from "../src/cli.ts";
+import { evaluate, generateProof } from "../src/vdf.ts";
+import { hashToGroup } from "../src/hash.ts";
+import { decodeProof } from "../src/encoding.ts";
+import { outputToJSON, proofFromJSON, proofToJSON } from "../src/json.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+const NONCE = "07".repeat(32);
+
+let dir: string;
+let modulusFile: string;
+
+beforeAll(async () => {
+	dir = await mkdtemp(join(tmpdir(), "wesolowski-cli-"));
+	modulusFile = join(dir, "modulus.txt");
+	await writeFile(modulusFile, `${TEST_MODULUS}\n`);
+});
+
+afterAll(async () => {
+	await rm(dir, { recursive: true, force: true });
+});
+
+interface Run {
+	code: number;
+	stdout: string;
+	bytes: Uint8Array;
+	stderr: string;
+}
+
+async function run(
+	args: string[],
+	options: { stdin?: string | Uint8Array; isTTY?: boolean } = {},
+): Promise<Run> {
+	const out: Uint8Array[] = [];
+	let stderr = "";
+	const io: CLIStreams = {
+		stdout: (data) =>
+			out.push(
+				typeof data === "string" ? new TextEncoder().encode(data) : data,
+			),
+		stderr: (text) => {
+			stderr += text;
+		},
+		stdin: async () =>
+			typeof options.stdin === "string"
+				? new TextEncoder().encode(options.stdin)
+				: (options.stdin ?? new Uint8Array(0)),
+		isTTY: options.isTTY ?? false,
+	};
+	const code = await main(args, io);
+	const bytes = new Uint8Array(Buffer.concat(out));
+	return { code, stdout: new TextDecoder().decode(bytes), bytes, stderr };
+}
+
+function lines(text: string): unknown[] {
+	return text
+		.trim()
+		.split("\n")
+		.map((line) => JSON.parse(line));
+}
+
+describe("eval", () => {
+	test("prints the output as JSON", async () => {
+		const result = await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"100",
+			"--x",
+			`${TEST_X}`,
+		]);
+		expect(result.code).toBe(EXIT_CODES.OK);
+		expect(JSON.parse(result.stdout)).toEqual(
+			outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 100 })),
+		);
+	});
+
+	test("derives the input from a seed", async () => {
+		const seed = new TextEncoder().encode("block 42");
+		const x = await hashToGroup(seed, TEST_MODULUS, { domain: "test" });
+		const expected = outputToJSON(evaluate(x, { n: TEST_MODULUS, t: 50 }));
+
+		const text = await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"50",
+			"--seed",
+			"block 42",
+			"--domain",
+			"test",
+		]);
+		expect(JSON.parse(text.stdout)).toEqual(expected);
+		const hex = await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"50",
+			"--seed-hex",
+			Buffer.from(seed).toString("hex"),
+			"--domain",
+			"test",
+		]);
+		expect(JSON.parse(hex.stdout)).toEqual(expected);
+	});
+
+	test("passes the signed and challenge options", async () => {
+		const result = await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"50",
+			"--x",
+			"0x75bcd17",
+			"--signed",
+			"--challenge-hash",
+			"BLAKE2b",
+			"--challenge-bits",
+			"256",
+		]);
+		expect(JSON.parse(result.stdout)).toEqual(
+			outputToJSON(
+				evaluate(TEST_X, {
+					n: TEST_MODULUS,
+					t: 50,
+					signed: true,
+					challenge: { hash: "BLAKE2b", bits: 256, tag: "wesolowski-v1" },
+				}),
+			),
+		);
+	});
+
+	test("shows progress on request or on a terminal", async () => {
+		const args = ["eval", "-m", modulusFile, "-t", "100", "--x", "5"];
+		expect((await run(args)).stderr).toBe("");
+		expect((await run([...args, "--progress"])).stderr).toContain(
+			"evaluating: 100.0%",
+		);
+		expect((await run(args, { isTTY: true })).stderr).toMatch(
+			/^\revaluating: 100\.0%.*\n$/,
+		);
+		expect((await run([...args, "-q"], { isTTY: true })).stderr).toBe("");
+	});
+
+	test("writes to a file", async () => {
+		const out = join(dir, "output.json");
+		const result = await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"10",
+			"--x",
+			"5",
+			"-o",
+			out,
+		]);
+		expect(result.stdout).toBe("");
+		expect(JSON.parse(await readFile(out, "utf8")).t).toBe(10);
+	});
+});
+
+describe("prove and verify", () => {
+	test("round-trip through JSON and binary", async () => {
+		const expected = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 100 }),
+			Buffer.from(NONCE, "hex"),
+		);
+		const base = [
+			"prove",
+			"-m",
+			modulusFile,
+			"-t",
+			"100",
+			"--x",
+			`${TEST_X}`,
+			"--nonce",
+			NONCE,
+		];
+
+		const json = await run(base);
+		expect(json.code).toBe(EXIT_CODES.OK);
+		expect(JSON.parse(json.stdout)).toEqual(proofToJSON(expected));
+
+		const binary = await run([...base, "--format", "binary"]);
+		expect(decodeProof(binary.bytes)).toEqual(expected);
+
+		for (const stdin of [json.stdout, binary.bytes]) {
+			const verified = await run(["verify"], { stdin });
+			expect(verified.code).toBe(EXIT_CODES.OK);
+			expect(JSON.parse(verified.stdout)).toEqual({
+				ok: true,
+				code: "OK",
+				reason: "proof is valid",
+			});
+		}
+	});
+
+	test("prove reads an output written by eval", async () => {
+		const outputFile = join(dir, "eval.json");
+		await run([
+			"eval",
+			"-m",
+			modulusFile,
+			"-t",
+			"80",
+			"--x",
+			"5",
+			"-o",
+			outputFile,
+		]);
+		const proofFile = join(dir, "proof.bin");
+		expect(
+			(
+				await run([
+					"prove",
+					"--input",
+					outputFile,
+					"--format",
+					"binary",
+					"-o",
+					proofFile,
+				])
+			).code,
+		).toBe(EXIT_CODES.OK);
+		expect((await run(["verify", proofFile])).code).toBe(EXIT_CODES.OK);
+
+		const mixed = await run(["prove", "--input", outputFile, "--x", "5"]);
+		expect(mixed.code).toBe(EXIT_CODES.USAGE);
+	});
+
+	test("verify reports invalid proofs", async () => {
+		const proof = await generateProof(evaluate(5n, { n: TEST_MODULUS, t: 60 }));
+		const tampered = proofToJSON({
+			...proof,
+			h: (proof.h * 2n) % TEST_MODULUS,
+		});
+		const result = await run(["verify", "-"], {
+			stdin: JSON.stringify(tampered),
+		});
+		expect(result.code).toBe(EXIT_CODES.INVALID);
+		expect(JSON.parse(result.stdout)).toMatchObject({ ok: false });
+	});
+
+	test("verify checks the seed and the challenge options", async () => {
+		const proved = await run([
+			"prove",
+			"-m",
+			modulusFile,
+			"-t",
+			"60",
+			"--seed",
+			"abc",
+		]);
+		const proofFile = join(dir, "seeded.json");
+		await writeFile(proofFile, proved.stdout);
+
+		expect((await run(["verify", proofFile, "--seed", "abc"])).code).toBe(
+			EXIT_CODES.OK,
+		);
+		const other = await run(["verify", proofFile, "--seed", "abd"]);
+		expect(other.code).toBe(EXIT_CODES.INVALID);
+		expect(JSON.parse(other.stdout).code).toBe("INVALID_X");
+
+		// A proof whose nonce does not match its challenge passes only
+		// without challenge re-derivation
+		const proof = proofFromJSON(proved.stdout);
+		const forged = JSON.stringify(
+			proofToJSON({ ...proof, nonce: new Uint8Array(32) }),
+		);
+		expect((await run(["verify"], { stdin: forged })).code).toBe(
+			EXIT_CODES.INVALID,
+		);
+		expect(
+			(await run(["verify", "--skip-challenge"], { stdin: forged })).code,
+		).toBe(EXIT_CODES.OK);
+		expect(
+			(await run(["verify", proofFile, "--require-registered"])).code,
+		).toBe(EXIT_CODES.INVALID);
+	});
+
+	test("verify pins the modulus and t", async () => {
+		const proved = await run([
+			"prove",
+			"-m",
+			modulusFile,
+			"-t",
+			"60",
+			"--x",
+			"5",
+		]);
+		const proofFile = join(dir, "pinned.json");
+		await writeFile(proofFile, proved.stdout);
+
+		expect(
+			(await run(["verify", proofFile, "-m", modulusFile, "-t", "60"])).code,
+		).toBe(EXIT_CODES.OK);
+
+		const modulus = await run(["verify", proofFile, "-m", "RSA_2048"]);
+		expect(modulus.code).toBe(EXIT_CODES.INVALID);
+		expect(JSON.parse(modulus.stdout).code).toBe("INVALID_MODULUS");
+
+		const t = await run(["verify", proofFile, "--t", "1_000"]);
+		expect(t.code).toBe(EXIT_CODES.INVALID);
+		expect(JSON.parse(t.stdout).code).toBe("INVALID_T");
+
+		expect((await run(["verify", proofFile, "-t", "0"])).code).toBe(
+			EXIT_CODES.USAGE,
+		);
+
+		const batch = await run(["verify", "--batch", "-", "-t", "61"], {
+			stdin: proved.stdout,
+		});
+		expect(batch.code).toBe(EXIT_CODES.INVALID);
+		expect(lines(batch.stdout)).toEqual([
+			{
+				line: 1,
+				ok: false,
+				code: "INVALID_T",
+				reason: "t is not the value given with --t",
+			},
+		]);
+	});
+});
+
+describe("batch mode", () => {
+	test("proves and verifies NDJSON files", async () => {
+		const requests = join(dir, "requests.ndjson");
+		await writeFile(
+			requests,
+			['{"x":"5"}', "", '{"seed":"abc","t":40}', '{"x":"0"}', "not json"].join(
+				"\n",
+			),
+		);
+		const proofs = join(dir, "proofs.ndjson");
+		const proved = await run([
+			"prove",
+			"-m",
+			modulusFile,
+			"-t",
+			"30",
+			"--batch",
+			requests,
+			"-o",
+			proofs,
+		]);
+		expect(proved.code).toBe(EXIT_CODES.INPUT);
+
+		const results = lines(await readFile(proofs, "utf8")) as Record<
+			string,
+			unknown
+		>[];
+		expect(results).toHaveLength(4);
+		expect(results[0]!.t).toBe(30);
+		expect(results[1]!.t).toBe(40);
+		expect(results[2]).toEqual({
+			line: 4,
+			error: { code: "INVALID_INPUT", message: "x must be in range (0, n)" },
+		});
+		expect(results[3]).toMatchObject({
+			line: 5,
+			error: { code: "INVALID_JSON" },
+		});
+
+		// Keep the two proofs and add a tampered one
+		const valid = results.slice(0, 2);
+		const tampered = { ...valid[0]!, t: 31 };
+		await writeFile(
+			proofs,
+			[...valid, tampered].map((p) => JSON.stringify(p)).join("\n"),
+		);
+		const verified = await run(["verify", "--batch", proofs]);
+		expect(verified.code).toBe(EXIT_CODES.INVALID);
+		expect(lines(verified.stdout)).toMatchObject([
+			{ line: 1, ok: true },
+			{ line: 2, ok: true },
+			{ line: 3, ok: false },
+		]);
+	});
+
+	test("evaluates NDJSON read from stdin", async () => {
+		const result = await run(
+			["eval", "-m", modulusFile, "-t", "20", "--batch", "-"],
+			{ stdin: '{"x":"5"}\n{"x":"7","t":"21"}\n' },
+		);
+		expect(result.code).toBe(EXIT_CODES.OK);
+		expect(lines(result.stdout)).toEqual([
+			outputToJSON(evaluate(5n, { n: TEST_MODULUS, t: 20 })),
+			outputToJSON(evaluate(7n, { n: TEST_MODULUS, t: 21 })),
+		]);
+	});
+});
+
+describe("inspect", () => {
+	test("describes a proof", async () => {
+		const proved = await run([
+			"prove",
+			"-m",
+			modulusFile,
+			"-t",
+			"40",
+			"--x",
+			"5",
+			"--signed",
+			"--challenge-tag",
+			"app-v2",
+			"--format",
+			"binary",
+		]);
+		const result = await run(["inspect"], { stdin: proved.bytes });
+		expect(result.code).toBe(EXIT_CODES.OK);
+		expect(JSON.parse(result.stdout)).toMatchObject({
+			format: "binary",
+			encodingVersion: 3,
+			bytes: proved.bytes.length,
+			modulus: { bits: 60 },
+			t: 40,
+			signed: true,
+			challenge: { hash: "SHA-512", bits: 512, tag: "app-v2" },
+			verification: { ok: true, code: "OK" },
+		});
+	});
+});
+
+describe("calibrate", () => {
+	test("measures the speed and suggests t", async () => {
+		const result = await run([
+			"calibrate",
+			"-m",
+			modulusFile,
+			"--duration",
+			"50",
+			"--target",
+			"1000",
+			"--safety-factor",
+			"1",
+		]);
+		expect(result.code).toBe(EXIT_CODES.OK);
+		const report = JSON.parse(result.stdout);
+		expect(report.modulusBits).toBe(60);
+		expect(report.squaringsPerSecond).toBeGreaterThan(0);
+		expect(report.t).toBeGreaterThanOrEqual(report.squaringsPerSecond - 1);
+	});
+});
+
+describe("errors", () => {
+	test("map to exit codes", async () => {
+		expect((await run([])).code).toBe(EXIT_CODES.USAGE);
+		expect((await run(["--help"])).stdout).toContain("Usage: wesolowski");
+		expect((await run(["frobnicate"])).code).toBe(EXIT_CODES.USAGE);
+		expect((await run(["eval", "--nope"])).code).toBe(EXIT_CODES.USAGE);
+		expect((await run(["eval", "--x", "5"])).stderr).toContain(
+			"--t is required",
+		);
+		expect((await run(["eval", "-t", "5", "--x", "five"])).code).toBe(
+			EXIT_CODES.USAGE,
+		);
+		expect(
+			(await run(["eval", "-m", modulusFile, "-t", "5", "--x", `${P}`])).code,
+		).toBe(EXIT_CODES.INPUT);
+		expect(
+			(await run(["eval", "-m", join(dir, "missing"), "-t", "5", "--x", "5"]))
+				.code,
+		).toBe(EXIT_CODES.IO);
+		expect((await run(["verify"], { stdin: "{" })).code).toBe(EXIT_CODES.INPUT);
+		const garbage = await run(["verify"], { stdin: new Uint8Array([9, 9]) });
+		expect(garbage.code).toBe(EXIT_CODES.INPUT);
+		expect(garbage.stderr).toContain("unsupported proof encoding version 9");
+	});
+});
@@ -0,0 +1,79 @@
+import { describe, test, expect } from "bun:test";
+import { createHash } from "node:crypto";
+import { sha256, sha512, sha3_256, blake2b } from "../src/digest.ts";
+
+// Cover lengths around the block sizes (64 bytes for SHA-256, 128 for
+// SHA-512 and BLAKE2b, 136 for SHA3-256)
+const LENGTHS = [0, 1, 3, 55, 64, 127, 128, 129, 135, 136, 137, 255, 256, 1000];
+
+function message(length: number): Uint8Array {
+	const bytes = new Uint8Array(length);
+	for (let i = 0; i < length; i++) {
+		bytes[i] = (i * 31 + 7) & 0xff;
+	}
+	return bytes;
+}
+
+describe("sha256 / sha512", () => {
+	test("match node:crypto", () => {
+		for (const length of LENGTHS) {
+			const m = message(length);
+			expect(sha256(m)).toEqual(
+				new Uint8Array(createHash("sha256").update(m).digest()),
+			);
+			expect(sha512(m)).toEqual(
+				new Uint8Array(createHash("sha512").update(m).digest()),
+			);
+		}
+	});
+
+	test("pad messages at the block boundary", () => {
+		// 55 and 111 bytes are the longest messages that fit one padded block
+		for (const length of [55, 56, 63, 111, 112, 119]) {
+			const m = message(length);
+			expect(sha256(m)).toEqual(
+				new Uint8Array(createHash("sha256").update(m).digest()),
+			);
+			expect(sha512(m)).toEqual(
+				new Uint8Array(createHash("sha512").update(m).digest()),
+			);
+		}
+	});
+});
+
+describe("sha3_256", () => {
+	test("known answer for the empty message", () => {
+		expect(Buffer.from(sha3_256(new Uint8Array())).toString("hex")).toBe(
+			"a7ffc6f8bf1ed76651c14756a061d662f580ff4de43b49fa82d80a4b80f8434a",
+		);
+	});
+
+	test("matches node:crypto", () => {
+		for (const length of LENGTHS) {
+			const m = message(length);
+			expect(sha3_256(m)).toEqual(
+				new Uint8Array(createHash("sha3-256").update(m).digest()),
+			);
+		}
+	});
+});
+
+describe("blake2b", () => {
+	test("known answer for 'abc'", () => {
+		expect(
+			Buffer.from(blake2b(new TextEncoder().encode("abc"))).toString("hex"),
+		).toBe(
+			"ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d1" +
+				"7d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+		);
+	});
+
+	test("matches node:crypto", () => {
+		for (const length of LENGTHS) {
+			const m = message(length);
+			expect(blake2b(m)).toEqual(
+				new Uint8Array(createHash("blake2b512").update(m).digest()),
+			);
+		}
+	});
+});
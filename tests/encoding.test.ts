@@ -0,0 +1,174 @@
+import { describe, test, expect } from "bun:test";
+import {
+	encodeProof,
+	decodeProof,
+	PROOF_ENCODING_VERSION,
+} from "../src/encoding.ts";
+import {
+	evaluate,
+	generateProof,
+	verify,
+	RSA_2048,
+	type VDFProof,
+} from "../src/vdf.ts";
+import { bigintByteLength } from "../src/utils.ts";
+import { ProofFormatError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+const NONCE = new Uint8Array(32).fill(7);
+
+async function makeProof(n: bigint, t: number): Promise<VDFProof> {
+	return generateProof(evaluate(TEST_X, { n, t }), NONCE);
+}
+
+describe("encodeProof / decodeProof", () => {
+	test("roundtrips a proof with an explicit modulus", async () => {
+		const proof = await makeProof(TEST_MODULUS, 100);
+		const bytes = encodeProof(proof);
+		const decoded = decodeProof(bytes);
+		expect(decoded).toEqual(proof);
+		expect(verify(decoded)).toBe(true);
+	});
+
+	test("roundtrips a proof with a well-known modulus", async () => {
+		const proof = await makeProof(RSA_2048, 10);
+		const bytes = encodeProof(proof);
+		expect(bytes[0]).toBe(PROOF_ENCODING_VERSION);
+		expect(bytes[1]).toBe(1);
+		// version + id + t + 3 * 256 + l length + l + nonce
+		expect(bytes.length).toBe(
+			2 + 8 + 3 * 256 + 4 + bigintByteLength(proof.l) + 32,
+		);
+		expect(decodeProof(bytes)).toEqual(proof);
+	});
+
+	test("encoding is deterministic", async () => {
+		const proof = await makeProof(TEST_MODULUS, 50);
+		expect(encodeProof(proof)).toEqual(encodeProof({ ...proof }));
+	});
+
+	test("rejects unsupported version", async () => {
+		const bytes = encodeProof(await makeProof(TEST_MODULUS, 10));
+		bytes[0] = 99;
+		expect(() => decodeProof(bytes)).toThrow(
+			"unsupported proof encoding version",
+		);
+	});
+
+	test("rejects unknown modulus id", async () => {
+		const bytes = encodeProof(await makeProof(RSA_2048, 10));
+		bytes[1] = 42;
+		expect(() => decodeProof(bytes)).toThrow("unknown modulus id");
+	});
+
+	test("rejects trailing bytes", async () => {
+		const bytes = encodeProof(await makeProof(TEST_MODULUS, 10));
+		const extended = new Uint8Array(bytes.length + 1);
+		extended.set(bytes);
+		expect(() => decodeProof(extended)).toThrow("trailing bytes");
+	});
+
+	test("rejects truncated input", async () => {
+		const bytes = encodeProof(await makeProof(TEST_MODULUS, 10));
+		expect(() => decodeProof(bytes.subarray(0, bytes.length - 1))).toThrow(
+			"truncated",
+		);
+		expect(() => decodeProof(new Uint8Array(0))).toThrow("truncated");
+	});
+
+	test("rejects non-canonical modulus padding", async () => {
+		const bytes = encodeProof(await makeProof(TEST_MODULUS, 10));
+		// Re-encode the modulus with a leading zero byte
+		const nLen = bytes[5]!;
+		const padded = new Uint8Array(bytes.length + 1);
+		padded.set(bytes.subarray(0, 2));
+		padded.set([0, 0, 0, nLen + 1, 0], 2);
+		padded.set(bytes.subarray(6), 7);
+		expect(() => decodeProof(padded)).toThrow("non-canonical padding");
+	});
+
+	test("rejects well-known modulus encoded explicitly", async () => {
+		const proof = await makeProof(RSA_2048, 10);
+		const bytes = encodeProof(proof);
+		const explicit = new Uint8Array(bytes.length + 4 + 256);
+		explicit.set([PROOF_ENCODING_VERSION, 0, 0, 0, 1, 0]);
+		explicit.set(new Uint8Array(Buffer.from(RSA_2048.toString(16), "hex")), 6);
+		explicit.set(bytes.subarray(2), 6 + 256);
+		expect(() => decodeProof(explicit)).toThrow("encoded by id");
+	});
+
+	test("rejects out-of-range values", async () => {
+		const bytes = encodeProof(await makeProof(TEST_MODULUS, 10));
+		// Offset of x: version, id, n length, n (8 bytes), t
+		const xOffset = 2 + 4 + 8 + 8;
+		const zeroX = bytes.slice();
+		zeroX.fill(0, xOffset, xOffset + 8);
+		expect(() => decodeProof(zeroX)).toThrow(ProofFormatError);
+
+		const bigX = bytes.slice();
+		bigX.fill(0xff, xOffset, xOffset + 8);
+		expect(() => decodeProof(bigX)).toThrow(ProofFormatError);
+
+		const zeroT = bytes.slice();
+		zeroT.fill(0, xOffset - 8, xOffset);
+		expect(() => decodeProof(zeroT)).toThrow(ProofFormatError);
+	});
+
+	test("encodes signed proofs as version 3", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 10, signed: true }),
+			NONCE,
+		);
+		const bytes = encodeProof(proof);
+		expect(bytes[0]).toBe(3);
+		const decoded = decodeProof(bytes);
+		expect(decoded).toEqual(proof);
+		expect(verify(decoded)).toBe(true);
+
+		const custom = await generateProof(
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 10,
+				signed: true,
+				challenge: { bits: 256 },
+			}),
+			NONCE,
+		);
+		const decodedCustom = decodeProof(encodeProof(custom));
+		expect(decodedCustom.signed).toBe(true);
+		expect(decodedCustom.challenge?.bits).toBe(256);
+		expect(verify(decodedCustom)).toBe(true);
+
+		// Version, explicit modulus id, u32 length and n precede the flags
+		const flagsOffset = 1 + 1 + 4 + 8;
+		const unsigned = bytes.slice();
+		unsigned[flagsOffset] = 0;
+		expect(() => decodeProof(unsigned)).toThrow(
+			"unsigned proof must be encoded as version 1 or 2",
+		);
+		const unknown = bytes.slice();
+		unknown[flagsOffset] = 0x05;
+		expect(() => decodeProof(unknown)).toThrow(
+			"unknown proof encoding flags 5",
+		);
+
+		expect(() => encodeProof({ ...proof, h: TEST_MODULUS - proof.h })).toThrow(
+			"at most (n - 1) / 2 in a signed group",
+		);
+	});
+
+	test("encodeProof rejects out-of-range values", async () => {
+		const proof = await makeProof(TEST_MODULUS, 10);
+		expect(() => encodeProof({ ...proof, pi: TEST_MODULUS })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => encodeProof({ ...proof, nonce: new Uint8Array(31) })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => encodeProof({ ...proof, t: 0 })).toThrow(ProofFormatError);
+	});
+});
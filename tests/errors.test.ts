@@ -0,0 +1,97 @@
+import { describe, test, expect } from "bun:test";
+import {
+	VDFError,
+	InvalidInputError,
+	InvalidParamsError,
+	ProofFormatError,
+	ModulusRegistryError,
+	InvalidStateError,
+	DecryptionError,
+	type VDFErrorCode,
+} from "../src/errors.ts";
+import { evaluate, generateProof, RSA_2048 } from "../src/vdf.ts";
+import { decodeProof, encodeProof } from "../src/encoding.ts";
+import { proofFromJSON } from "../src/json.ts";
+import { resolveModulus } from "../src/registry.ts";
+import { u64be } from "../src/utils.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+function thrown(f: () => unknown): unknown {
+	try {
+		f();
+	} catch (e) {
+		return e;
+	}
+	throw new Error("expected an exception");
+}
+
+describe("VDFError", () => {
+	test("subclasses carry their code and name", () => {
+		const cases: [VDFError, VDFErrorCode, string][] = [
+			[new InvalidInputError("m"), "INVALID_INPUT", "InvalidInputError"],
+			[new InvalidParamsError("m"), "INVALID_PARAMS", "InvalidParamsError"],
+			[new ProofFormatError("m"), "PROOF_FORMAT", "ProofFormatError"],
+			[
+				new ModulusRegistryError("m"),
+				"MODULUS_REGISTRY",
+				"ModulusRegistryError",
+			],
+			[new InvalidStateError("m"), "INVALID_STATE", "InvalidStateError"],
+			[new DecryptionError("m"), "DECRYPTION_FAILED", "DecryptionError"],
+		];
+		for (const [error, code, name] of cases) {
+			expect(error).toBeInstanceOf(VDFError);
+			expect(error).toBeInstanceOf(Error);
+			expect(error.code).toBe(code);
+			expect(error.name).toBe(name);
+			expect(error.message).toBe("m");
+		}
+	});
+
+	test("keeps the cause", () => {
+		const cause = new Error("inner");
+		expect(new ProofFormatError("outer", { cause }).cause).toBe(cause);
+	});
+
+	test("is thrown throughout the library", async () => {
+		const input = thrown(() => evaluate(P, { n: TEST_MODULUS, t: 10 }));
+		expect(input).toBeInstanceOf(InvalidInputError);
+		expect((input as VDFError).code).toBe("INVALID_INPUT");
+
+		expect(
+			thrown(() => evaluate(TEST_X, { n: TEST_MODULUS, t: 0 })),
+		).toBeInstanceOf(InvalidParamsError);
+		expect(thrown(() => u64be(-1n))).toBeInstanceOf(InvalidInputError);
+		expect(thrown(() => decodeProof(new Uint8Array([9])))).toBeInstanceOf(
+			ProofFormatError,
+		);
+		expect(thrown(() => proofFromJSON("{}"))).toBeInstanceOf(ProofFormatError);
+		expect(thrown(() => resolveModulus("no-such-modulus"))).toBeInstanceOf(
+			ModulusRegistryError,
+		);
+
+		const proof = await generateProof(evaluate(5n, { n: RSA_2048, t: 10 }));
+		expect(thrown(() => encodeProof({ ...proof, pi: 0n }))).toBeInstanceOf(
+			ProofFormatError,
+		);
+		// The wrapped challenge error stays reachable
+		const json = thrown(() =>
+			proofFromJSON({
+				version: 1,
+				x: "5",
+				h: "5",
+				t: 1,
+				n: "f",
+				pi: "2",
+				l: "5",
+				nonce: "00".repeat(32),
+				challenge: { hash: "SHA-256", bits: 8, tag: "t" },
+			}),
+		) as ProofFormatError;
+		expect(json.cause).toBeInstanceOf(InvalidParamsError);
+	});
+});
@@ -0,0 +1,186 @@
+import { describe, test, expect } from "bun:test";
+import { RSAGroup, rsaGroupFor, type Group } from "../src/group.ts";
+import {
+	evaluate,
+	evaluateInGroup,
+	deriveChallenge,
+	deriveChallengeInGroup,
+	proveInGroup,
+	generateProofInGroup,
+	verifyInGroup,
+	verifyWithChallengeInGroup,
+	RSA_2048,
+} from "../src/vdf.ts";
+import { modpow } from "../src/utils.ts";
+import {
+	InvalidInputError,
+	InvalidParamsError,
+	ProofFormatError,
+} from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+/**
+ * Z*_p for a prime p: a group of known order, useful for testing the
+ * generic VDF functions (insecure as a VDF, since 2^t can be reduced mod p-1).
+ */
+class PrimeFieldGroup implements Group<bigint> {
+	readonly elementByteLength = 8;
+	constructor(readonly p: bigint) {}
+	identity() {
+		return 1n;
+	}
+	multiply(a: bigint, b: bigint) {
+		return (a * b) % this.p;
+	}
+	square(a: bigint) {
+		return (a * a) % this.p;
+	}
+	repeatedSquare(a: bigint, k: number) {
+		return modpow(a, modpow(2n, BigInt(k), this.p - 1n), this.p);
+	}
+	pow(a: bigint, e: bigint) {
+		return modpow(a, e, this.p);
+	}
+	powProduct(a: bigint, e: bigint, b: bigint, f: bigint) {
+		return (modpow(a, e, this.p) * modpow(b, f, this.p)) % this.p;
+	}
+	equals(a: bigint, b: bigint) {
+		return a === b;
+	}
+	isElement(a: bigint) {
+		return a > 0n && a < this.p;
+	}
+	encode(a: bigint) {
+		return new RSAGroup(this.p).encode(a);
+	}
+	decode(bytes: Uint8Array) {
+		return new RSAGroup(this.p).decode(bytes);
+	}
+	transcript() {
+		return new TextEncoder().encode(`Z*_${this.p}`);
+	}
+}
+
+describe("RSAGroup", () => {
+	test("plain and Montgomery representations agree", () => {
+		const plain = new RSAGroup(RSA_2048);
+		const mont = new RSAGroup(RSA_2048, { montgomery: true });
+		const x = 123456789n;
+		const xm = mont.fromBigint(x);
+
+		expect(mont.toBigint(mont.square(xm))).toBe(plain.square(x));
+		expect(mont.toBigint(mont.multiply(xm, mont.fromBigint(7n)))).toBe(
+			plain.multiply(x, 7n),
+		);
+		expect(mont.toBigint(mont.repeatedSquare(xm, 50))).toBe(
+			plain.repeatedSquare(x, 50),
+		);
+		expect(mont.toBigint(mont.pow(xm, 1000n))).toBe(plain.pow(x, 1000n));
+		expect(mont.toBigint(mont.identity())).toBe(1n);
+		expect(mont.encode(xm)).toEqual(plain.encode(x));
+		expect(mont.decode(plain.encode(x))).toBe(xm);
+	});
+
+	test("checks elements", () => {
+		const group = new RSAGroup(TEST_MODULUS);
+		expect(group.isElement(TEST_X)).toBe(true);
+		expect(group.isElement(0n)).toBe(false);
+		expect(group.isElement(TEST_MODULUS)).toBe(false);
+		expect(group.isElement(P)).toBe(false);
+	});
+
+	test("encodes to fixed width and rejects bad encodings", () => {
+		const group = new RSAGroup(TEST_MODULUS);
+		expect(group.encode(1n).length).toBe(group.elementByteLength);
+		expect(group.decode(group.encode(TEST_X))).toBe(TEST_X);
+		expect(() => group.decode(new Uint8Array(3))).toThrow(ProofFormatError);
+		expect(() => group.decode(new Uint8Array(8).fill(0xff))).toThrow(
+			ProofFormatError,
+		);
+	});
+
+	test("signed groups identify v with n - v", () => {
+		for (const montgomery of [false, true]) {
+			const group = new RSAGroup(TEST_MODULUS, { montgomery, signed: true });
+			const neg = TEST_MODULUS - TEST_X;
+			expect(group.toBigint(group.fromBigint(neg))).toBe(TEST_X);
+			expect(
+				group.equals(group.fromBigint(neg), group.fromBigint(TEST_X)),
+			).toBe(true);
+			expect(group.isElement(group.fromBigint(TEST_X))).toBe(true);
+			expect(group.isElement(group.fromBigint(neg))).toBe(false);
+			// -1 is the identity, so it no longer has order 2
+			expect(group.toBigint(group.fromBigint(TEST_MODULUS - 1n))).toBe(1n);
+		}
+
+		const group = new RSAGroup(TEST_MODULUS, { signed: true });
+		expect(group.encode(TEST_MODULUS - TEST_X)).toEqual(group.encode(TEST_X));
+		expect(() =>
+			group.decode(new RSAGroup(TEST_MODULUS).encode(TEST_MODULUS - TEST_X)),
+		).toThrow("encoded element must be at most (n - 1) / 2 in a signed group");
+		expect(group.transcript()).not.toEqual(
+			new RSAGroup(TEST_MODULUS).transcript(),
+		);
+	});
+
+	test("rejects invalid moduli", () => {
+		expect(() => new RSAGroup(1n)).toThrow(InvalidParamsError);
+		expect(() => new RSAGroup(10n, { montgomery: true })).toThrow(
+			InvalidParamsError,
+		);
+	});
+
+	test("rsaGroupFor selects Montgomery form for long chains on large moduli", () => {
+		const small = rsaGroupFor(TEST_MODULUS, 1_000_000);
+		expect(small.fromBigint(5n)).toBe(5n);
+		const large = rsaGroupFor(RSA_2048, 1_000_000);
+		expect(large.fromBigint(5n)).not.toBe(5n);
+		expect(large.toBigint(large.fromBigint(5n))).toBe(5n);
+	});
+});
+
+describe("generic VDF functions", () => {
+	test("match the RSA functions", async () => {
+		const group = new RSAGroup(TEST_MODULUS);
+		const output = evaluateInGroup(group, TEST_X, 100);
+		const rsa = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		expect(output.h).toBe(rsa.h);
+
+		const nonce = new Uint8Array(32).fill(9);
+		expect(await deriveChallengeInGroup(group, output, nonce)).toBe(
+			await deriveChallenge(rsa, nonce),
+		);
+	});
+
+	test("work with a pluggable test group", async () => {
+		const group = new PrimeFieldGroup(1000000007n);
+		const output = evaluateInGroup(group, 5n, 1000);
+		expect(output.h).toBe(group.repeatedSquare(5n, 1000));
+
+		const proof = await generateProofInGroup(group, output);
+		expect(verifyInGroup(group, proof)).toBe(true);
+		expect(await verifyWithChallengeInGroup(group, proof)).toBe(true);
+		expect(verifyInGroup(group, { ...proof, h: group.square(proof.h) })).toBe(
+			false,
+		);
+	});
+
+	test("prove computes x^⌊2^t / l⌋", () => {
+		const group = new PrimeFieldGroup(1000000007n);
+		const output = evaluateInGroup(group, 3n, 64);
+		const l = 1000003n;
+		expect(proveInGroup(group, output, l)).toBe(
+			modpow(3n, (1n << 64n) / l, group.p),
+		);
+	});
+
+	test("evaluate rejects invalid inputs", () => {
+		const group = new RSAGroup(TEST_MODULUS);
+		expect(() => evaluateInGroup(group, P, 10)).toThrow(InvalidInputError);
+		expect(() => evaluateInGroup(group, TEST_X, 0)).toThrow(InvalidParamsError);
+	});
+});
@@ -0,0 +1,90 @@
+import { describe, test, expect } from "bun:test";
+import { hashToGroup, expandSha512 } from "../src/hash.ts";
+import { RSA_2048 } from "../src/vdf.ts";
+import { gcd } from "../src/utils.ts";
+import { InvalidParamsError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+
+const SEED = new TextEncoder().encode("block-hash");
+
+describe("expandSha512", () => {
+	test("first block is SHA-512 of counter 0 and message", async () => {
+		const msg = new Uint8Array([1, 2, 3]);
+		const out = await expandSha512(msg, 64);
+		const expected = new Uint8Array(
+			await crypto.subtle.digest(
+				"SHA-512",
+				new Uint8Array([0, 0, 0, 0, 1, 2, 3]),
+			),
+		);
+		expect(out).toEqual(expected);
+	});
+
+	test("returns requested length", async () => {
+		expect((await expandSha512(SEED, 0)).length).toBe(0);
+		expect((await expandSha512(SEED, 65)).length).toBe(65);
+		expect((await expandSha512(SEED, 300)).length).toBe(300);
+	});
+
+	test("shorter output is a prefix of longer output", async () => {
+		const short = await expandSha512(SEED, 70);
+		const long = await expandSha512(SEED, 200);
+		expect(long.subarray(0, 70)).toEqual(short);
+	});
+
+	test("throws for invalid length", async () => {
+		await expect(expandSha512(SEED, -1)).rejects.toThrow(InvalidParamsError);
+	});
+});
+
+describe("hashToGroup", () => {
+	test("is deterministic", async () => {
+		const a = await hashToGroup(SEED, TEST_MODULUS);
+		const b = await hashToGroup(SEED, TEST_MODULUS);
+		expect(a).toBe(b);
+	});
+
+	test("returns a non-trivial element coprime to n", async () => {
+		for (let i = 0; i < 20; i++) {
+			const x = await hashToGroup(new Uint8Array([i]), TEST_MODULUS);
+			expect(x > 1n).toBe(true);
+			expect(x < TEST_MODULUS - 1n).toBe(true);
+			expect(gcd(x, TEST_MODULUS)).toBe(1n);
+		}
+	});
+
+	test("spans the full range of a large modulus", async () => {
+		const x = await hashToGroup(SEED, RSA_2048);
+		expect(x < RSA_2048).toBe(true);
+		expect(x.toString(2).length > 2000).toBe(true);
+	});
+
+	test("different seeds give different elements", async () => {
+		const a = await hashToGroup(new Uint8Array([1]), RSA_2048);
+		const b = await hashToGroup(new Uint8Array([2]), RSA_2048);
+		expect(a).not.toBe(b);
+	});
+
+	test("domain separates outputs", async () => {
+		const a = await hashToGroup(SEED, RSA_2048, { domain: "app-a" });
+		const b = await hashToGroup(SEED, RSA_2048, { domain: "app-b" });
+		const c = await hashToGroup(SEED, RSA_2048, {
+			domain: new TextEncoder().encode("app-a"),
+		});
+		expect(a).not.toBe(b);
+		expect(a).toBe(c);
+	});
+
+	test("throws for oversized domain", async () => {
+		await expect(
+			hashToGroup(SEED, TEST_MODULUS, { domain: "x".repeat(256) }),
+		).rejects.toThrow(InvalidParamsError);
+	});
+
+	test("throws for tiny modulus", async () => {
+		await expect(hashToGroup(SEED, 3n)).rejects.toThrow(InvalidParamsError);
+	});
+});
@@ -0,0 +1,203 @@
+import { describe, test, expect } from "bun:test";
+import {
+	proofToJSON,
+	proofFromJSON,
+	outputToJSON,
+	outputFromJSON,
+	puzzleToJSON,
+	puzzleFromJSON,
+	JSON_FORMAT_VERSION,
+} from "../src/json.ts";
+import { evaluate, generateProof, verify, RSA_2048 } from "../src/vdf.ts";
+import { createTimeLockPuzzle, solveTimeLockPuzzle } from "../src/timelock.ts";
+import { ProofFormatError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+describe("outputToJSON / outputFromJSON", () => {
+	test("roundtrips through JSON.stringify", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const text = JSON.stringify(outputToJSON(output));
+		expect(outputFromJSON(text)).toEqual(output);
+		expect(outputFromJSON(JSON.parse(text))).toEqual(output);
+	});
+
+	test("uses lowercase hex and includes the version", () => {
+		const json = outputToJSON({ x: 255n, h: 16n, t: 3, n: TEST_MODULUS });
+		expect(json).toEqual({
+			version: JSON_FORMAT_VERSION,
+			x: "ff",
+			h: "10",
+			t: 3,
+			n: TEST_MODULUS.toString(16),
+		});
+	});
+
+	test("rejects missing and unexpected fields", () => {
+		const json = outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }));
+		const { h: _, ...missing } = json;
+		expect(() => outputFromJSON(missing)).toThrow('missing field "h"');
+		expect(() => outputFromJSON({ ...json, extra: 1 })).toThrow(
+			'unexpected field "extra"',
+		);
+	});
+
+	test("rejects non-objects", () => {
+		expect(() => outputFromJSON(null)).toThrow(ProofFormatError);
+		expect(() => outputFromJSON([])).toThrow(ProofFormatError);
+		expect(() => outputFromJSON("42")).toThrow(ProofFormatError);
+	});
+
+	test("rejects malformed JSON text", () => {
+		for (const parse of [outputFromJSON, proofFromJSON, puzzleFromJSON]) {
+			let error: unknown;
+			try {
+				parse('{"version": 1,');
+			} catch (e) {
+				error = e;
+			}
+			expect(error).toBeInstanceOf(ProofFormatError);
+			expect((error as Error).message).toEndWith(": invalid JSON");
+			expect((error as Error).cause).toBeInstanceOf(SyntaxError);
+		}
+	});
+
+	test("rejects unsupported version", () => {
+		const json = outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }));
+		expect(() => outputFromJSON({ ...json, version: 2 })).toThrow(
+			"unsupported version",
+		);
+	});
+
+	test("rejects non-canonical hex", () => {
+		const json = outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }));
+		expect(() => outputFromJSON({ ...json, x: `0${json.x}` })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => outputFromJSON({ ...json, x: json.x.toUpperCase() })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => outputFromJSON({ ...json, x: `0x${json.x}` })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => outputFromJSON({ ...json, x: 5 })).toThrow(ProofFormatError);
+	});
+
+	test("rejects out-of-range values", () => {
+		const json = outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }));
+		expect(() => outputFromJSON({ ...json, x: "0" })).toThrow(
+			'field "x" must be in range (0, n)',
+		);
+		expect(() => outputFromJSON({ ...json, h: json.n })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => outputFromJSON({ ...json, t: 0 })).toThrow(ProofFormatError);
+		expect(() => outputFromJSON({ ...json, t: 1.5 })).toThrow(ProofFormatError);
+		expect(() => outputFromJSON({ ...json, t: 2 ** 60 })).toThrow(
+			ProofFormatError,
+		);
+	});
+});
+
+describe("proofToJSON / proofFromJSON", () => {
+	test("roundtrips exactly", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await generateProof(output);
+		const text = JSON.stringify(proofToJSON(proof));
+		const parsed = proofFromJSON(text);
+		expect(parsed).toEqual(proof);
+		expect(verify(parsed)).toBe(true);
+		expect(JSON.stringify(proofToJSON(parsed))).toBe(text);
+	});
+
+	test("roundtrips a large-modulus proof", async () => {
+		const output = evaluate(2n, { n: RSA_2048, t: 10 });
+		const proof = await generateProof(output);
+		expect(proofFromJSON(JSON.stringify(proofToJSON(proof)))).toEqual(proof);
+	});
+
+	test("rejects invalid pi, l and nonce", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 10 });
+		const json = proofToJSON(await generateProof(output));
+		expect(() => proofFromJSON({ ...json, pi: json.n })).toThrow(
+			'field "pi" must be in range (0, n)',
+		);
+		expect(() => proofFromJSON({ ...json, l: "2" })).toThrow(ProofFormatError);
+		expect(() => proofFromJSON({ ...json, nonce: "00" })).toThrow(
+			'field "nonce" must be 32 bytes',
+		);
+		expect(() => proofFromJSON({ ...json, nonce: "zz" })).toThrow(
+			ProofFormatError,
+		);
+	});
+
+	test("carries the signed group mode", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 10, signed: true });
+		const proof = await generateProof(output);
+		const json = proofToJSON(proof);
+		expect(json.signed).toBe(true);
+		expect(proofFromJSON(JSON.stringify(json))).toEqual(proof);
+		expect(outputFromJSON(outputToJSON(output))).toEqual(output);
+
+		// An unsigned proof has a single form, without the field
+		const plain = await generateProof(
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }),
+		);
+		expect("signed" in proofToJSON(plain)).toBe(false);
+		expect(() =>
+			proofFromJSON({ ...proofToJSON(plain), signed: false }),
+		).toThrow('field "signed" must be true when present');
+
+		expect(() => proofFromJSON({ ...json, signed: 1 })).toThrow(
+			'field "signed" must be true when present',
+		);
+		const negated = (TEST_MODULUS - proof.pi).toString(16);
+		expect(() => proofFromJSON({ ...json, pi: negated })).toThrow(
+			'field "pi" must be at most (n - 1) / 2 in a signed group',
+		);
+	});
+
+	test("rejects an output where a proof is expected", () => {
+		const json = outputToJSON(evaluate(TEST_X, { n: TEST_MODULUS, t: 10 }));
+		expect(() => proofFromJSON(json)).toThrow('missing field "pi"');
+	});
+});
+
+describe("puzzleToJSON / puzzleFromJSON", () => {
+	const params = { n: TEST_MODULUS, t: 100, p: P, q: Q };
+
+	test("roundtrips a solvable puzzle", async () => {
+		const puzzle = await createTimeLockPuzzle("bid", params);
+		const text = JSON.stringify(puzzleToJSON(puzzle));
+		const parsed = puzzleFromJSON(text);
+		expect(parsed).toEqual(puzzle);
+
+		const { message } = await solveTimeLockPuzzle(parsed);
+		expect(new TextDecoder().decode(message)).toBe("bid");
+	});
+
+	test("rejects invalid fields", async () => {
+		const json = puzzleToJSON(await createTimeLockPuzzle("bid", params));
+		expect(() => puzzleFromJSON({ ...json, iv: "00" })).toThrow(
+			'field "iv" must be 12 bytes',
+		);
+		expect(() => puzzleFromJSON({ ...json, ciphertext: "00" })).toThrow(
+			'field "ciphertext" must be at least 16 bytes',
+		);
+		expect(() => puzzleFromJSON({ ...json, ciphertext: "ABCD" })).toThrow(
+			ProofFormatError,
+		);
+		expect(() => puzzleFromJSON({ ...json, x: "0" })).toThrow(
+			'field "x" must be in range (0, n)',
+		);
+		expect(() => puzzleFromJSON({ ...json, version: 2 })).toThrow(
+			"unsupported version",
+		);
+		expect(() => puzzleFromJSON({ ...json, p: "5" })).toThrow(
+			'unexpected field "p"',
+		);
+	});
+});
@@ -0,0 +1,122 @@
+import { describe, test, expect } from "bun:test";
+import { deriveModulusFromSeed, generateModulus } from "../src/modulus.ts";
+import { isPrime } from "../src/prime.ts";
+import { bigintBitLength } from "../src/utils.ts";
+import { RSA_3072, RSA_4096 } from "../src/vdf.ts";
+
+function expectSafePrime(p: bigint): void {
+	expect(isPrime(p)).toBe(true);
+	expect(isPrime((p - 1n) / 2n)).toBe(true);
+}
+
+describe("deriveModulusFromSeed", () => {
+	test("reproduces RSA_3072", async () => {
+		const { n, p, q } = await deriveModulusFromSeed(
+			"wesolowski-vdf-3072-v1",
+			3072,
+		);
+		expect(n).toBe(RSA_3072);
+		expect(p * q).toBe(n);
+		expect(bigintBitLength(p)).toBe(1536);
+		expect(bigintBitLength(q)).toBe(1536);
+	});
+
+	test("reproduces RSA_4096", async () => {
+		const { n } = await deriveModulusFromSeed("wesolowski-vdf-4096-v1", 4096);
+		expect(n).toBe(RSA_4096);
+	});
+
+	test("is deterministic and seed-dependent", async () => {
+		const a = await deriveModulusFromSeed("seed-a", 512);
+		const b = await deriveModulusFromSeed("seed-a", 512);
+		const c = await deriveModulusFromSeed("seed-b", 512);
+		expect(a).toEqual(b);
+		expect(a.n).not.toBe(c.n);
+	});
+
+	test("treats string seeds as UTF-8", async () => {
+		const a = await deriveModulusFromSeed("séed", 256);
+		const b = await deriveModulusFromSeed(
+			new TextEncoder().encode("séed"),
+			256,
+		);
+		expect(a).toEqual(b);
+	});
+
+	test("always returns a modulus of the requested length", async () => {
+		for (let i = 0; i < 8; i++) {
+			const { n, p, q } = await deriveModulusFromSeed(`seed-${i}`, 256);
+			expect(bigintBitLength(n)).toBe(256);
+			expect(bigintBitLength(p)).toBe(128);
+			expect(bigintBitLength(q)).toBe(128);
+			expect(p).not.toBe(q);
+		}
+	});
+
+	test("derives safe primes", async () => {
+		const { n, p, q } = await deriveModulusFromSeed("safe", 256, {
+			safePrimes: true,
+		});
+		expect(p * q).toBe(n);
+		expectSafePrime(p);
+		expectSafePrime(q);
+	});
+
+	test("rejects invalid bit lengths", async () => {
+		await expect(deriveModulusFromSeed("s", 48)).rejects.toThrow(
+			"bits must be a multiple of 16 and at least 64",
+		);
+		await expect(deriveModulusFromSeed("s", 520)).rejects.toThrow(
+			"bits must be a multiple of 16 and at least 64",
+		);
+	});
+});
+
+describe("generateModulus", () => {
+	test("generates balanced primes of the requested size", async () => {
+		const { n, p, q } = await generateModulus({ bits: 512 });
+		expect(p * q).toBe(n);
+		expect(bigintBitLength(n)).toBe(512);
+		expect(bigintBitLength(p)).toBe(256);
+		expect(bigintBitLength(q)).toBe(256);
+		expect(isPrime(p)).toBe(true);
+		expect(isPrime(q)).toBe(true);
+		expect(p).not.toBe(q);
+	});
+
+	test("generates distinct moduli", async () => {
+		const a = await generateModulus({ bits: 256 });
+		const b = await generateModulus({ bits: 256 });
+		expect(a.n).not.toBe(b.n);
+	});
+
+	test("generates safe primes", async () => {
+		const { n, p, q } = await generateModulus({
+			bits: 256,
+			safePrimes: true,
+		});
+		expect(bigintBitLength(n)).toBe(256);
+		expectSafePrime(p);
+		expectSafePrime(q);
+	});
+
+	test("uses the seed derivation when a seed is given", async () => {
+		const seeded = await generateModulus({ bits: 512, seed: "audit" });
+		expect(seeded).toEqual(await deriveModulusFromSeed("audit", 512));
+
+		const safe = await generateModulus({
+			bits: 256,
+			seed: "audit",
+			safePrimes: true,
+		});
+		expect(safe).toEqual(
+			await deriveModulusFromSeed("audit", 256, { safePrimes: true }),
+		);
+	});
+
+	test("rejects invalid bit lengths", async () => {
+		await expect(generateModulus({ bits: 100 })).rejects.toThrow(
+			"bits must be a multiple of 16 and at least 64",
+		);
+	});
+});
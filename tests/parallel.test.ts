@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test";
+import { proveParallel } from "../src/parallel.ts";
+import { evaluateWithCheckpoints } from "../src/checkpoints.ts";
+import {
+	evaluate,
+	prove,
+	verify,
+	deriveChallenge,
+	RSA_2048,
+	type VDFOutput,
+} from "../src/vdf.ts";
+import type { CheckpointedOutput } from "../src/checkpoints.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+describe("proveParallel", () => {
+	test("matches prove for various worker counts", async () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 1001 },
+			{ k: 5, gamma: 4 },
+		);
+		const l = await deriveChallenge(output, new Uint8Array(32));
+		const expected = prove(output, l);
+		for (const workers of [1, 2, 3, 7]) {
+			expect(await proveParallel(output, l, { workers })).toBe(expected);
+		}
+	});
+
+	test("matches prove with small challenges", async () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 300 },
+			{ k: 4, gamma: 1 },
+		);
+		for (const l of [3n, 97n]) {
+			expect(await proveParallel(output, l, { workers: 3 })).toBe(
+				prove(output, l),
+			);
+		}
+	});
+
+	test("handles more workers than checkpoints", async () => {
+		const output = evaluateWithCheckpoints(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 50 },
+			{ k: 10, gamma: 2 },
+		);
+		expect(await proveParallel(output, 97n, { workers: 8 })).toBe(
+			prove(output, 97n),
+		);
+	});
+
+	test("matches prove in the signed group", async () => {
+		const nonce = new Uint8Array(32);
+		for (let i = 0n; i < 5n; i++) {
+			const output = evaluateWithCheckpoints(
+				TEST_X + i,
+				{ n: TEST_MODULUS, t: 1500, signed: true },
+				{ k: 5, gamma: 4 },
+			);
+			const l = await deriveChallenge(output, nonce);
+			const pi = await proveParallel(output, l, { workers: 3 });
+			expect(pi).toBe(prove(output, l));
+			expect(verify({ ...output, pi, l, nonce })).toBe(true);
+		}
+	});
+
+	test("produces verifiable proofs with RSA-2048", async () => {
+		const output = evaluateWithCheckpoints(2n, { n: RSA_2048, t: 2000 });
+		const nonce = new Uint8Array(32);
+		const l = await deriveChallenge(output, nonce);
+		const pi = await proveParallel(output, l, { workers: 2 });
+		expect(pi).toBe(prove(output, l));
+		expect(verify({ ...output, pi, l, nonce })).toBe(true);
+	});
+
+	test("requires checkpoints", async () => {
+		const output: VDFOutput = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		await expect(
+			proveParallel(output as CheckpointedOutput, 97n),
+		).rejects.toThrow(
+			"proveParallel requires an output from evaluateWithCheckpoints",
+		);
+	});
+
+	test("rejects invalid worker counts", async () => {
+		const output = evaluateWithCheckpoints(TEST_X, { n: TEST_MODULUS, t: 10 });
+		await expect(proveParallel(output, 97n, { workers: 0 })).rejects.toThrow(
+			"workers must be a positive integer",
+		);
+	});
+});
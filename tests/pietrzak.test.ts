@@ -0,0 +1,139 @@
+import { describe, test, expect } from "bun:test";
+import {
+	provePietrzak,
+	verifyPietrzak,
+	pietrzakRounds,
+} from "../src/pietrzak.ts";
+import { evaluate, RSA_2048 } from "../src/vdf.ts";
+import { modulusParams } from "../src/registry.ts";
+import { InvalidParamsError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+describe("pietrzakRounds", () => {
+	test("is log2(t) for powers of two", () => {
+		expect(pietrzakRounds(1)).toBe(0);
+		expect(pietrzakRounds(2)).toBe(1);
+		expect(pietrzakRounds(1024)).toBe(10);
+	});
+
+	test("rounds down for other t", () => {
+		expect(pietrzakRounds(3)).toBe(1);
+		expect(pietrzakRounds(100)).toBe(6);
+		expect(pietrzakRounds(1025)).toBe(10);
+	});
+});
+
+describe("provePietrzak and verifyPietrzak", () => {
+	test("proves and verifies powers of two and other t", async () => {
+		for (const t of [1, 2, 3, 7, 64, 100, 1000]) {
+			const output = evaluate(TEST_X, { n: TEST_MODULUS, t });
+			const proof = await provePietrzak(output);
+			expect(proof.mu.length).toBe(pietrzakRounds(t));
+			expect(await verifyPietrzak(proof)).toBe(true);
+		}
+	});
+
+	test("checkpoint interval does not change the proof", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 500 });
+		const a = await provePietrzak(output);
+		const b = await provePietrzak(output, { checkpointInterval: 1 });
+		const c = await provePietrzak(output, { checkpointInterval: 1000 });
+		expect(b.mu).toEqual(a.mu);
+		expect(c.mu).toEqual(a.mu);
+	});
+
+	test("works with RSA_2048", async () => {
+		const output = evaluate(2n, { n: RSA_2048, t: 200 });
+		const proof = await provePietrzak(output);
+		expect(await verifyPietrzak(proof)).toBe(true);
+	});
+
+	test("fails with wrong h", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await provePietrzak(output);
+		expect(await verifyPietrzak({ ...proof, h: output.h + 1n })).toBe(false);
+	});
+
+	test("fails with tampered midpoint", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await provePietrzak(output);
+		const mu = [...proof.mu];
+		mu[2] = (mu[2]! * 2n) % TEST_MODULUS;
+		expect(await verifyPietrzak({ ...proof, mu })).toBe(false);
+	});
+
+	test("fails with wrong number of midpoints", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await provePietrzak(output);
+		expect(await verifyPietrzak({ ...proof, mu: proof.mu.slice(1) })).toBe(
+			false,
+		);
+		expect(await verifyPietrzak({ ...proof, t: 200 })).toBe(false);
+	});
+
+	test("fails with out-of-range values", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await provePietrzak(output);
+		expect(
+			await verifyPietrzak({ ...proof, mu: [0n, ...proof.mu.slice(1)] }),
+		).toBe(false);
+		expect(await verifyPietrzak({ ...proof, x: TEST_MODULUS })).toBe(false);
+		expect(await verifyPietrzak({ ...proof, t: 0 })).toBe(false);
+	});
+
+	test("rejects h off by a factor of -1", async () => {
+		for (const t of [1, 2, 3, 64, 100]) {
+			const output = evaluate(TEST_X, { n: TEST_MODULUS, t });
+			const h = TEST_MODULUS - output.h;
+			// Proven honestly for the negated claim, and with every midpoint
+			// negated in turn
+			const proof = await provePietrzak({ ...output, h });
+			expect(await verifyPietrzak(proof)).toBe(false);
+			for (let i = 0; i < proof.mu.length; i++) {
+				const mu = [...proof.mu];
+				mu[i] = TEST_MODULUS - mu[i]!;
+				expect(await verifyPietrzak({ ...proof, mu })).toBe(false);
+			}
+		}
+	});
+
+	test("proves signed outputs in the signed group", async () => {
+		for (const t of [1, 3, 100]) {
+			const output = evaluate(TEST_X, { n: TEST_MODULUS, t, signed: true });
+			const proof = await provePietrzak(output);
+			expect(proof.signed).toBe(true);
+			expect(await verifyPietrzak(proof)).toBe(true);
+
+			const h = TEST_MODULUS - proof.h;
+			expect(await verifyPietrzak({ ...proof, h })).toBe(false);
+		}
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100, signed: true });
+		const proof = await provePietrzak(output);
+		expect(await verifyPietrzak({ ...proof, signed: undefined })).toBe(false);
+	});
+
+	test("carries the modulus id and challenge configuration", async () => {
+		const output = evaluate(2n, {
+			...modulusParams("rsa2048-challenge", 50),
+			challenge: { hash: "SHA-256" },
+		});
+		const proof = await provePietrzak(output);
+		expect(proof.modulusId).toBe("rsa2048-challenge");
+		expect(proof.challenge).toEqual(output.challenge!);
+		expect(await verifyPietrzak(proof)).toBe(true);
+		expect(await verifyPietrzak({ ...proof, modulusId: "rsa3072-v1" })).toBe(
+			false,
+		);
+	});
+
+	test("rejects invalid checkpoint interval", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 10 });
+		await expect(
+			provePietrzak(output, { checkpointInterval: 0 }),
+		).rejects.toThrow(InvalidParamsError);
+	});
+});
@@ -1,5 +1,6 @@
 import { describe, test, expect } from "bun:test";
 import { isPrime, getPrime, nextPrime } from "../src/prime.ts";
+import { InvalidParamsError } from "../src/errors.ts";
 
 describe("isPrime", () => {
 	test("returns false for numbers less than 2", () => {
@@ -54,6 +55,70 @@ describe("isPrime", () => {
 	});
 });
 
+describe("isPrime with Baillie-PSW", () => {
+	const bpsw = { method: "bpsw" } as const;
+
+	test("agrees with a sieve for small numbers", () => {
+		const limit = 20000;
+		const composite = new Uint8Array(limit);
+		for (let i = 2; i * i < limit; i++) {
+			for (let j = i * i; j < limit; j += i) {
+				composite[j] = 1;
+			}
+		}
+		const mismatches: number[] = [];
+		for (let i = 0; i < limit; i++) {
+			if (isPrime(BigInt(i), bpsw) !== (i >= 2 && composite[i] === 0)) {
+				mismatches.push(i);
+			}
+		}
+		expect(mismatches).toEqual([]);
+	});
+
+	test("rejects strong pseudoprimes to base 2", () => {
+		for (const n of [2047n, 3277n, 4033n, 4681n, 8321n, 3215031751n]) {
+			expect(isPrime(n, bpsw)).toBe(false);
+		}
+		// Strong pseudoprime to all prime bases up to 37
+		expect(isPrime(318665857834031151167461n, bpsw)).toBe(false);
+	});
+
+	test("rejects strong Lucas pseudoprimes and squares", () => {
+		for (const n of [5459n, 5777n, 10877n, 16109n, 18971n]) {
+			expect(isPrime(n, bpsw)).toBe(false);
+		}
+		expect(isPrime(1009n * 1009n, bpsw)).toBe(false);
+	});
+
+	test("accepts large primes and rejects large composites", () => {
+		const m521 = (1n << 521n) - 1n;
+		const m127 = (1n << 127n) - 1n;
+		expect(isPrime(m521, bpsw)).toBe(true);
+		expect(isPrime(m127, bpsw)).toBe(true);
+		expect(isPrime(m127 * m521, bpsw)).toBe(false);
+		expect(isPrime((1n << 512n) + 1n, bpsw)).toBe(false);
+	});
+
+	test("does not use randomness", () => {
+		const original = crypto.getRandomValues;
+		crypto.getRandomValues = () => {
+			throw new Error("randomness used");
+		};
+		try {
+			expect(isPrime((1n << 521n) - 1n, bpsw)).toBe(true);
+			expect(nextPrime(1n << 512n)).toBeGreaterThan(1n << 512n);
+		} finally {
+			crypto.getRandomValues = original;
+		}
+	});
+
+	test("rejects unknown methods", () => {
+		expect(() =>
+			isPrime(101n, { method: "fermat" as unknown as "bpsw" }),
+		).toThrow(InvalidParamsError);
+	});
+});
+
 describe("getPrime", () => {
 	test("generates prime with default 256 bits", () => {
 		const p = getPrime();
@@ -75,6 +140,51 @@ describe("getPrime", () => {
 		// Very unlikely to be equal for random primes
 		expect(p1).not.toBe(p2);
 	});
+
+	test("generates bit lengths that are not a multiple of 8", () => {
+		const p = getPrime({ bits: 61 });
+		expect(isPrime(p)).toBe(true);
+		expect(p.toString(2).length).toBe(61);
+	});
+
+	test("generates safe primes", () => {
+		const p = getPrime({ bits: 96, safe: true });
+		expect(p.toString(2).length).toBe(96);
+		expect(isPrime(p)).toBe(true);
+		expect(isPrime((p - 1n) / 2n)).toBe(true);
+	});
+
+	test("generates primes ≡ 3 mod 4 and in a congruence class", () => {
+		const blum = getPrime({ bits: 128, blum: true });
+		expect(isPrime(blum)).toBe(true);
+		expect(blum % 4n).toBe(3n);
+
+		const p = getPrime({
+			bits: 128,
+			blum: true,
+			congruence: { residue: 2n, modulus: 7n },
+		});
+		expect(isPrime(p)).toBe(true);
+		expect(p % 4n).toBe(3n);
+		expect(p % 7n).toBe(2n);
+	});
+
+	test("rejects invalid constraints", () => {
+		expect(() =>
+			getPrime({ congruence: { residue: 3n, modulus: 9n } }),
+		).toThrow("congruence residue must be coprime to the modulus");
+		expect(() =>
+			getPrime({ congruence: { residue: 1n, modulus: 0n } }),
+		).toThrow(InvalidParamsError);
+		expect(() =>
+			getPrime({ blum: true, congruence: { residue: 1n, modulus: 8n } }),
+		).toThrow("prime constraints are incompatible");
+		expect(() =>
+			getPrime({ bits: 16, congruence: { residue: 1n, modulus: 1n << 20n } }),
+		).toThrow("too restrictive");
+		expect(() => getPrime({ sieveBound: 8 })).toThrow(InvalidParamsError);
+		expect(() => getPrime({ bits: 1 })).toThrow(InvalidParamsError);
+	});
 });
 
 describe("nextPrime", () => {
@@ -102,4 +212,46 @@ describe("nextPrime", () => {
 		expect(nextPrime(24n)).toBe(29n);
 		expect(nextPrime(90n)).toBe(97n);
 	});
+
+	test("finds the smallest prime satisfying the constraints", () => {
+		const smallest = (n: bigint, ok: (p: bigint) => boolean) => {
+			let p = n;
+			while (!(isPrime(p) && ok(p))) {
+				p++;
+			}
+			return p;
+		};
+		for (let n = 0n; n < 5000n; n += 37n) {
+			expect(nextPrime(n, { safe: true })).toBe(
+				smallest(n, (p) => isPrime((p - 1n) / 2n)),
+			);
+			expect(nextPrime(n, { blum: true })).toBe(
+				smallest(n, (p) => p % 4n === 3n),
+			);
+			expect(nextPrime(n, { congruence: { residue: 4n, modulus: 15n } })).toBe(
+				smallest(n, (p) => p % 15n === 4n),
+			);
+		}
+	});
+
+	test("sieving does not change the result", () => {
+		for (let i = 0n; i < 10n; i++) {
+			const n = (1n << 200n) + i * 1000003n;
+			const p = nextPrime(n);
+			expect(nextPrime(n, { sieveBound: 16 })).toBe(p);
+			expect(nextPrime(n, { sieveBound: 1 << 16 })).toBe(p);
+			expect(nextPrime(n, { safe: true, sieveBound: 16 })).toBe(
+				nextPrime(n, { safe: true }),
+			);
+		}
+		// Safe primes just above the sieve bound, where 2q + 1 has q ≤ bound
+		expect(nextPrime(20n, { safe: true, sieveBound: 16 })).toBe(23n);
+	});
+
+	test("gives the same result with either method", () => {
+		const start = 1n << 256n;
+		const p = nextPrime(start);
+		expect(nextPrime(start, { method: "miller-rabin" })).toBe(p);
+		expect(isPrime(p)).toBe(true);
+	});
 });
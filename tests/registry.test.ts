@@ -0,0 +1,214 @@
+import { describe, test, expect } from "bun:test";
+import {
+	registerModulus,
+	lookupModulus,
+	modulusIdOf,
+	modulusParams,
+	modulusFingerprint,
+	registeredReducer,
+	resolveModulus,
+} from "../src/registry.ts";
+import {
+	evaluate,
+	deriveChallenge,
+	generateProof,
+	verify,
+	verifyWithChallenge,
+	RSA_2048,
+	RSA_3072,
+	RSA_4096,
+} from "../src/vdf.ts";
+import { encodeProof, decodeProof } from "../src/encoding.ts";
+import { proofToJSON, proofFromJSON } from "../src/json.ts";
+import { verifyBatch } from "../src/batch.ts";
+import { PRECOMPUTED_MONTGOMERY } from "../src/utils.ts";
+import { InvalidParamsError } from "../src/errors.ts";
+
+// Not shared with other test files, so registering it has no side effects there
+const REG_MODULUS = 1000000021n * 1000000033n;
+const REG_ID = "test-registry-modulus";
+const TEST_X = 123456791n;
+const NONCE = new Uint8Array(32).fill(3);
+
+registerModulus(REG_ID, REG_MODULUS);
+
+describe("registerModulus", () => {
+	test("registers the built-in moduli", () => {
+		expect(resolveModulus("rsa2048-challenge")).toBe(RSA_2048);
+		expect(resolveModulus("rsa3072-v1")).toBe(RSA_3072);
+		expect(resolveModulus("rsa4096-v1")).toBe(RSA_4096);
+		expect(modulusIdOf(RSA_3072)).toBe("rsa3072-v1");
+	});
+
+	test("precomputes the Montgomery reducer", () => {
+		const entry = lookupModulus(REG_ID)!;
+		expect(entry.n).toBe(REG_MODULUS);
+		expect(entry.reducer.n).toBe(REG_MODULUS);
+		expect(registeredReducer(REG_MODULUS)).toBe(entry.reducer);
+		expect(registeredReducer(15n)).toBeUndefined();
+		// The shared precomputed map is left untouched
+		expect(PRECOMPUTED_MONTGOMERY.has(REG_MODULUS)).toBe(false);
+	});
+
+	test("is idempotent for the same id and modulus", () => {
+		expect(registerModulus(REG_ID, REG_MODULUS)).toBe(lookupModulus(REG_ID)!);
+	});
+
+	test("rejects conflicting registrations", () => {
+		expect(() => registerModulus(REG_ID, REG_MODULUS + 2n)).toThrow(
+			`modulus id "${REG_ID}" is already registered`,
+		);
+		expect(() => registerModulus("another-name", RSA_2048)).toThrow(
+			'modulus is already registered as "rsa2048-challenge"',
+		);
+	});
+
+	test("rejects invalid ids and moduli", () => {
+		expect(() => registerModulus("", 15n)).toThrow(InvalidParamsError);
+		expect(() => registerModulus("Upper", 15n)).toThrow(InvalidParamsError);
+		expect(() => registerModulus("-leading", 15n)).toThrow(InvalidParamsError);
+		expect(() => registerModulus("x".repeat(65), 15n)).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => registerModulus("even", 16n)).toThrow(InvalidParamsError);
+		expect(() => registerModulus("one", 1n)).toThrow(InvalidParamsError);
+	});
+
+	test("lookups of unknown ids", () => {
+		expect(lookupModulus("no-such-modulus")).toBeUndefined();
+		expect(modulusIdOf(15n)).toBeUndefined();
+		expect(() => resolveModulus("no-such-modulus")).toThrow(
+			'unknown modulus id "no-such-modulus"',
+		);
+		expect(() => modulusParams("no-such-modulus", 10)).toThrow(
+			"unknown modulus id",
+		);
+	});
+});
+
+describe("modulusFingerprint", () => {
+	test("is a stable 32-byte digest", () => {
+		const a = modulusFingerprint(RSA_2048);
+		expect(a.length).toBe(32);
+		expect(modulusFingerprint(RSA_2048)).toEqual(a);
+		expect(modulusFingerprint(RSA_3072)).not.toEqual(a);
+	});
+});
+
+describe("compact transcript mode", () => {
+	test("evaluates, proves and verifies with a modulus id", async () => {
+		const output = evaluate(TEST_X, modulusParams(REG_ID, 200));
+		expect(output.modulusId).toBe(REG_ID);
+		expect(output.n).toBe(REG_MODULUS);
+
+		const proof = await generateProof(output, NONCE);
+		expect(proof.modulusId).toBe(REG_ID);
+		expect(verify(proof)).toBe(true);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+	});
+
+	test("binds the id instead of the raw modulus", async () => {
+		const output = evaluate(TEST_X, modulusParams(REG_ID, 50));
+		const { modulusId: _, ...plain } = output;
+		const compact = await deriveChallenge(output, NONCE);
+		expect(compact).not.toBe(await deriveChallenge(plain, NONCE));
+
+		// A proof made in one mode does not verify in the other
+		const proof = await generateProof(output, NONCE);
+		const { modulusId: __, ...plainProof } = proof;
+		expect(await verifyWithChallenge(plainProof)).toBe(false);
+	});
+
+	test("rejects unknown or mismatched modulus ids", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, modulusParams(REG_ID, 50)),
+			NONCE,
+		);
+		expect(verify({ ...proof, modulusId: "no-such-modulus" })).toBe(false);
+		expect(
+			await verifyWithChallenge({ ...proof, modulusId: "rsa2048-challenge" }),
+		).toBe(false);
+		expect(() =>
+			evaluate(TEST_X, { n: REG_MODULUS, t: 10, modulusId: "rsa3072-v1" }),
+		).toThrow('modulus id "rsa3072-v1" is not registered for n');
+		await expect(
+			deriveChallenge({ ...proof, modulusId: "no-such-modulus" }, NONCE),
+		).rejects.toThrow("is not registered for n");
+
+		const batch = await verifyBatch([
+			proof,
+			{ ...proof, modulusId: "no-such-modulus" },
+		]);
+		expect(batch.invalid).toEqual([1]);
+	});
+
+	test("requireRegistered rejects unregistered moduli", async () => {
+		const other = 1000000007n * 1000000009n;
+		const proof = await generateProof(evaluate(TEST_X, { n: other, t: 50 }));
+		expect(verify(proof)).toBe(true);
+		expect(verify(proof, { requireRegistered: true })).toBe(false);
+		expect(await verifyWithChallenge(proof, { requireRegistered: true })).toBe(
+			false,
+		);
+
+		const registered = await generateProof(
+			evaluate(TEST_X, { n: REG_MODULUS, t: 50 }),
+		);
+		expect(verify(registered, { requireRegistered: true })).toBe(true);
+	});
+});
+
+describe("encodings with a modulus id", () => {
+	test("binary encoding references the id", async () => {
+		const proof = await generateProof(
+			evaluate(2n, modulusParams("rsa3072-v1", 10)),
+			NONCE,
+		);
+		const bytes = encodeProof(proof);
+		const name = new TextEncoder().encode("rsa3072-v1");
+		expect(bytes[1]).toBe(0xff);
+		expect(bytes[2]).toBe(name.length);
+		expect(bytes.subarray(3, 3 + name.length)).toEqual(name);
+
+		const decoded = decodeProof(bytes);
+		expect(decoded).toEqual(proof);
+		expect(await verifyWithChallenge(decoded)).toBe(true);
+	});
+
+	test("binary decoding rejects unknown ids", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, modulusParams(REG_ID, 10)),
+			NONCE,
+		);
+		const bytes = encodeProof(proof);
+		bytes[3] = "T".charCodeAt(0);
+		expect(() => decodeProof(bytes)).toThrow('unknown modulus id "Test');
+		expect(() => encodeProof({ ...proof, modulusId: "rsa3072-v1" })).toThrow(
+			"is not registered for n",
+		);
+	});
+
+	test("JSON carries the id instead of n", async () => {
+		const proof = await generateProof(
+			evaluate(TEST_X, modulusParams(REG_ID, 10)),
+			NONCE,
+		);
+		const json = proofToJSON(proof);
+		expect(json.modulusId).toBe(REG_ID);
+		expect("n" in json).toBe(false);
+
+		const parsed = proofFromJSON(JSON.stringify(json));
+		expect(parsed).toEqual(proof);
+		expect(await verifyWithChallenge(parsed)).toBe(true);
+
+		expect(() =>
+			proofFromJSON({ ...json, modulusId: "no-such-modulus" }),
+		).toThrow('field "modulusId" refers to an unknown modulus');
+		expect(() =>
+			proofFromJSON({ ...json, n: REG_MODULUS.toString(16) }),
+		).toThrow('unexpected field "n"');
+		expect(() => proofFromJSON({ ...json, modulusId: 1 })).toThrow(
+			'field "modulusId" must be a string',
+		);
+	});
+});
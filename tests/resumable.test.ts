@@ -0,0 +1,267 @@
+import { describe, test, expect } from "bun:test";
+import {
+	evaluateResumable,
+	proveResumable,
+	encodeState,
+	decodeState,
+	type EvaluationState,
+	type ProofState,
+} from "../src/resumable.ts";
+import {
+	evaluate,
+	prove,
+	verify,
+	deriveChallenge,
+	RSA_2048,
+} from "../src/vdf.ts";
+import { InvalidParamsError, ModulusRegistryError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+
+/** Collect every snapshot, optionally stopping after `stopAfter` of them */
+function collect<S>(stopAfter = Infinity) {
+	const states: S[] = [];
+	return {
+		states,
+		onState: (s: S) => {
+			states.push(s);
+			if (states.length >= stopAfter) {
+				throw new Error("interrupted");
+			}
+		},
+	};
+}
+
+describe("evaluateResumable", () => {
+	test("matches evaluate", () => {
+		const params = { n: TEST_MODULUS, t: 1000 };
+		expect(evaluateResumable(TEST_X, params)).toEqual(evaluate(TEST_X, params));
+	});
+
+	test("reports snapshots in normal form", () => {
+		const params = { n: RSA_2048, t: 3000 };
+		const { states, onState } = collect<EvaluationState>();
+		const output = evaluateResumable(2n, params, { saveEvery: 1000, onState });
+		expect(output.h).toBe(evaluate(2n, params).h);
+		expect(states.map((s) => s.iteration)).toEqual([1000, 2000]);
+		expect(states[0]!.value).toBe(evaluate(2n, { n: RSA_2048, t: 1000 }).h);
+	});
+
+	test("resumes after an interruption", () => {
+		const params = { n: TEST_MODULUS, t: 1050 };
+		const { states, onState } = collect<EvaluationState>(3);
+		expect(() =>
+			evaluateResumable(TEST_X, params, { saveEvery: 100, onState }),
+		).toThrow("interrupted");
+
+		const saved = encodeState(states[2]!);
+		const state = decodeState(saved) as EvaluationState;
+		expect(state.iteration).toBe(300);
+
+		const output = evaluateResumable(TEST_X, params, { state });
+		expect(output).toEqual(evaluate(TEST_X, params));
+	});
+
+	test("rejects a state for different parameters", () => {
+		const { states, onState } = collect<EvaluationState>();
+		evaluateResumable(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 300 },
+			{ saveEvery: 100, onState },
+		);
+		const state = states[0]!;
+		expect(() =>
+			evaluateResumable(TEST_X + 1n, { n: TEST_MODULUS, t: 300 }, { state }),
+		).toThrow("state does not belong to this x, n and t");
+		expect(() =>
+			evaluateResumable(TEST_X, { n: TEST_MODULUS, t: 301 }, { state }),
+		).toThrow("state does not belong to this x, n and t");
+	});
+
+	test("rejects a tampered state", () => {
+		const { states, onState } = collect<EvaluationState>();
+		evaluateResumable(
+			TEST_X,
+			{ n: TEST_MODULUS, t: 300 },
+			{ saveEvery: 100, onState },
+		);
+		const state = { ...states[0]!, value: states[0]!.value + 1n };
+		expect(() =>
+			evaluateResumable(TEST_X, { n: TEST_MODULUS, t: 300 }, { state }),
+		).toThrow("state checksum mismatch");
+	});
+
+	test("rejects a proof state", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 300 });
+		const { states, onState } = collect<ProofState>();
+		proveResumable(output, 97n, { saveEvery: 100, onState });
+		expect(() =>
+			evaluateResumable(
+				TEST_X,
+				{ n: TEST_MODULUS, t: 300 },
+				{ state: states[0]! as unknown as EvaluationState },
+			),
+		).toThrow("state is not an evaluation state");
+	});
+
+	test("supports the signed group", () => {
+		const params = { n: TEST_MODULUS, t: 1500, signed: true };
+		// An input above n / 2 is replaced by its canonical form
+		const x = TEST_MODULUS - TEST_X;
+		const expected = evaluate(x, params);
+		expect(expected.x).toBe(TEST_X);
+
+		const { states, onState } = collect<EvaluationState>(2);
+		expect(() =>
+			evaluateResumable(x, params, { saveEvery: 400, onState }),
+		).toThrow("interrupted");
+		expect(evaluateResumable(x, params)).toEqual(expected);
+		expect(evaluateResumable(x, params, { state: states[1]! })).toEqual(
+			expected,
+		);
+	});
+
+	test("carries the challenge configuration and modulus id", () => {
+		const params = {
+			n: TEST_MODULUS,
+			t: 300,
+			challenge: { hash: "BLAKE2b" as const, bits: 256 },
+		};
+		expect(evaluateResumable(TEST_X, params)).toEqual(evaluate(TEST_X, params));
+		expect(() =>
+			evaluateResumable(TEST_X, { ...params, modulusId: "not-registered" }),
+		).toThrow(ModulusRegistryError);
+		expect(() =>
+			evaluateResumable(TEST_X, { ...params, challenge: { bits: 1 } }),
+		).toThrow(InvalidParamsError);
+	});
+
+	test("rejects invalid saveEvery", () => {
+		expect(() =>
+			evaluateResumable(TEST_X, { n: TEST_MODULUS, t: 10 }, { saveEvery: 0 }),
+		).toThrow("saveEvery must be a positive integer");
+	});
+});
+
+describe("proveResumable", () => {
+	test("matches prove", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 777 });
+		for (const l of [3n, 97n, 1000003n]) {
+			expect(proveResumable(output, l)).toBe(prove(output, l));
+		}
+	});
+
+	test("resumes after an interruption", () => {
+		const output = evaluate(2n, { n: RSA_2048, t: 2500 });
+		const l = 1000003n;
+		const { states, onState } = collect<ProofState>(2);
+		expect(() =>
+			proveResumable(output, l, { saveEvery: 1000, onState }),
+		).toThrow("interrupted");
+
+		const state = decodeState(encodeState(states[1]!)) as ProofState;
+		expect(state.iteration).toBe(2000);
+		expect(state.r).toBe((1n << 2000n) % l);
+		expect(proveResumable(output, l, { state })).toBe(prove(output, l));
+	});
+
+	test("matches prove in the signed group", async () => {
+		const nonce = new Uint8Array(32);
+		for (let i = 0n; i < 10n; i++) {
+			const output = evaluate(TEST_X + i, {
+				n: TEST_MODULUS,
+				t: 1500,
+				signed: true,
+			});
+			const l = await deriveChallenge(output, nonce);
+			const { states, onState } = collect<ProofState>(2);
+			expect(() =>
+				proveResumable(output, l, { saveEvery: 400, onState }),
+			).toThrow("interrupted");
+
+			const pi = proveResumable(output, l);
+			expect(pi).toBe(prove(output, l));
+			expect(proveResumable(output, l, { state: states[1]! })).toBe(pi);
+			expect(verify({ ...output, pi, l, nonce })).toBe(true);
+		}
+	});
+
+	test("rejects a state for a different challenge", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 300 });
+		const { states, onState } = collect<ProofState>();
+		proveResumable(output, 97n, { saveEvery: 100, onState });
+		expect(() => proveResumable(output, 101n, { state: states[0]! })).toThrow(
+			"state does not belong to this x, n, t and l",
+		);
+	});
+});
+
+describe("encodeState / decodeState", () => {
+	function sampleStates(): [EvaluationState, ProofState] {
+		const params = { n: TEST_MODULUS, t: 200 };
+		const evals = collect<EvaluationState>();
+		const output = evaluateResumable(TEST_X, params, {
+			saveEvery: 100,
+			onState: evals.onState,
+		});
+		const proofs = collect<ProofState>();
+		proveResumable(output, 1000003n, {
+			saveEvery: 100,
+			onState: proofs.onState,
+		});
+		return [evals.states[0]!, proofs.states[0]!];
+	}
+
+	test("round-trips both kinds", () => {
+		for (const state of sampleStates()) {
+			expect(decodeState(encodeState(state))).toEqual(state);
+		}
+	});
+
+	test("detects corruption", () => {
+		for (const state of sampleStates()) {
+			const bytes = encodeState(state);
+			for (const i of [2, 10, bytes.length - 10, bytes.length - 1]) {
+				const corrupt = bytes.slice();
+				corrupt[i]! ^= 0x01;
+				expect(() => decodeState(corrupt)).toThrow();
+			}
+		}
+	});
+
+	test("rejects truncated input and trailing bytes", () => {
+		const [state] = sampleStates();
+		const bytes = encodeState(state);
+		expect(() => decodeState(bytes.subarray(0, bytes.length - 1))).toThrow(
+			"state encoding is truncated",
+		);
+		const extended = new Uint8Array(bytes.length + 1);
+		extended.set(bytes);
+		expect(() => decodeState(extended)).toThrow(
+			"state encoding has trailing bytes",
+		);
+	});
+
+	test("rejects unknown versions and kinds", () => {
+		const [state] = sampleStates();
+		const bytes = encodeState(state);
+		const badVersion = bytes.slice();
+		badVersion[0] = 2;
+		expect(() => decodeState(badVersion)).toThrow(
+			"unsupported state encoding version 2",
+		);
+		const badKind = bytes.slice();
+		badKind[1] = 9;
+		expect(() => decodeState(badKind)).toThrow("unknown state kind 9");
+	});
+
+	test("refuses to encode a state with a wrong checksum", () => {
+		const [state] = sampleStates();
+		expect(() =>
+			encodeState({ ...state, checksum: state.checksum ^ 1 }),
+		).toThrow("state checksum mismatch");
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from "bun:test";
+import { createTimeLockPuzzle, solveTimeLockPuzzle } from "../src/timelock.ts";
+import { evaluate, verify, verifyWithChallenge } from "../src/vdf.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const PARAMS = { n: TEST_MODULUS, t: 5000, p: P, q: Q };
+
+describe("createTimeLockPuzzle / solveTimeLockPuzzle", () => {
+	test("round-trips a message", async () => {
+		const message = new TextEncoder().encode("sealed bid: 42");
+		const puzzle = await createTimeLockPuzzle(message, PARAMS);
+		expect(puzzle.n).toBe(TEST_MODULUS);
+		expect(puzzle.t).toBe(5000);
+		expect(puzzle.iv.length).toBe(12);
+		expect(puzzle.ciphertext.length).toBe(message.length + 16);
+
+		const { message: opened, output } = await solveTimeLockPuzzle(puzzle);
+		expect(opened).toEqual(message);
+		expect(output).toEqual(evaluate(puzzle.x, { n: TEST_MODULUS, t: 5000 }));
+	});
+
+	test("encodes string messages as UTF-8", async () => {
+		const puzzle = await createTimeLockPuzzle("héllo", PARAMS);
+		const { message } = await solveTimeLockPuzzle(puzzle);
+		expect(new TextDecoder().decode(message)).toBe("héllo");
+	});
+
+	test("handles an empty message", async () => {
+		const puzzle = await createTimeLockPuzzle(new Uint8Array(0), PARAMS);
+		const { message } = await solveTimeLockPuzzle(puzzle);
+		expect(message.length).toBe(0);
+	});
+
+	test("uses a fresh input and IV per puzzle", async () => {
+		const a = await createTimeLockPuzzle("m", PARAMS);
+		const b = await createTimeLockPuzzle("m", PARAMS);
+		expect(a.x).not.toBe(b.x);
+		expect(a.iv).not.toEqual(b.iv);
+	});
+
+	test("optionally proves the solution", async () => {
+		const puzzle = await createTimeLockPuzzle("m", PARAMS);
+		const withoutProof = await solveTimeLockPuzzle(puzzle);
+		expect(withoutProof.proof).toBeUndefined();
+
+		const { output, proof } = await solveTimeLockPuzzle(puzzle, {
+			prove: true,
+		});
+		expect(proof).toBeDefined();
+		expect(proof!.h).toBe(output.h);
+		expect(verify(proof!)).toBe(true);
+		expect(await verifyWithChallenge(proof!)).toBe(true);
+	});
+
+	test("rejects tampered ciphertexts and parameters", async () => {
+		const puzzle = await createTimeLockPuzzle("secret", PARAMS);
+
+		const ciphertext = puzzle.ciphertext.slice();
+		ciphertext[0]! ^= 1;
+		await expect(
+			solveTimeLockPuzzle({ ...puzzle, ciphertext }),
+		).rejects.toThrow("time-lock puzzle decryption failed");
+		await expect(
+			solveTimeLockPuzzle({ ...puzzle, t: puzzle.t - 1 }),
+		).rejects.toThrow("time-lock puzzle decryption failed");
+		await expect(
+			solveTimeLockPuzzle({ ...puzzle, iv: new Uint8Array(8) }),
+		).rejects.toThrow("iv must be 12 bytes");
+	});
+
+	test("requires the factorization of n", async () => {
+		await expect(
+			createTimeLockPuzzle("m", { ...PARAMS, q: Q + 2n }),
+		).rejects.toThrow("p and q must be the factors of n");
+		await expect(
+			createTimeLockPuzzle("m", { ...PARAMS, p: 1n, q: TEST_MODULUS }),
+		).rejects.toThrow("p and q must be the factors of n");
+		await expect(
+			createTimeLockPuzzle("m", { ...PARAMS, t: 0 }),
+		).rejects.toThrow("t must be a positive safe integer");
+	});
+});
@@ -0,0 +1,143 @@
+import { describe, test, expect } from "bun:test";
+import { evaluateWithTrapdoor, proveWithTrapdoor } from "../src/trapdoor.ts";
+import {
+	evaluate,
+	prove,
+	verify,
+	deriveChallenge,
+} from "../src/vdf.ts";
+import { getPrime, nextPrime } from "../src/prime.ts";
+import { InvalidParamsError, ModulusRegistryError } from "../src/errors.ts";
+
+const P = 1000000007n;
+const Q = 1000000009n;
+const TEST_MODULUS = P * Q;
+const TEST_X = 123456791n;
+const FACTORS = { n: TEST_MODULUS, p: P, q: Q };
+
+describe("evaluateWithTrapdoor", () => {
+	test("matches evaluate", () => {
+		for (const t of [1, 2, 17, 1000, 12345]) {
+			expect(evaluateWithTrapdoor(TEST_X, { ...FACTORS, t })).toEqual(
+				evaluate(TEST_X, { n: TEST_MODULUS, t }),
+			);
+		}
+	});
+
+	test("matches evaluate for a 1024-bit modulus", () => {
+		const p = getPrime({ bits: 512 });
+		const q = getPrime({ bits: 512 });
+		const n = p * q;
+		const x = 0xdeadbeefn;
+		expect(evaluateWithTrapdoor(x, { n, t: 3000, p, q }).h).toBe(
+			evaluate(x, { n, t: 3000 }).h,
+		);
+	});
+
+	test("handles huge t", async () => {
+		const t = Number.MAX_SAFE_INTEGER;
+		const output = evaluateWithTrapdoor(TEST_X, { ...FACTORS, t });
+		const nonce = new Uint8Array(32);
+		const l = await deriveChallenge(output, nonce);
+		const pi = proveWithTrapdoor(output, l, { ...FACTORS, t });
+		expect(verify({ ...output, pi, l, nonce })).toBe(true);
+	});
+
+	test("supports the signed group", () => {
+		for (const x of [TEST_X, TEST_MODULUS - TEST_X]) {
+			const params = { n: TEST_MODULUS, t: 1500, signed: true };
+			expect(evaluateWithTrapdoor(x, { ...FACTORS, ...params })).toEqual(
+				evaluate(x, params),
+			);
+		}
+	});
+
+	test("carries the challenge configuration and modulus id", () => {
+		const params = {
+			n: TEST_MODULUS,
+			t: 50,
+			challenge: { hash: "BLAKE2b" as const, bits: 256 },
+		};
+		expect(evaluateWithTrapdoor(TEST_X, { ...FACTORS, ...params })).toEqual(
+			evaluate(TEST_X, params),
+		);
+		expect(() =>
+			evaluateWithTrapdoor(TEST_X, {
+				...FACTORS,
+				...params,
+				modulusId: "not-registered",
+			}),
+		).toThrow(ModulusRegistryError);
+		expect(() =>
+			evaluateWithTrapdoor(TEST_X, {
+				...FACTORS,
+				...params,
+				challenge: { bits: 1 },
+			}),
+		).toThrow(InvalidParamsError);
+	});
+
+	test("rejects wrong factors and inputs", () => {
+		expect(() =>
+			evaluateWithTrapdoor(TEST_X, { ...FACTORS, t: 10, q: Q + 2n }),
+		).toThrow("p and q must be the factors of n");
+		expect(() =>
+			evaluateWithTrapdoor(TEST_X, { n: 91n * 11n, t: 10, p: 91n, q: 11n }),
+		).toThrow("p and q must be distinct primes");
+		expect(() =>
+			evaluateWithTrapdoor(TEST_X, { n: P * P, t: 10, p: P, q: P }),
+		).toThrow("p and q must be distinct primes");
+		expect(() => evaluateWithTrapdoor(0n, { ...FACTORS, t: 10 })).toThrow(
+			"x must be in range (0, n)",
+		);
+		expect(() => evaluateWithTrapdoor(P, { ...FACTORS, t: 10 })).toThrow(
+			"x must be coprime to n",
+		);
+		expect(() => evaluateWithTrapdoor(TEST_X, { ...FACTORS, t: 0 })).toThrow(
+			"t must be a positive safe integer",
+		);
+	});
+});
+
+describe("proveWithTrapdoor", () => {
+	test("matches prove", async () => {
+		for (const t of [1, 5, 100, 2048]) {
+			const output = evaluate(TEST_X, { n: TEST_MODULUS, t });
+			const l = await deriveChallenge(output, new Uint8Array(32));
+			expect(proveWithTrapdoor(output, l, { ...FACTORS, t })).toBe(
+				prove(output, l),
+			);
+		}
+	});
+
+	test("matches prove for small and large challenges", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 700 });
+		for (const l of [3n, 97n, nextPrime(1n << 200n), nextPrime(1n << 800n)]) {
+			expect(proveWithTrapdoor(output, l, { ...FACTORS, t: 700 })).toBe(
+				prove(output, l),
+			);
+		}
+	});
+
+	test("matches prove in the signed group", async () => {
+		const nonce = new Uint8Array(32);
+		for (let i = 0n; i < 10n; i++) {
+			const output = evaluate(TEST_X + i, {
+				n: TEST_MODULUS,
+				t: 1500,
+				signed: true,
+			});
+			const l = await deriveChallenge(output, nonce);
+			const pi = proveWithTrapdoor(output, l, { ...FACTORS, t: 1500 });
+			expect(pi).toBe(prove(output, l));
+			expect(verify({ ...output, pi, l, nonce })).toBe(true);
+		}
+	});
+
+	test("rejects params that do not match the output", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		expect(() =>
+			proveWithTrapdoor(output, 97n, { ...FACTORS, t: 101 }),
+		).toThrow("params do not match the output");
+	});
+});
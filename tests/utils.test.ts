@@ -1,6 +1,9 @@
 import { describe, test, expect } from "bun:test";
 import {
 	gcd,
+	extendedGcd,
+	modInverse,
+	isqrt,
 	modpow,
 	u32be,
 	u64be,
@@ -9,7 +12,9 @@ import {
 	bytesToBigint,
 	bigintByteLength,
 	bigintToFixedBytes,
+	crc32,
 } from "../src/utils.ts";
+import { InvalidInputError } from "../src/errors.ts";
 
 describe("gcd", () => {
 	test("computes gcd of coprime numbers", () => {
@@ -33,6 +38,59 @@ describe("gcd", () => {
 	});
 });
 
+describe("extendedGcd", () => {
+	test("returns Bezout coefficients", () => {
+		for (const [a, b] of [
+			[240n, 46n],
+			[17n, 13n],
+			[-35n, 15n],
+			[0n, 9n],
+		] as const) {
+			const [g, x, y] = extendedGcd(a, b);
+			expect(g).toBe(gcd(a < 0n ? -a : a, b));
+			expect(a * x + b * y).toBe(g);
+		}
+	});
+});
+
+describe("modInverse", () => {
+	test("computes inverses", () => {
+		expect(modInverse(3n, 7n)).toBe(5n);
+		expect(modInverse(-3n, 7n)).toBe(2n);
+		expect(modInverse(10n, 7n)).toBe(5n);
+		const m = 1000000007n;
+		expect((modInverse(123456789n, m) * 123456789n) % m).toBe(1n);
+	});
+
+	test("throws when no inverse exists", () => {
+		expect(() => modInverse(6n, 9n)).toThrow("value is not invertible");
+		expect(() => modInverse(3n, 0n)).toThrow(InvalidInputError);
+	});
+});
+
+describe("isqrt", () => {
+	test("computes floor square roots", () => {
+		expect(isqrt(0n)).toBe(0n);
+		expect(isqrt(1n)).toBe(1n);
+		expect(isqrt(15n)).toBe(3n);
+		expect(isqrt(16n)).toBe(4n);
+		expect(isqrt((1n << 200n) + 5n)).toBe(1n << 100n);
+		expect(isqrt((1n << 200n) - 1n)).toBe((1n << 100n) - 1n);
+	});
+
+	test("throws on negative", () => {
+		expect(() => isqrt(-1n)).toThrow(InvalidInputError);
+	});
+});
+
+describe("crc32", () => {
+	test("matches known check values", () => {
+		expect(crc32(new Uint8Array(0))).toBe(0);
+		expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+		expect(crc32(new Uint8Array([0xff, 0xff, 0xff, 0xff]))).toBe(0xffffffff);
+	});
+});
+
 describe("modpow", () => {
 	test("computes modular exponentiation", () => {
 		expect(modpow(2n, 10n, 1000n)).toBe(24n); // 2^10 = 1024 mod 1000 = 24
@@ -82,11 +140,11 @@ describe("u64be", () => {
 	});
 
 	test("throws on negative", () => {
-		expect(() => u64be(-1n)).toThrow(RangeError);
+		expect(() => u64be(-1n)).toThrow(InvalidInputError);
 	});
 
 	test("throws on overflow", () => {
-		expect(() => u64be(0x1_0000_0000_0000_0000n)).toThrow(RangeError);
+		expect(() => u64be(0x1_0000_0000_0000_0000n)).toThrow(InvalidInputError);
 	});
 });
 
@@ -162,6 +220,6 @@ describe("bigintToFixedBytes", () => {
 	});
 
 	test("throws when too large", () => {
-		expect(() => bigintToFixedBytes(256n, 1)).toThrow(RangeError);
+		expect(() => bigintToFixedBytes(256n, 1)).toThrow(InvalidInputError);
 	});
 });
@@ -6,11 +6,24 @@ import {
 	generateProof,
 	verify,
 	verifyWithChallenge,
+	deriveChallengeSync,
+	generateProofSync,
+	verifyWithChallengeSync,
+	verifyDetailed,
+	verifyDetailedSync,
+	evaluateFromSeed,
+	verifyFromSeed,
 	RSA_2048,
 	RSA_3072,
 	RSA_4096,
+	type VDFProof,
+	type VerifyCode,
+	type VerifyResult,
 } from "../src/vdf.ts";
+import { hashToGroup } from "../src/hash.ts";
+import { modulusParams } from "../src/registry.ts";
 import { modpow } from "../src/utils.ts";
+import { InvalidInputError, InvalidParamsError } from "../src/errors.ts";
 
 // Use a smaller modulus for faster tests (product of two primes)
 const P = 1000000007n; // A known prime
@@ -39,19 +52,27 @@ describe("evaluate", () => {
 	});
 
 	test("throws for x <= 0", () => {
-		expect(() => evaluate(0n, { n: TEST_MODULUS, t: 10 })).toThrow(RangeError);
-		expect(() => evaluate(-1n, { n: TEST_MODULUS, t: 10 })).toThrow(RangeError);
+		expect(() => evaluate(0n, { n: TEST_MODULUS, t: 10 })).toThrow(
+			InvalidInputError,
+		);
+		expect(() => evaluate(-1n, { n: TEST_MODULUS, t: 10 })).toThrow(
+			InvalidInputError,
+		);
 	});
 
 	test("throws for x >= n", () => {
 		expect(() => evaluate(TEST_MODULUS, { n: TEST_MODULUS, t: 10 })).toThrow(
-			RangeError,
+			InvalidInputError,
 		);
 	});
 
 	test("throws for t <= 0", () => {
-		expect(() => evaluate(2n, { n: TEST_MODULUS, t: 0 })).toThrow(RangeError);
-		expect(() => evaluate(2n, { n: TEST_MODULUS, t: -1 })).toThrow(RangeError);
+		expect(() => evaluate(2n, { n: TEST_MODULUS, t: 0 })).toThrow(
+			InvalidParamsError,
+		);
+		expect(() => evaluate(2n, { n: TEST_MODULUS, t: -1 })).toThrow(
+			InvalidParamsError,
+		);
 	});
 });
 
@@ -182,6 +203,230 @@ describe("verifyWithChallenge", () => {
 	});
 });
 
+describe("synchronous challenge derivation", () => {
+	const nonce = new Uint8Array(32).fill(5);
+
+	test("derives the same challenge as the async version", async () => {
+		const outputs = [
+			evaluate(TEST_X, { n: TEST_MODULUS, t: 100 }),
+			evaluate(TEST_X, modulusParams("rsa2048-challenge", 20)),
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 100,
+				challenge: { hash: "SHA-256", bits: 384 },
+			}),
+			evaluate(TEST_X, {
+				n: TEST_MODULUS,
+				t: 100,
+				challenge: { hash: "BLAKE2b", tag: "sync" },
+			}),
+		];
+		for (const output of outputs) {
+			expect(deriveChallengeSync(output, nonce)).toBe(
+				await deriveChallenge(output, nonce),
+			);
+		}
+	});
+
+	test("proofs are interchangeable with the async versions", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = generateProofSync(output, nonce);
+		expect(proof).toEqual(await generateProof(output, nonce));
+		expect(verifyWithChallengeSync(proof)).toBe(true);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+
+		const random = generateProofSync(output);
+		expect(random.nonce.length).toBe(32);
+		expect(verifyWithChallengeSync(await generateProof(output))).toBe(true);
+		expect(verifyWithChallengeSync(random)).toBe(true);
+	});
+
+	test("rejects tampered proofs", () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = generateProofSync(output, nonce);
+		expect(verifyWithChallengeSync({ ...proof, l: proof.l + 2n })).toBe(false);
+		expect(verifyWithChallengeSync({ ...proof, h: proof.h + 1n })).toBe(false);
+		expect(verifyWithChallengeSync({ ...proof, challenge: { bits: 1 } })).toBe(
+			false,
+		);
+		expect(verifyWithChallengeSync(proof, { requireRegistered: true })).toBe(
+			false,
+		);
+		expect(() => deriveChallengeSync(output, new Uint8Array(16))).toThrow(
+			"nonce must be 32 bytes",
+		);
+	});
+});
+
+describe("verifyDetailed", () => {
+	const nonce = new Uint8Array(32).fill(4);
+
+	async function makeProof() {
+		return generateProof(evaluate(TEST_X, { n: TEST_MODULUS, t: 100 }), nonce);
+	}
+
+	test("accepts a valid proof", async () => {
+		const proof = await makeProof();
+		const ok: VerifyResult = { ok: true, code: "OK", reason: "proof is valid" };
+		expect(await verifyDetailed(proof)).toEqual(ok);
+		expect(verifyDetailedSync(proof)).toEqual(ok);
+		expect(await verifyDetailed(proof, { checkChallenge: false })).toEqual(ok);
+	});
+
+	test("reports the first failed check", async () => {
+		const proof = await makeProof();
+		const cases: [Partial<VDFProof>, VerifyCode][] = [
+			[{ n: 1n }, "INVALID_MODULUS"],
+			[{ modulusId: "rsa2048-challenge" }, "UNREGISTERED_MODULUS"],
+			[{ t: 0 }, "INVALID_T"],
+			[{ t: 1.5 }, "INVALID_T"],
+			[{ x: P }, "INVALID_X"],
+			[{ h: TEST_MODULUS }, "INVALID_H"],
+			[{ pi: 0n }, "INVALID_PI"],
+			[{ challenge: { bits: 1 } }, "INVALID_CHALLENGE_CONFIG"],
+			[{ nonce: new Uint8Array(16) }, "INVALID_NONCE"],
+			[{ l: proof.l + 2n }, "CHALLENGE_MISMATCH"],
+			[{ h: proof.h + 1n }, "CHALLENGE_MISMATCH"],
+		];
+		for (const [change, code] of cases) {
+			const result = await verifyDetailed({ ...proof, ...change });
+			expect(result.ok).toBe(false);
+			expect(result.code).toBe(code);
+			expect(result.reason.length).toBeGreaterThan(0);
+			expect(verifyDetailedSync({ ...proof, ...change })).toEqual(result);
+		}
+	});
+
+	test("checks the equation without the challenge", async () => {
+		const proof = await makeProof();
+		const options = { checkChallenge: false };
+		expect((await verifyDetailed({ ...proof, l: 9n }, options)).code).toBe(
+			"L_NOT_PRIME",
+		);
+		expect(
+			(await verifyDetailed({ ...proof, h: proof.h + 1n }, options)).code,
+		).toBe("EQUATION_MISMATCH");
+		expect(
+			(await verifyDetailed(proof, { requireRegistered: true })).code,
+		).toBe("UNREGISTERED_MODULUS");
+	});
+
+	test("agrees with verify and verifyWithChallenge", async () => {
+		const proof = await makeProof();
+		const variants = [
+			proof,
+			{ ...proof, pi: (proof.pi * 2n) % TEST_MODULUS },
+			{ ...proof, l: proof.l + 2n },
+			{ ...proof, x: TEST_MODULUS + 1n },
+		];
+		for (const p of variants) {
+			expect((await verifyDetailed(p)).ok).toBe(await verifyWithChallenge(p));
+			expect((await verifyDetailed(p, { checkChallenge: false })).ok).toBe(
+				verify(p),
+			);
+		}
+	});
+});
+
+describe("signed group", () => {
+	const nonce = new Uint8Array(32).fill(3);
+	const params = { n: TEST_MODULUS, t: 100, signed: true };
+
+	test("evaluates to canonical representatives", () => {
+		const output = evaluate(TEST_MODULUS - TEST_X, params);
+		const plain = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		expect(output.signed).toBe(true);
+		expect(output.x).toBe(TEST_X);
+		// Squaring removes the sign, so h is the class of the plain output
+		expect([plain.h, TEST_MODULUS - plain.h]).toContain(output.h);
+		expect(output.h <= TEST_MODULUS >> 1n).toBe(true);
+		expect(evaluate(TEST_X, params)).toEqual(output);
+		expect("signed" in plain).toBe(false);
+	});
+
+	test("proofs verify and are canonical", async () => {
+		const output = evaluate(TEST_X, params);
+		const proof = await generateProof(output, nonce);
+		expect(proof.pi <= TEST_MODULUS >> 1n).toBe(true);
+		expect(verify(proof)).toBe(true);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+
+		const sync = generateProofSync(output, nonce);
+		expect(sync).toEqual(proof);
+		expect(verifyWithChallengeSync(sync)).toBe(true);
+	});
+
+	test("rejects negated outputs and proofs", async () => {
+		const proof = await generateProof(evaluate(TEST_X, params), nonce);
+		const h = TEST_MODULUS - proof.h;
+		const pi = TEST_MODULUS - proof.pi;
+		expect(verify({ ...proof, h })).toBe(false);
+		expect(verify({ ...proof, pi })).toBe(false);
+		expect(verify({ ...proof, h, pi })).toBe(false);
+		expect(verify({ ...proof, x: TEST_MODULUS - proof.x })).toBe(false);
+	});
+
+	test("binds the group mode into the challenge", async () => {
+		const output = evaluate(TEST_X, params);
+		const { signed: _, ...unsigned } = output;
+		expect(await deriveChallenge(output, nonce)).not.toBe(
+			await deriveChallenge(unsigned, nonce),
+		);
+
+		const proof = await generateProof(output, nonce);
+		expect(await verifyWithChallenge({ ...proof, signed: undefined })).toBe(
+			false,
+		);
+	});
+
+	test("works with evaluateFromSeed", async () => {
+		const seed = new TextEncoder().encode("signed-seed");
+		const output = await evaluateFromSeed(seed, params);
+		expect(output.x <= TEST_MODULUS >> 1n).toBe(true);
+		expect(await verifyFromSeed(await generateProof(output), seed)).toBe(true);
+	});
+});
+
+describe("evaluateFromSeed / verifyFromSeed", () => {
+	const seed = new TextEncoder().encode("round-42");
+
+	test("evaluates on the mapped seed", async () => {
+		const output = await evaluateFromSeed(seed, { n: TEST_MODULUS, t: 100 });
+		expect(output.x).toBe(await hashToGroup(seed, TEST_MODULUS));
+		expect(output.h).toBe(evaluate(output.x, { n: TEST_MODULUS, t: 100 }).h);
+	});
+
+	test("accepts a proof for the mapped seed", async () => {
+		const output = await evaluateFromSeed(seed, { n: TEST_MODULUS, t: 100 });
+		const proof = await generateProof(output);
+		expect(await verifyFromSeed(proof, seed)).toBe(true);
+	});
+
+	test("rejects a valid proof for a different input", async () => {
+		const output = evaluate(TEST_X, { n: TEST_MODULUS, t: 100 });
+		const proof = await generateProof(output);
+		expect(await verifyWithChallenge(proof)).toBe(true);
+		expect(await verifyFromSeed(proof, seed)).toBe(false);
+	});
+
+	test("rejects a proof under a different domain", async () => {
+		const output = await evaluateFromSeed(
+			seed,
+			{ n: TEST_MODULUS, t: 100 },
+			{ domain: "beacon" },
+		);
+		const proof = await generateProof(output);
+		expect(await verifyFromSeed(proof, seed, { domain: "beacon" })).toBe(true);
+		expect(await verifyFromSeed(proof, seed)).toBe(false);
+	});
+
+	test("rejects a proof whose modulus is too small to hash to", async () => {
+		const output = await evaluateFromSeed(seed, { n: TEST_MODULUS, t: 100 });
+		const proof = await generateProof(output);
+		expect(await verifyFromSeed({ ...proof, n: 3n }, seed)).toBe(false);
+	});
+});
+
 describe("RSA moduli", () => {
 	test("RSA_2048 is 2048 bits", () => {
 		expect(RSA_2048.toString().startsWith("2519590847565789")).toBe(true);